@@ -11,8 +11,11 @@ import Home from "@/pages/home";
 import ReportForm from "@/pages/report-form";
 import Approval from "@/pages/approval";
 import History from "@/pages/history";
+import Analytics from "@/pages/analytics";
+import CustomerHistory from "@/pages/customer-history";
 import UserManagement from "@/pages/user-management";
 import Settings from "@/pages/settings";
+import BankMasters from "@/pages/bank-masters";
 import UserSwitcherPage from "@/pages/user-switcher-page";
 
 function Router() {
@@ -40,8 +43,11 @@ function Router() {
           <Route path="/reports/:id/edit" component={ReportForm} />
           <Route path="/approval" component={Approval} />
           <Route path="/history" component={History} />
+          <Route path="/analytics" component={Analytics} />
+          <Route path="/customers/:userNumber" component={CustomerHistory} />
           <Route path="/settings" component={Settings} />
           <Route path="/users" component={UserManagement} />
+          <Route path="/masters/banks" component={BankMasters} />
           <Route path="/user-switcher" component={UserSwitcherPage} />
         </>
       )}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { Link, useLocation } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery } from "@tanstack/react-query";
@@ -11,14 +11,18 @@ import {
   FileText, 
   CheckCircle, 
   History, 
+  BarChart3,
   Settings, 
   Users,
+  Building2,
+  Bookmark,
   Calendar,
   LogOut, 
   Menu, 
   X 
 } from "lucide-react";
 import BulkPrintModal from "@/components/reports/bulk-print-modal";
+import { SavedSearchWithCount } from "@shared/schema";
 
 export default function Sidebar() {
   const [location] = useLocation();
@@ -31,6 +35,14 @@ export default function Sidebar() {
     retry: false,
   });
 
+  // Quick links to saved searches; counts are recomputed by the server on every fetch
+  const { data: savedSearches = [] } = useQuery<SavedSearchWithCount[]>({
+    queryKey: ["/api/saved-searches"],
+    refetchInterval: 60_000,
+    retry: false,
+  });
+  const activeSavedId = new URLSearchParams(useSearch()).get("saved");
+
   const handleLogout = async () => {
     try {
       await fetch("/api/auth/logout", {
@@ -91,7 +103,13 @@ export default function Sidebar() {
       name: "履歴・検索",
       href: "/history", 
       icon: History,
-      current: location === "/history",
+      current: (location === "/history" && !activeSavedId) || location.startsWith("/customers/"),
+    },
+    {
+      name: "分析",
+      href: "/analytics",
+      icon: BarChart3,
+      current: location === "/analytics",
     },
     {
       name: "設定",
@@ -113,6 +131,20 @@ export default function Sidebar() {
         }
       })(),
     },
+    {
+      name: "金融機関マスタ",
+      href: "/masters/banks",
+      icon: Building2,
+      current: location === "/masters/banks",
+      show: (() => {
+        try {
+          const roles = JSON.parse((user as any)?.roles || '[]');
+          return roles.includes('admin');
+        } catch {
+          return false;
+        }
+      })(),
+    },
   ];
 
   const filteredNavigation = navigation.filter(item => item.show !== false);
@@ -183,7 +215,7 @@ export default function Sidebar() {
           </div>
           
           {/* Navigation Menu */}
-          <nav className="flex-1 px-4 py-6 space-y-2">
+          <nav className="flex-1 px-4 py-6 space-y-2 overflow-y-auto">
             {filteredNavigation.map((item) => {
               const Icon = item.icon;
               return (
@@ -219,6 +251,38 @@ export default function Sidebar() {
                 </Link>
               );
             })}
+
+            {savedSearches.length > 0 && (
+              <div className="pt-4" data-testid="nav-saved-searches">
+                <p className="px-4 pb-2 text-xs font-semibold text-muted-foreground">保存した検索</p>
+                {savedSearches.map((search) => (
+                  <Link
+                    key={search.id}
+                    href={`/history?saved=${search.id}`}
+                    className={cn(
+                      "flex items-center px-4 py-2 text-sm font-medium rounded-md transition-colors",
+                      location === "/history" && activeSavedId === search.id
+                        ? "text-primary bg-primary/10"
+                        : "text-muted-foreground hover:text-foreground hover:bg-accent"
+                    )}
+                    data-testid={`nav-saved-search-${search.id}`}
+                    onClick={() => setIsMobileOpen(false)}
+                  >
+                    <Bookmark className="mr-3 h-4 w-4 shrink-0" />
+                    <span className="truncate">{search.name}</span>
+                    {search.count > 0 && (
+                      <Badge
+                        variant="secondary"
+                        className="ml-auto"
+                        data-testid={`badge-saved-search-${search.id}`}
+                      >
+                        {search.count}
+                      </Badge>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            )}
           </nav>
           
           {/* User Info */}
@@ -0,0 +1,232 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { invalidateBankMasters } from "@/lib/bankMasters";
+import { BankMasterImportDiff, BankMasterImportEntry } from "@shared/schema";
+import { AlertTriangle, FileSearch, Upload } from "lucide-react";
+
+// Zengin master files are usually Shift_JIS; UTF-8 is tried first
+async function readMasterFile(file: File): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder("shift_jis").decode(buffer);
+  }
+}
+
+// Sent as the raw body; the JSON helper's size limit is too small for the full master
+async function postMasterCsv(url: string, csv: string): Promise<BankMasterImportDiff> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "text/csv; charset=utf-8" },
+    body: csv,
+    credentials: "include",
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || "金融機関マスタの取り込みに失敗しました");
+  }
+  return response.json();
+}
+
+const countChanges = (diff: BankMasterImportDiff) =>
+  diff.institutions.added.length + diff.institutions.changed.length + diff.institutions.removed.length
+  + diff.branches.added.length + diff.branches.changed.length + diff.branches.removed.length;
+
+const sections: { key: "added" | "changed" | "removed"; label: string; variant: "default" | "secondary" | "destructive" }[] = [
+  { key: "added", label: "追加", variant: "default" },
+  { key: "changed", label: "変更", variant: "secondary" },
+  { key: "removed", label: "無効化", variant: "destructive" },
+];
+
+function DiffTable({ title, entries }: { title: string; entries: BankMasterImportDiff["institutions"] }) {
+  const rows = sections.flatMap((section) =>
+    entries[section.key].map((entry) => ({ section, entry }))
+  );
+
+  const describe = (entry: BankMasterImportEntry) => {
+    if (entry.previousName && entry.reactivated) return `${entry.previousName} → ${entry.name}（再有効化）`;
+    if (entry.previousName) return `${entry.previousName} → ${entry.name}`;
+    if (entry.reactivated) return `${entry.name}（再有効化）`;
+    return entry.name;
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        {title}
+        {sections.map((section) => (
+          <Badge key={section.key} variant={section.variant}>
+            {section.label} {entries[section.key].length}件
+          </Badge>
+        ))}
+      </div>
+      {rows.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>区分</TableHead>
+                <TableHead>コード</TableHead>
+                <TableHead>名称</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ section, entry }) => (
+                <TableRow key={`${section.key}-${entry.bankCode}-${entry.branchCode ?? ""}`}>
+                  <TableCell>
+                    <Badge variant={section.variant}>{section.label}</Badge>
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    {entry.branchCode ? `${entry.bankCode}-${entry.branchCode}` : entry.bankCode}
+                  </TableCell>
+                  <TableCell>{describe(entry)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function BankMasterImportCard() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [csv, setCsv] = useState("");
+  const [preview, setPreview] = useState<BankMasterImportDiff | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: () => postMasterCsv("/api/financial-institutions/import/preview", csv),
+    onSuccess: (diff) => {
+      setPreview(diff);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "確認エラー",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => postMasterCsv("/api/financial-institutions/import", csv),
+    onSuccess: (diff) => {
+      toast({
+        title: "取り込み完了",
+        description: `${countChanges(diff)}件の変更を反映しました`,
+      });
+      invalidateBankMasters();
+      setPreview(null);
+      setCsv("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "取り込みエラー",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    setCsv(await readMasterFile(file));
+    setPreview(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Upload className="h-5 w-5" />
+          CSV取り込み
+        </CardTitle>
+        <CardDescription>
+          「金融機関コード,支店コード,金融機関名,支店名」の4列、または全銀協形式（コード,支店コード,カナ,名称,支店カナ,支店名,...）に対応しています。
+          ファイルを完全なマスタとして扱い、ファイルにない金融機関・支店は無効になります
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          rows={8}
+          className="font-mono text-xs"
+          placeholder={"0001,001,みずほ銀行,東京営業部\n0001,002,みずほ銀行,丸の内支店"}
+          value={csv}
+          onChange={(e) => {
+            setCsv(e.target.value);
+            setPreview(null);
+          }}
+          data-testid="textarea-bank-master-csv"
+        />
+        <div className="flex flex-wrap justify-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.txt,text/csv,text/plain"
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-bank-master-file"
+          />
+          <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            ファイルを選択
+          </Button>
+          <Button
+            type="button"
+            onClick={() => previewMutation.mutate()}
+            disabled={!csv.trim() || previewMutation.isPending}
+            data-testid="button-preview-bank-master"
+          >
+            <FileSearch className="mr-2 h-4 w-4" />
+            {previewMutation.isPending ? "確認中..." : "差分を確認"}
+          </Button>
+        </div>
+
+        {preview && (
+          <div className="space-y-4 border-t pt-4" data-testid="bank-master-preview">
+            {preview.errors.length > 0 && (
+              <div className="space-y-1 rounded-md border border-destructive p-3 text-sm">
+                <p className="flex items-center gap-2 font-medium text-destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  {preview.errors.length}件のエラーがあります。修正するまで取り込めません
+                </p>
+                <ul className="max-h-40 overflow-y-auto text-muted-foreground">
+                  {preview.errors.map((error) => (
+                    <li key={`${error.line}-${error.message}`}>{error.line}行目: {error.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <DiffTable title="金融機関" entries={preview.institutions} />
+            <DiffTable title="支店" entries={preview.branches} />
+
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                onClick={() => importMutation.mutate()}
+                disabled={preview.errors.length > 0 || countChanges(preview) === 0 || importMutation.isPending}
+                data-testid="button-import-bank-master"
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                {importMutation.isPending ? "取り込み中..." : countChanges(preview) === 0 ? "変更はありません" : "取り込む"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
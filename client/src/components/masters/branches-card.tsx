@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { branchesWithInactiveKey, invalidateBankMasters } from "@/lib/bankMasters";
+import { cn } from "@/lib/utils";
+import { Branch, FinancialInstitution, insertBranchSchema } from "@shared/schema";
+import { GitBranch, Pencil, Plus, Save } from "lucide-react";
+
+const branchFormSchema = insertBranchSchema.pick({ branchCode: true, branchName: true });
+
+type BranchFormData = z.infer<typeof branchFormSchema>;
+
+const emptyBranch: BranchFormData = {
+  branchCode: "",
+  branchName: "",
+};
+
+interface BranchesCardProps {
+  institution: FinancialInstitution | null;
+}
+
+export default function BranchesCard({ institution }: BranchesCardProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  const { data: branches = [], isLoading } = useQuery<Branch[]>({
+    queryKey: branchesWithInactiveKey(institution?.id ?? ""),
+    enabled: !!institution,
+    retry: false,
+  });
+
+  const query = search.trim();
+  const filtered = branches.filter((branch) =>
+    !query || branch.branchCode.startsWith(query) || branch.branchName.includes(query)
+  );
+
+  const form = useForm<BranchFormData>({
+    resolver: zodResolver(branchFormSchema),
+    defaultValues: emptyBranch,
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.reset(emptyBranch);
+  };
+
+  useEffect(() => {
+    resetForm();
+    setSearch("");
+  }, [institution?.id]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BranchFormData) => {
+      // The branch code is fixed once registered
+      const response = editingId
+        ? await apiRequest("PUT", `/api/branches/${editingId}`, { branchName: data.branchName })
+        : await apiRequest("POST", "/api/branches", { ...data, institutionId: institution!.id });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "保存完了",
+        description: editingId ? "支店を更新しました" : "支店を登録しました",
+      });
+      invalidateBankMasters();
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "保存エラー",
+        description: error.message.startsWith("409")
+          ? "この支店コードは既に登録されています"
+          : "支店の保存に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/branches/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBankMasters();
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "支店の更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (branch: Branch) => {
+    setEditingId(branch.id);
+    form.reset({
+      branchCode: branch.branchCode,
+      branchName: branch.branchName,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          支店{institution && `（${institution.bankCode} ${institution.bankName}）`}
+        </CardTitle>
+        <CardDescription>
+          {institution ? "無効にした支店は報告書の選択肢から外れます" : "左の一覧から金融機関を選択してください"}
+        </CardDescription>
+      </CardHeader>
+      {institution && (
+        <CardContent className="space-y-6">
+          <Input
+            placeholder="コードまたは名称で絞り込み"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            data-testid="input-branch-search"
+          />
+
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>コード</TableHead>
+                  <TableHead>支店名</TableHead>
+                  <TableHead>有効</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">読み込み中...</TableCell>
+                  </TableRow>
+                ) : filtered.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">支店はありません</TableCell>
+                  </TableRow>
+                ) : (
+                  filtered.map((branch) => (
+                    <TableRow key={branch.id} data-testid={`row-branch-${branch.id}`}>
+                      <TableCell className="font-mono">{branch.branchCode}</TableCell>
+                      <TableCell className={cn("font-medium", !branch.isActive && "text-muted-foreground line-through")}>
+                        {branch.branchName}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={branch.isActive}
+                          onCheckedChange={(checked) => toggleMutation.mutate({ id: branch.id, isActive: checked })}
+                          disabled={toggleMutation.isPending}
+                          data-testid={`switch-branch-active-${branch.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => startEditing(branch)}
+                          data-testid={`button-edit-branch-${branch.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="branchCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>支店コード</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="001"
+                          maxLength={3}
+                          disabled={!!editingId}
+                          data-testid="input-branch-code"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="branchName"
+                  render={({ field }) => (
+                    <FormItem className="md:col-span-2">
+                      <FormLabel>支店名</FormLabel>
+                      <FormControl>
+                        <Input placeholder="東京営業部" data-testid="input-branch-name" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                {editingId && (
+                  <Button type="button" variant="ghost" onClick={resetForm}>
+                    キャンセル
+                  </Button>
+                )}
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-branch">
+                  {editingId ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+                  {saveMutation.isPending ? "保存中..." : editingId ? "支店を更新" : "支店を追加"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { institutionsWithInactiveKey, invalidateBankMasters } from "@/lib/bankMasters";
+import { cn } from "@/lib/utils";
+import { FinancialInstitution, insertFinancialInstitutionSchema } from "@shared/schema";
+import { Building2, Pencil, Plus, Save } from "lucide-react";
+
+const institutionFormSchema = insertFinancialInstitutionSchema.pick({ bankCode: true, bankName: true });
+
+type InstitutionFormData = z.infer<typeof institutionFormSchema>;
+
+const emptyInstitution: InstitutionFormData = {
+  bankCode: "",
+  bankName: "",
+};
+
+interface InstitutionsCardProps {
+  selectedId: string | null;
+  onSelect: (institution: FinancialInstitution) => void;
+}
+
+export default function InstitutionsCard({ selectedId, onSelect }: InstitutionsCardProps) {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  const { data: institutions = [], isLoading } = useQuery<FinancialInstitution[]>({
+    queryKey: institutionsWithInactiveKey,
+    retry: false,
+  });
+
+  const query = search.trim();
+  const filtered = institutions.filter((institution) =>
+    !query || institution.bankCode.startsWith(query) || institution.bankName.includes(query)
+  );
+
+  const form = useForm<InstitutionFormData>({
+    resolver: zodResolver(institutionFormSchema),
+    defaultValues: emptyInstitution,
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.reset(emptyInstitution);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InstitutionFormData) => {
+      // The bank code is fixed once registered
+      const response = editingId
+        ? await apiRequest("PUT", `/api/financial-institutions/${editingId}`, { bankName: data.bankName })
+        : await apiRequest("POST", "/api/financial-institutions", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "保存完了",
+        description: editingId ? "金融機関を更新しました" : "金融機関を登録しました",
+      });
+      invalidateBankMasters();
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "保存エラー",
+        description: error.message.startsWith("409")
+          ? "この金融機関コードは既に登録されています"
+          : "金融機関の保存に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/financial-institutions/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateBankMasters();
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "金融機関の更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (institution: FinancialInstitution) => {
+    setEditingId(institution.id);
+    form.reset({
+      bankCode: institution.bankCode,
+      bankName: institution.bankName,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          金融機関
+        </CardTitle>
+        <CardDescription>
+          行を選択すると支店を表示します。報告書で使われているため削除はできず、無効にすると選択肢から外れます
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Input
+          placeholder="コードまたは名称で絞り込み"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          data-testid="input-institution-search"
+        />
+
+        <div className="max-h-96 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>コード</TableHead>
+                <TableHead>金融機関名</TableHead>
+                <TableHead>有効</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">読み込み中...</TableCell>
+                </TableRow>
+              ) : filtered.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">金融機関はありません</TableCell>
+                </TableRow>
+              ) : (
+                filtered.map((institution) => (
+                  <TableRow
+                    key={institution.id}
+                    className={cn("cursor-pointer", institution.id === selectedId && "bg-accent")}
+                    onClick={() => onSelect(institution)}
+                    data-testid={`row-institution-${institution.id}`}
+                  >
+                    <TableCell className="font-mono">{institution.bankCode}</TableCell>
+                    <TableCell className={cn("font-medium", !institution.isActive && "text-muted-foreground line-through")}>
+                      {institution.bankName}
+                    </TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Switch
+                        checked={institution.isActive}
+                        onCheckedChange={(checked) => toggleMutation.mutate({ id: institution.id, isActive: checked })}
+                        disabled={toggleMutation.isPending}
+                        data-testid={`switch-institution-active-${institution.id}`}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startEditing(institution);
+                        }}
+                        data-testid={`button-edit-institution-${institution.id}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="bankCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>金融機関コード</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="0001"
+                        maxLength={4}
+                        disabled={!!editingId}
+                        data-testid="input-institution-code"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bankName"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>金融機関名</FormLabel>
+                    <FormControl>
+                      <Input placeholder="みずほ銀行" data-testid="input-institution-name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-institution">
+                {editingId ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+                {saveMutation.isPending ? "保存中..." : editingId ? "金融機関を更新" : "金融機関を追加"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
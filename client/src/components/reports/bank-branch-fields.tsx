@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { cn } from "@/lib/utils";
+import { Branch, FinancialInstitution } from "@shared/schema";
+import { Check, ChevronsUpDown } from "lucide-react";
+
+interface BankFields {
+  bankCode: string;
+  branchCode: string;
+}
+
+interface MasterOption {
+  code: string;
+  name: string;
+}
+
+interface MasterComboboxProps {
+  value: string;
+  options: MasterOption[];
+  placeholder: string;
+  searchPlaceholder: string;
+  disabled?: boolean;
+  onSelect: (code: string) => void;
+  testId: string;
+}
+
+// Searchable by code or name; a code missing from the master is still shown so saved drafts stay visible
+function MasterCombobox({ value, options, placeholder, searchPlaceholder, disabled, onSelect, testId }: MasterComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const selected = options.find((option) => option.code === value);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <FormControl>
+          <Button
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            disabled={disabled}
+            className={cn("w-full justify-between font-normal", !value && "text-muted-foreground")}
+            data-testid={testId}
+          >
+            <span className="truncate">
+              {selected ? `${selected.code} ${selected.name}` : value ? `${value}（マスタ未登録）` : placeholder}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </FormControl>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput placeholder={searchPlaceholder} />
+          <CommandList>
+            <CommandEmpty>該当するものがありません</CommandEmpty>
+            <CommandGroup>
+              {options.map((option) => (
+                <CommandItem
+                  key={option.code}
+                  value={`${option.code} ${option.name}`}
+                  onSelect={() => {
+                    onSelect(option.code);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("mr-2 h-4 w-4", option.code === value ? "opacity-100" : "opacity-0")} />
+                  <span className="font-mono mr-2">{option.code}</span>
+                  {option.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Bank and branch pickers backed by the active master data.
+ * Must be rendered inside the report form's <Form> provider.
+ */
+export default function BankBranchFields() {
+  const form = useFormContext<BankFields>();
+  const bankCode = form.watch("bankCode");
+
+  const { data: institutions = [] } = useQuery<FinancialInstitution[]>({
+    queryKey: ["/api/financial-institutions"],
+    retry: false,
+  });
+  const institution = institutions.find((candidate) => candidate.bankCode === bankCode);
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/financial-institutions", institution?.id, "branches"],
+    enabled: !!institution,
+    retry: false,
+  });
+
+  const options = { shouldValidate: true, shouldDirty: true };
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="bankCode"
+        render={({ field }) => (
+          <FormItem className="flex flex-col">
+            <FormLabel>金融機関 <span className="text-destructive">*</span></FormLabel>
+            <MasterCombobox
+              value={field.value}
+              options={institutions.map((candidate) => ({ code: candidate.bankCode, name: candidate.bankName }))}
+              placeholder="金融機関を選択"
+              searchPlaceholder="コードまたは名称で検索"
+              onSelect={(code) => {
+                if (code !== field.value) {
+                  form.setValue("bankCode", code, options);
+                  form.setValue("branchCode", "", options);
+                }
+              }}
+              testId="select-bank-code"
+            />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="branchCode"
+        render={({ field }) => (
+          <FormItem className="flex flex-col">
+            <FormLabel>支店 <span className="text-destructive">*</span></FormLabel>
+            <MasterCombobox
+              value={field.value}
+              options={branches.map((branch) => ({ code: branch.branchCode, name: branch.branchName }))}
+              placeholder={institution ? "支店を選択" : "先に金融機関を選択"}
+              searchPlaceholder="コードまたは名称で検索"
+              disabled={!institution}
+              onSelect={(code) => form.setValue("branchCode", code, options)}
+              testId="select-branch-code"
+            />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
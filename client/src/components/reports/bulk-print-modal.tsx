@@ -6,6 +6,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCodeWithName } from "@/lib/bankMasters";
 import { apiRequest } from "@/lib/queryClient";
 import { X, Calendar, FileText, Printer, Download, Building, Clock } from "lucide-react";
 import jsPDF from 'jspdf';
@@ -23,6 +24,7 @@ interface TodayReportsResponse {
 
 interface BulkPrintFile {
   bankCode: string;
+  bankName: string | null;
   reportCount: number;
   filename: string;
   htmlContent: string;
@@ -141,7 +143,7 @@ export default function BulkPrintModal({ onClose }: BulkPrintModalProps) {
       console.error('PDF generation error for bank', file.bankCode, ':', error);
       toast({
         title: "PDF生成エラー",
-        description: `金融機関コード ${file.bankCode} のPDF生成に失敗しました。`,
+        description: `金融機関 ${formatCodeWithName(file.bankCode, file.bankName)} のPDF生成に失敗しました。`,
         variant: "destructive",
       });
     }
@@ -266,7 +268,7 @@ export default function BulkPrintModal({ onClose }: BulkPrintModalProps) {
                         <CardTitle className="flex items-center justify-between text-base">
                           <div className="flex items-center space-x-2">
                             <Building className="h-4 w-4" />
-                            <span>金融機関: {bankCode}</span>
+                            <span className="truncate">金融機関: {formatCodeWithName(bankCode, reports[0]?.bankName)}</span>
                           </div>
                           {isProcessing && (
                             <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
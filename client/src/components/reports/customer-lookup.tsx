@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Customer, CustomerWithContacts } from "@shared/schema";
+import { CheckCircle, History, UserPlus } from "lucide-react";
+
+// Datalist ids referenced by the user number and contact inputs of the report form
+export const CUSTOMER_SUGGESTIONS_ID = "customer-suggestions";
+export const CONTACT_SUGGESTIONS_ID = "customer-contact-suggestions";
+
+interface CustomerFields {
+  userNumber: string;
+  bankCode: string;
+  branchCode: string;
+  companyName: string;
+  contactPersonName: string;
+}
+
+/**
+ * Looks up the entered user number in the customer master, fills in the
+ * customer's details and offers to register unknown customers and contacts.
+ * Must be rendered inside the report form's <Form> provider.
+ */
+export default function CustomerLookup() {
+  const { toast } = useToast();
+  const form = useFormContext<CustomerFields>();
+  const userNumber = form.watch("userNumber")?.trim() ?? "";
+  const contactPersonName = form.watch("contactPersonName")?.trim() ?? "";
+  const [debouncedUserNumber, setDebouncedUserNumber] = useState(userNumber);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedUserNumber(userNumber);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [userNumber]);
+
+  const { data: suggestions = [] } = useQuery<Customer[]>({
+    queryKey: [`/api/customers?search=${encodeURIComponent(debouncedUserNumber)}`],
+    enabled: debouncedUserNumber.length > 0,
+    retry: false,
+  });
+
+  // Answers 404 for user numbers not in the master
+  const { data: customer, isError: isUnknown, isFetching } = useQuery<CustomerWithContacts>({
+    queryKey: ["/api/customers/by-number", debouncedUserNumber],
+    enabled: debouncedUserNumber.length > 0,
+    retry: false,
+  });
+
+  // Only fill in when the handler changed the user number, never over a loaded report
+  useEffect(() => {
+    if (!customer || customer.userNumber !== userNumber || !form.getFieldState("userNumber").isDirty) return;
+
+    const options = { shouldValidate: true, shouldDirty: true };
+    form.setValue("companyName", customer.companyName, options);
+    form.setValue("bankCode", customer.bankCode, options);
+    form.setValue("branchCode", customer.branchCode, options);
+    if (customer.contacts.length > 0 && !form.getValues("contactPersonName")) {
+      form.setValue("contactPersonName", customer.contacts[0].name, options);
+    }
+  }, [customer]);
+
+  const invalidateCustomer = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/customers/by-number", userNumber] });
+  };
+
+  const registerCustomerMutation = useMutation({
+    mutationFn: async () => {
+      const values = form.getValues();
+      const response = await apiRequest("POST", "/api/customers", {
+        userNumber: values.userNumber,
+        companyName: values.companyName,
+        bankCode: values.bankCode,
+        branchCode: values.branchCode,
+        contacts: values.contactPersonName ? [{ name: values.contactPersonName }] : [],
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "登録完了",
+        description: "利用者を登録しました",
+      });
+      invalidateCustomer();
+    },
+    onError: () => {
+      toast({
+        title: "登録エラー",
+        description: "利用者の登録に失敗しました。金融機関コードと支店コードを確認してください",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerContactMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/customers/${customer!.id}/contacts`, { name: contactPersonName });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "登録完了",
+        description: "連絡者を登録しました",
+      });
+      invalidateCustomer();
+    },
+    onError: () => {
+      toast({
+        title: "登録エラー",
+        description: "連絡者の登録に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isCurrent = debouncedUserNumber === userNumber && !isFetching;
+  const isKnown = isCurrent && !!customer && customer.userNumber === userNumber;
+  const canRegister = form.watch(["companyName", "bankCode", "branchCode"]).every((value) => !!value?.trim());
+  const isNewContact = isKnown && !!contactPersonName
+    && !customer.contacts.some((contact) => contact.name === contactPersonName);
+
+  // Opens in a new tab so the report being written is kept
+  const historyLink = (
+    <a
+      href={`/customers/${encodeURIComponent(userNumber)}`}
+      target="_blank"
+      rel="noreferrer"
+      className="flex items-center gap-1 text-primary hover:underline"
+      data-testid="link-customer-history"
+    >
+      <History className="h-4 w-4" />
+      問い合わせ履歴
+    </a>
+  );
+
+  return (
+    <>
+      <datalist id={CUSTOMER_SUGGESTIONS_ID}>
+        {suggestions.map((suggestion) => (
+          <option key={suggestion.id} value={suggestion.userNumber}>{suggestion.companyName}</option>
+        ))}
+      </datalist>
+      <datalist id={CONTACT_SUGGESTIONS_ID}>
+        {isKnown && customer.contacts.map((contact) => (
+          <option key={contact.id} value={contact.name} />
+        ))}
+      </datalist>
+
+      {isKnown && (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-sm" data-testid="customer-known">
+          <span className="flex items-center gap-2 text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-success" />
+            登録済みの利用者です（{customer.companyName}）
+            {historyLink}
+          </span>
+          {isNewContact && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => registerContactMutation.mutate()}
+              disabled={registerContactMutation.isPending}
+              data-testid="button-register-contact"
+            >
+              <UserPlus className="mr-2 h-4 w-4" />
+              「{contactPersonName}」を連絡者に登録
+            </Button>
+          )}
+        </div>
+      )}
+
+      {isCurrent && isUnknown && userNumber && (
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-2 text-sm" data-testid="customer-unknown">
+          <span className="flex items-center gap-2 text-muted-foreground">
+            未登録の利用者番号です
+            {historyLink}
+          </span>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => registerCustomerMutation.mutate()}
+            disabled={!canRegister || registerCustomerMutation.isPending}
+            data-testid="button-register-customer"
+          >
+            <UserPlus className="mr-2 h-4 w-4" />
+            利用者として登録
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { reportStatusLabels } from "@/lib/reportLabels";
+import { ReportWithDetails } from "@shared/schema";
+import { AlertTriangle, ChevronRight } from "lucide-react";
+
+interface CustomerReportsProps {
+  userNumber: string;
+  excludeReportId: string;
+  onSelect: (report: ReportWithDetails) => void;
+}
+
+// Other reports filed under the same user number
+export default function CustomerReports({ userNumber, excludeReportId, onSelect }: CustomerReportsProps) {
+  const { data: reports = [], isLoading } = useQuery<ReportWithDetails[]>({
+    queryKey: ["/api/customers/by-number", userNumber, "reports"],
+    retry: false,
+  });
+
+  const otherReports = reports.filter((report) => report.id !== excludeReportId);
+
+  if (isLoading) {
+    return <div className="animate-pulse text-sm text-muted-foreground">読み込み中...</div>;
+  }
+
+  if (otherReports.length === 0) {
+    return <p className="text-sm text-muted-foreground">この利用者の他の報告書はありません</p>;
+  }
+
+  return (
+    <ul className="space-y-1" data-testid={`customer-reports-${userNumber}`}>
+      {otherReports.map((report) => (
+        <li key={report.id}>
+          <button
+            type="button"
+            className="flex w-full items-center justify-between gap-2 rounded-md border border-border p-2 text-left text-sm hover:bg-accent/50"
+            onClick={() => onSelect(report)}
+            data-testid={`button-customer-report-${report.id}`}
+          >
+            <span className="flex min-w-0 items-center gap-2">
+              <span className="font-medium">{report.reportNumber}</span>
+              <span className="text-muted-foreground">
+                {report.createdAt ? new Date(report.createdAt * 1000).toLocaleDateString("ja-JP") : ""}
+              </span>
+              <span className="truncate">{report.categoryName || report.inquiryContent}</span>
+            </span>
+            <span className="flex shrink-0 items-center gap-2">
+              {report.escalationRequired && <AlertTriangle className="h-4 w-4 text-destructive" />}
+              <Badge variant="outline">{reportStatusLabels[report.status] || report.status}</Badge>
+              <ChevronRight className="h-4 w-4 text-muted-foreground" />
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -7,6 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCodeWithName } from "@/lib/bankMasters";
 import { apiRequest } from "@/lib/queryClient";
 import { FileDown, Printer } from "lucide-react";
 import jsPDF from 'jspdf';
@@ -140,9 +141,9 @@ export default function PrintModal({ reportId, onClose }: PrintModalProps) {
     yPos += 10;
     pdf.text(`ユーザー番号: ${reportData.userNumber}`, 20, yPos);
     yPos += 10;
-    pdf.text(`金庫コード: ${reportData.bankCode}`, 20, yPos);
+    pdf.text(`金庫: ${formatCodeWithName(reportData.bankCode, reportData.bankName)}`, 20, yPos);
     yPos += 10;
-    pdf.text(`支店コード: ${reportData.branchCode}`, 20, yPos);
+    pdf.text(`支店: ${formatCodeWithName(reportData.branchCode, reportData.branchName)}`, 20, yPos);
     yPos += 10;
     pdf.text(`企業名: ${reportData.companyName}`, 20, yPos);
     yPos += 10;
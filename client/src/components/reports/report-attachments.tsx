@@ -0,0 +1,171 @@
+import { useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ReportAttachmentWithUploader } from "@shared/schema";
+import { Download, Paperclip, Trash2, Upload } from "lucide-react";
+
+interface ReportAttachmentsProps {
+  reportId: string;
+  canEdit: boolean;
+}
+
+// Mirrors the server-side limits so obviously invalid files are rejected before upload
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+const ACCEPTED_TYPES = "image/png,image/jpeg,image/gif,application/pdf,text/plain,.eml,.msg";
+
+// Browsers often leave the type empty for saved Outlook messages
+const resolveMimeType = (file: File) =>
+  file.type || (file.name.toLowerCase().endsWith(".msg") ? "application/vnd.ms-outlook" : "application/octet-stream");
+
+const formatSize = (size: number) =>
+  size >= 1024 * 1024 ? `${(size / 1024 / 1024).toFixed(1)}MB` : `${Math.ceil(size / 1024)}KB`;
+
+export default function ReportAttachments({ reportId, canEdit }: ReportAttachmentsProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: attachments = [], isLoading } = useQuery<ReportAttachmentWithUploader[]>({
+    queryKey: ["/api/reports", reportId, "attachments"],
+    retry: false,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      // Sent as the raw body; the JSON helper does not handle binary content
+      const response = await fetch(`/api/reports/${reportId}/attachments`, {
+        method: "POST",
+        headers: {
+          "Content-Type": resolveMimeType(file),
+          "X-File-Name": encodeURIComponent(file.name),
+        },
+        body: file,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "添付ファイルのアップロードに失敗しました");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "アップロード完了",
+        description: "ファイルを添付しました",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "attachments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "アップロードエラー",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/reports/${reportId}/attachments/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "attachments"] });
+    },
+    onError: () => {
+      toast({
+        title: "削除エラー",
+        description: "添付ファイルの削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      toast({
+        title: "アップロードエラー",
+        description: "ファイルサイズは10MB以下にしてください",
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  return (
+    <div className="space-y-3" data-testid={`report-attachments-${reportId}`}>
+      {isLoading ? (
+        <div className="animate-pulse text-sm text-muted-foreground">読み込み中...</div>
+      ) : attachments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">添付ファイルはありません</p>
+      ) : (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li
+              key={attachment.id}
+              className="flex items-center justify-between gap-2 rounded-md border border-border p-2 text-sm"
+              data-testid={`attachment-${attachment.id}`}
+            >
+              <div className="flex items-center gap-2 min-w-0">
+                <Paperclip className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="truncate font-medium">{attachment.fileName}</span>
+                <span className="shrink-0 text-muted-foreground">{formatSize(attachment.size)}</span>
+                <span className="shrink-0 text-muted-foreground">
+                  {attachment.uploader ? `${attachment.uploader.lastName} ${attachment.uploader.firstName}` : ""}
+                </span>
+              </div>
+              <div className="flex shrink-0 items-center gap-1">
+                <Button variant="ghost" size="sm" asChild>
+                  <a href={`/api/reports/${reportId}/attachments/${attachment.id}`} data-testid={`link-download-attachment-${attachment.id}`}>
+                    <Download className="h-4 w-4" />
+                  </a>
+                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(attachment.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-attachment-${attachment.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-attachment-file"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            data-testid="button-upload-attachment"
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {uploadMutation.isPending ? "アップロード中..." : "ファイルを添付"}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
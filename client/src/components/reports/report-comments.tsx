@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { reportFieldLabels } from "@/lib/reportLabels";
+import { ReportCommentWithAuthor, reportRevisionFields } from "@shared/schema";
+import { CheckCircle, CornerDownRight, RotateCcw, Send } from "lucide-react";
+
+interface ReportCommentsProps {
+  reportId: string;
+  canComment: boolean;
+}
+
+// Select value standing for "no field anchor"
+const NO_FIELD = "none";
+
+export default function ReportComments({ reportId, canComment }: ReportCommentsProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const [fieldName, setFieldName] = useState<string>(NO_FIELD);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState("");
+
+  const { data: comments = [], isLoading } = useQuery<ReportCommentWithAuthor[]>({
+    queryKey: ["/api/reports", reportId, "comments"],
+    retry: false,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: { body: string; fieldName?: string | null; parentId?: string | null }) => {
+      const response = await apiRequest("POST", `/api/reports/${reportId}/comments`, data);
+      return response.json();
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "comments"] });
+      if (variables.parentId) {
+        setReplyTo(null);
+        setReplyBody("");
+      } else {
+        setBody("");
+        setFieldName(NO_FIELD);
+      }
+    },
+    onError: () => {
+      toast({
+        title: "投稿エラー",
+        description: "コメントの投稿に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolved }: { id: string; resolved: boolean }) => {
+      const response = await apiRequest("PATCH", `/api/reports/${reportId}/comments/${id}/resolve`, { resolved });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reports", reportId, "comments"] });
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "コメントの状態の更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const threads = comments.filter((comment) => !comment.parentId);
+  const repliesOf = (id: string) => comments.filter((comment) => comment.parentId === id);
+
+  const formatAuthor = (comment: ReportCommentWithAuthor) =>
+    comment.author ? `${comment.author.lastName} ${comment.author.firstName}` : "不明なユーザー";
+
+  const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleString("ja-JP");
+
+  return (
+    <div className="space-y-4" data-testid={`report-comments-${reportId}`}>
+      {isLoading ? (
+        <div className="animate-pulse text-sm text-muted-foreground">読み込み中...</div>
+      ) : threads.length === 0 ? (
+        <p className="text-sm text-muted-foreground">コメントはありません</p>
+      ) : (
+        <ul className="space-y-3">
+          {threads.map((thread) => (
+            <li
+              key={thread.id}
+              className={`rounded-md border border-border p-3 space-y-2 ${thread.resolvedAt ? "opacity-60" : ""}`}
+              data-testid={`comment-thread-${thread.id}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="font-medium">{formatAuthor(thread)}</span>
+                <span className="text-muted-foreground">{formatDate(thread.createdAt)}</span>
+                {thread.fieldName && (
+                  <Badge variant="outline">{reportFieldLabels[thread.fieldName] || thread.fieldName}</Badge>
+                )}
+                {thread.resolvedAt && (
+                  <Badge className="bg-success/10 text-success">
+                    解決済み{thread.resolver && `（${thread.resolver.lastName} ${thread.resolver.firstName}）`}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm whitespace-pre-wrap">{thread.body}</p>
+
+              {repliesOf(thread.id).map((reply) => (
+                <div key={reply.id} className="ml-4 flex gap-2" data-testid={`comment-reply-${reply.id}`}>
+                  <CornerDownRight className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">{formatAuthor(reply)}</span>
+                      <span className="text-muted-foreground">{formatDate(reply.createdAt)}</span>
+                    </div>
+                    <p className="text-sm whitespace-pre-wrap">{reply.body}</p>
+                  </div>
+                </div>
+              ))}
+
+              {canComment && (
+                replyTo === thread.id ? (
+                  <div className="ml-4 space-y-2">
+                    <Textarea
+                      rows={2}
+                      placeholder="返信を入力"
+                      value={replyBody}
+                      onChange={(e) => setReplyBody(e.target.value)}
+                      data-testid={`input-comment-reply-${thread.id}`}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button type="button" variant="ghost" size="sm" onClick={() => setReplyTo(null)}>
+                        キャンセル
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => createMutation.mutate({ body: replyBody, parentId: thread.id })}
+                        disabled={!replyBody.trim() || createMutation.isPending}
+                        data-testid={`button-send-reply-${thread.id}`}
+                      >
+                        <Send className="mr-2 h-4 w-4" />
+                        返信
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setReplyTo(thread.id);
+                        setReplyBody("");
+                      }}
+                      data-testid={`button-reply-comment-${thread.id}`}
+                    >
+                      <CornerDownRight className="mr-2 h-4 w-4" />
+                      返信
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => resolveMutation.mutate({ id: thread.id, resolved: !thread.resolvedAt })}
+                      disabled={resolveMutation.isPending}
+                      data-testid={`button-resolve-comment-${thread.id}`}
+                    >
+                      {thread.resolvedAt ? (
+                        <>
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                          未解決に戻す
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle className="mr-2 h-4 w-4" />
+                          解決
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                )
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canComment && (
+        <div className="space-y-2">
+          <Textarea
+            rows={3}
+            placeholder="コメントを入力"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            data-testid="input-comment-body"
+          />
+          <div className="flex items-center justify-end gap-2">
+            <Select value={fieldName} onValueChange={setFieldName}>
+              <SelectTrigger className="w-48" data-testid="select-comment-field">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_FIELD}>報告書全体</SelectItem>
+                {reportRevisionFields.map((field) => (
+                  <SelectItem key={field} value={field}>{reportFieldLabels[field] || field}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              onClick={() => createMutation.mutate({ body, fieldName: fieldName === NO_FIELD ? null : fieldName })}
+              disabled={!body.trim() || createMutation.isPending}
+              data-testid="button-send-comment"
+            >
+              <Send className="mr-2 h-4 w-4" />
+              {createMutation.isPending ? "投稿中..." : "コメント"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
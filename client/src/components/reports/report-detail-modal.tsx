@@ -1,15 +1,29 @@
 import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCodeWithName } from "@/lib/bankMasters";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { ReportWithDetails } from "@shared/schema";
+import {
+  approvalLevelLabels,
+  approvalStepStatusLabels,
+  reportEventLabels,
+  reportFieldLabels,
+  reportStatusLabels,
+} from "@/lib/reportLabels";
+import { ReportWithDetails, ReportEventWithActor } from "@shared/schema";
 import PrintModal from "./print-modal";
 import PrintOptionsModal from "./print-options-modal";
-import { X, FileText, CheckCircle, XCircle, Printer, FileDown } from "lucide-react";
+import RevisionDiff from "./revision-diff";
+import ReportComments from "./report-comments";
+import ReportAttachments from "./report-attachments";
+import CustomerReports from "./customer-reports";
+import { X, FileText, CheckCircle, XCircle, Printer, FileDown, History, GitCompare, Undo2, Archive, MessageSquare, Paperclip, Building2 } from "lucide-react";
 import jsPDF from 'jspdf';
 
 interface ReportDetailModalProps {
@@ -28,8 +42,15 @@ export default function ReportDetailModal({
   onReject 
 }: ReportDetailModalProps) {
   const { toast } = useToast();
+  const { user } = useAuth();
   const [showPrintModal, setShowPrintModal] = useState(false);
   const [showPrintOptionsModal, setShowPrintOptionsModal] = useState(false);
+  const [relatedReport, setRelatedReport] = useState<ReportWithDetails | null>(null);
+
+  const { data: history = [], isLoading: historyLoading } = useQuery<ReportEventWithActor[]>({
+    queryKey: ["/api/reports", report.id, "history"],
+    retry: false,
+  });
 
   // PDF generation mutation
   const generatePdfMutation = useMutation({
@@ -69,12 +90,93 @@ export default function ReportDetailModal({
     },
   });
 
+  // Withdraw mutation (handler pulls a pending report back to draft)
+  const withdrawMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/reports/${report.id}/withdraw`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "取り下げ完了",
+        description: "報告書を取り下げました。修正後に再申請できます。",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      onClose();
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "取り下げエラー",
+        description: error.message.startsWith("409")
+          ? "承認者が処理を開始したため取り下げできません。"
+          : "報告書の取り下げに失敗しました。",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Archive mutation (admin closes a finished report)
+  const archiveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PATCH", `/api/reports/${report.id}/archive`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "アーカイブ完了",
+        description: "報告書をアーカイブしました。",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      onClose();
+    },
+    onError: () => {
+      toast({
+        title: "アーカイブエラー",
+        description: "報告書のアーカイブに失敗しました。",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const roles: string[] = (() => {
+    try {
+      return JSON.parse((user as any)?.roles || '[]');
+    } catch {
+      return [];
+    }
+  })();
+  const isAdmin = roles.includes('admin');
+  const canEditAttachments = (user as any)?.id === report.handlerId &&
+    ['draft', 'rejected', 'withdrawn'].includes(report.status);
+  const canComment = (user as any)?.id === report.handlerId || roles.includes('approver');
+  const canArchive = isAdmin && ['approved', 'rejected', 'withdrawn'].includes(report.status);
+
+  const canWithdraw = report.status === 'pending_approval' &&
+    (user as any)?.id === report.handlerId &&
+    (report.approvalSteps ?? []).every(step => step.status === 'pending');
+
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       draft: { label: "下書き", variant: "secondary" as const },
       pending_approval: { label: "承認待ち", variant: "default" as const },
       approved: { label: "承認済み", variant: "default" as const },
       rejected: { label: "差し戻し", variant: "destructive" as const },
+      withdrawn: { label: "取り下げ", variant: "secondary" as const },
+      archived: { label: "アーカイブ", variant: "outline" as const },
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.draft;
@@ -99,6 +201,17 @@ export default function ReportDetailModal({
     });
   };
 
+  const formatChangedFields = (changedFields: string | null) => {
+    if (!changedFields) return "";
+    try {
+      return (JSON.parse(changedFields) as string[])
+        .map(field => reportFieldLabels[field] || field)
+        .join("、");
+    } catch {
+      return "";
+    }
+  };
+
   const handlePrintClick = () => {
     if (report.status !== 'approved') {
       toast({
@@ -131,9 +244,9 @@ export default function ReportDetailModal({
     yPos += 10;
     pdf.text(`ユーザー番号: ${reportData.userNumber}`, 20, yPos);
     yPos += 10;
-    pdf.text(`金庫コード: ${reportData.bankCode}`, 20, yPos);
+    pdf.text(`金庫: ${formatCodeWithName(reportData.bankCode, reportData.bankName)}`, 20, yPos);
     yPos += 10;
-    pdf.text(`支店コード: ${reportData.branchCode}`, 20, yPos);
+    pdf.text(`支店: ${formatCodeWithName(reportData.branchCode, reportData.branchName)}`, 20, yPos);
     yPos += 10;
     pdf.text(`企業名: ${reportData.companyName}`, 20, yPos);
     yPos += 10;
@@ -240,12 +353,18 @@ export default function ReportDetailModal({
                   <p className="text-foreground" data-testid="text-user-number">{report.userNumber}</p>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-muted-foreground">金融機関コード</label>
-                  <p className="text-foreground" data-testid="text-bank-code">{report.bankCode}</p>
+                  <label className="block text-sm font-medium text-muted-foreground">金融機関</label>
+                  <p className="text-foreground" data-testid="text-bank-code">
+                    {formatCodeWithName(report.bankCode, report.bankName)}
+                    {!report.bankName && <span className="ml-2 text-xs text-muted-foreground">（マスタ未登録）</span>}
+                  </p>
                 </div>
                 <div>
-                  <label className="block text-sm font-medium text-muted-foreground">支店コード</label>
-                  <p className="text-foreground" data-testid="text-branch-code">{report.branchCode}</p>
+                  <label className="block text-sm font-medium text-muted-foreground">支店</label>
+                  <p className="text-foreground" data-testid="text-branch-code">
+                    {formatCodeWithName(report.branchCode, report.branchName)}
+                    {!report.branchName && <span className="ml-2 text-xs text-muted-foreground">（マスタ未登録）</span>}
+                  </p>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-muted-foreground">企業名</label>
@@ -281,6 +400,20 @@ export default function ReportDetailModal({
                     {report.escalationRequired ? "必要" : "不要"}
                   </p>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-muted-foreground">問い合わせ分類</label>
+                  <p className="text-foreground" data-testid="text-category">
+                    {report.categoryName || "未分類"}
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-muted-foreground">タグ</label>
+                  <div className="flex flex-wrap gap-1 pt-1" data-testid="text-tags">
+                    {report.tags && report.tags.length > 0
+                      ? report.tags.map((tag) => <Badge key={tag} variant="outline">{tag}</Badge>)
+                      : <span className="text-muted-foreground">-</span>}
+                  </div>
+                </div>
               </div>
             </div>
             
@@ -326,6 +459,115 @@ export default function ReportDetailModal({
                 </div>
               )}
             </div>
+
+            {/* Approval chain progress */}
+            {(report.approvalSteps?.length ?? 0) > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-muted-foreground mb-2">承認ステップ</label>
+                <div className="flex flex-wrap items-center gap-2" data-testid="list-approval-steps">
+                  {report.approvalSteps!.map((step) => (
+                    <Badge
+                      key={step.id}
+                      variant={step.status === 'rejected' ? 'destructive' : 'outline'}
+                      className={step.status === 'approved' ? 'bg-success/10 text-success' : ''}
+                      data-testid={`badge-approval-step-${step.stepOrder}`}
+                    >
+                      {step.stepOrder}. {approvalLevelLabels[step.requiredLevel] || `レベル${step.requiredLevel}`}
+                      ：{approvalStepStatusLabels[step.status] || step.status}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Other reports of the same customer */}
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="flex items-center text-sm font-medium text-muted-foreground">
+                  <Building2 className="mr-2 h-4 w-4" />
+                  この利用者の他の報告書
+                </label>
+                <Link
+                  href={`/customers/${encodeURIComponent(report.userNumber)}`}
+                  className="text-sm text-primary hover:underline"
+                  data-testid="link-customer-history"
+                >
+                  問い合わせ履歴を表示
+                </Link>
+              </div>
+              <CustomerReports userNumber={report.userNumber} excludeReportId={report.id} onSelect={setRelatedReport} />
+            </div>
+
+            {/* Attachments */}
+            <div>
+              <label className="flex items-center text-sm font-medium text-muted-foreground mb-2">
+                <Paperclip className="mr-2 h-4 w-4" />
+                添付ファイル
+              </label>
+              <ReportAttachments reportId={report.id} canEdit={canEditAttachments} />
+            </div>
+
+            {/* Comment thread */}
+            <div>
+              <label className="flex items-center text-sm font-medium text-muted-foreground mb-2">
+                <MessageSquare className="mr-2 h-4 w-4" />
+                コメント
+              </label>
+              <ReportComments reportId={report.id} canComment={canComment} />
+            </div>
+
+            {/* Revision diff */}
+            <div>
+              <label className="flex items-center text-sm font-medium text-muted-foreground mb-2">
+                <GitCompare className="mr-2 h-4 w-4" />
+                改訂差分
+              </label>
+              <RevisionDiff reportId={report.id} />
+            </div>
+
+            {/* History timeline */}
+            <div>
+              <label className="flex items-center text-sm font-medium text-muted-foreground mb-2">
+                <History className="mr-2 h-4 w-4" />
+                変更履歴
+              </label>
+              {historyLoading ? (
+                <div className="animate-pulse text-sm text-muted-foreground">読み込み中...</div>
+              ) : history.length === 0 ? (
+                <p className="text-sm text-muted-foreground">履歴はありません</p>
+              ) : (
+                <ol className="relative border-l border-border ml-2 space-y-4" data-testid="list-report-history">
+                  {history.map((event) => (
+                    <li key={event.id} className="ml-4" data-testid={`history-event-${event.id}`}>
+                      <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                      <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="font-medium">{reportEventLabels[event.eventType] || event.eventType}</span>
+                        {event.fromStatus && event.toStatus && event.fromStatus !== event.toStatus && (
+                          <span className="text-muted-foreground">
+                            {reportStatusLabels[event.fromStatus] || event.fromStatus} → {reportStatusLabels[event.toStatus] || event.toStatus}
+                          </span>
+                        )}
+                        <span className="text-muted-foreground">
+                          {event.actor ? `${event.actor.firstName} ${event.actor.lastName}` : "不明なユーザー"}
+                          {event.onBehalfOf && `（${event.onBehalfOf.firstName} ${event.onBehalfOf.lastName}の代理）`}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {new Date(event.createdAt * 1000).toLocaleString('ja-JP')}
+                        </span>
+                      </div>
+                      {event.changedFields && (
+                        <p className="text-xs text-muted-foreground">
+                          変更項目: {formatChangedFields(event.changedFields)}
+                        </p>
+                      )}
+                      {event.comment && (
+                        <p className="mt-1 text-sm whitespace-pre-wrap">{event.comment}</p>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
           </div>
           
           {/* Footer Actions */}
@@ -355,6 +597,28 @@ export default function ReportDetailModal({
             </div>
             
             <div className="flex items-center space-x-2">
+              {canArchive && (
+                <Button
+                  variant="outline"
+                  onClick={() => archiveMutation.mutate()}
+                  disabled={archiveMutation.isPending}
+                  data-testid="button-archive"
+                >
+                  <Archive className="mr-2 h-4 w-4" />
+                  {archiveMutation.isPending ? "処理中..." : "アーカイブ"}
+                </Button>
+              )}
+              {canWithdraw && (
+                <Button
+                  variant="outline"
+                  onClick={() => withdrawMutation.mutate()}
+                  disabled={withdrawMutation.isPending}
+                  data-testid="button-withdraw"
+                >
+                  <Undo2 className="mr-2 h-4 w-4" />
+                  {withdrawMutation.isPending ? "取り下げ中..." : "取り下げ"}
+                </Button>
+              )}
               {showApprovalActions && report.status === 'pending_approval' && (
                 <>
                   <Button
@@ -399,6 +663,14 @@ export default function ReportDetailModal({
           onClose={() => setShowPrintOptionsModal(false)}
         />
       )}
+
+      {/* Another report of the same customer, opened read-only on top */}
+      {relatedReport && (
+        <ReportDetailModal
+          report={relatedReport}
+          onClose={() => setRelatedReport(null)}
+        />
+      )}
     </>
   );
 }
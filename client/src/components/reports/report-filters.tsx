@@ -0,0 +1,241 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { flattenInquiryCategories } from "@/lib/inquiryCategories";
+import { reportStatusLabels } from "@/lib/reportLabels";
+import { defaultReportFilters, hasActiveFilters, reportPeriodLabels, reportSortLabels, type ReportFilterValues } from "@/lib/reportQuery";
+import { Branch, FinancialInstitution, InquiryCategory, User } from "@shared/schema";
+import { X } from "lucide-react";
+
+interface ReportFiltersProps {
+  value: ReportFilterValues;
+  onChange: (value: ReportFilterValues) => void;
+  canFilterByHandler: boolean; // handlers only ever see their own reports
+}
+
+interface FilterSelectProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  allLabel?: string;
+  options: { value: string; label: string }[];
+  disabled?: boolean;
+  testId: string;
+}
+
+function FilterSelect({ label, value, onChange, allLabel, options, disabled, testId }: FilterSelectProps) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger data-testid={testId}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {allLabel && <SelectItem value="all">{allLabel}</SelectItem>}
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+const userName = (user: User) => `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim() || user.username;
+
+/**
+ * Filter, sort and date range controls for the report history.
+ * The text search box is owned by the page so it can be debounced there.
+ */
+export default function ReportFilters({ value, onChange, canFilterByHandler }: ReportFiltersProps) {
+  const update = (changes: Partial<ReportFilterValues>) => onChange({ ...value, ...changes });
+
+  const { data: institutions = [] } = useQuery<FinancialInstitution[]>({
+    queryKey: ["/api/financial-institutions"],
+    retry: false,
+  });
+  const institution = institutions.find((candidate) => candidate.bankCode === value.bankCode);
+
+  const { data: branches = [] } = useQuery<Branch[]>({
+    queryKey: ["/api/financial-institutions", institution?.id, "branches"],
+    enabled: !!institution,
+    retry: false,
+  });
+
+  const { data: handlers = [] } = useQuery<User[]>({
+    queryKey: ["/api/users/by-role?role=handler"],
+    enabled: canFilterByHandler,
+    retry: false,
+  });
+
+  const { data: approvers = [] } = useQuery<User[]>({
+    queryKey: ["/api/users/by-role?role=approver"],
+    retry: false,
+  });
+
+  const { data: categories = [] } = useQuery<InquiryCategory[]>({
+    queryKey: ["/api/inquiry-categories"],
+    retry: false,
+  });
+
+  const { data: tags = [] } = useQuery<string[]>({
+    queryKey: ["/api/report-tags"],
+    retry: false,
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <FilterSelect
+          label="状態"
+          value={value.status}
+          onChange={(status) => update({ status })}
+          allLabel="すべての状態"
+          options={Object.entries(reportStatusLabels).map(([status, label]) => ({ value: status, label }))}
+          testId="select-status-filter"
+        />
+        <FilterSelect
+          label="分類"
+          value={value.categoryId}
+          onChange={(categoryId) => update({ categoryId })}
+          allLabel="すべての分類"
+          options={flattenInquiryCategories(categories).map(({ category, path }) => ({ value: category.id, label: path }))}
+          testId="select-category-filter"
+        />
+        <FilterSelect
+          label="タグ"
+          value={value.tag}
+          onChange={(tag) => update({ tag })}
+          allLabel="すべてのタグ"
+          options={tags.map((tag) => ({ value: tag, label: tag }))}
+          testId="select-tag-filter"
+        />
+        <FilterSelect
+          label="エスカレーション"
+          value={value.escalation}
+          onChange={(escalation) => update({ escalation: escalation as ReportFilterValues["escalation"] })}
+          allLabel="指定なし"
+          options={[{ value: "true", label: "あり" }, { value: "false", label: "なし" }]}
+          testId="select-escalation-filter"
+        />
+        <FilterSelect
+          label="金融機関"
+          value={value.bankCode}
+          onChange={(bankCode) => update({ bankCode, branchCode: "all" })}
+          allLabel="すべての金融機関"
+          options={institutions.map((candidate) => ({ value: candidate.bankCode, label: `${candidate.bankCode} ${candidate.bankName}` }))}
+          testId="select-bank-filter"
+        />
+        <FilterSelect
+          label="支店"
+          value={value.branchCode}
+          onChange={(branchCode) => update({ branchCode })}
+          allLabel={institution ? "すべての支店" : "先に金融機関を選択"}
+          options={branches.map((branch) => ({ value: branch.branchCode, label: `${branch.branchCode} ${branch.branchName}` }))}
+          disabled={!institution}
+          testId="select-branch-filter"
+        />
+        {canFilterByHandler && (
+          <FilterSelect
+            label="対応者"
+            value={value.handlerId}
+            onChange={(handlerId) => update({ handlerId })}
+            allLabel="すべての対応者"
+            options={handlers.map((handler) => ({ value: handler.id, label: userName(handler) }))}
+            testId="select-handler-filter"
+          />
+        )}
+        <FilterSelect
+          label="承認者"
+          value={value.approverId}
+          onChange={(approverId) => update({ approverId })}
+          allLabel="すべての承認者"
+          options={approvers.map((approver) => ({ value: approver.id, label: userName(approver) }))}
+          testId="select-approver-filter"
+        />
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <FilterSelect
+          label="作成期間"
+          value={value.createdPeriod}
+          onChange={(createdPeriod) => update({
+            createdPeriod: createdPeriod as ReportFilterValues["createdPeriod"],
+            createdFrom: "",
+            createdTo: "",
+          })}
+          allLabel="日付で指定"
+          options={Object.entries(reportPeriodLabels).map(([period, label]) => ({ value: period, label }))}
+          testId="select-created-period"
+        />
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">作成日</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={value.createdFrom}
+              onChange={(e) => update({ createdFrom: e.target.value })}
+              disabled={value.createdPeriod !== "all"}
+              data-testid="input-created-from"
+            />
+            <span className="text-muted-foreground">〜</span>
+            <Input
+              type="date"
+              value={value.createdTo}
+              onChange={(e) => update({ createdTo: e.target.value })}
+              disabled={value.createdPeriod !== "all"}
+              data-testid="input-created-to"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">承認日</Label>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={value.approvedFrom} onChange={(e) => update({ approvedFrom: e.target.value })} data-testid="input-approved-from" />
+            <span className="text-muted-foreground">〜</span>
+            <Input type="date" value={value.approvedTo} onChange={(e) => update({ approvedTo: e.target.value })} data-testid="input-approved-to" />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">判断日（承認・差し戻し）</Label>
+          <div className="flex items-center gap-2">
+            <Input type="date" value={value.decidedFrom} onChange={(e) => update({ decidedFrom: e.target.value })} data-testid="input-decided-from" />
+            <span className="text-muted-foreground">〜</span>
+            <Input type="date" value={value.decidedTo} onChange={(e) => update({ decidedTo: e.target.value })} data-testid="input-decided-to" />
+          </div>
+        </div>
+        <FilterSelect
+          label="並び順"
+          value={value.sort}
+          onChange={(sort) => update({ sort: sort as ReportFilterValues["sort"] })}
+          options={Object.entries(reportSortLabels).map(([sort, label]) => ({ value: sort, label }))}
+          testId="select-sort"
+        />
+        <FilterSelect
+          label="昇順・降順"
+          value={value.order}
+          onChange={(order) => update({ order: order as ReportFilterValues["order"] })}
+          options={[{ value: "desc", label: "降順（新しい順）" }, { value: "asc", label: "昇順（古い順）" }]}
+          testId="select-order"
+        />
+      </div>
+
+      {hasActiveFilters(value) && (
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ ...defaultReportFilters, sort: value.sort, order: value.order })}
+            data-testid="button-clear-filters"
+          >
+            <X className="mr-1 h-4 w-4" />
+            条件をクリア
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
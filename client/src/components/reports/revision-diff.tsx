@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { reportFieldLabels, reportStatusLabels } from "@/lib/reportLabels";
+import { ReportRevisionComparison, ReportRevisionWithAuthor } from "@shared/schema";
+import { GitCompare } from "lucide-react";
+
+interface RevisionDiffProps {
+  reportId: string;
+}
+
+export default function RevisionDiff({ reportId }: RevisionDiffProps) {
+  // undefined = let the server pick (latest vs. revision at last rejection)
+  const [fromRevision, setFromRevision] = useState<number | undefined>();
+  const [toRevision, setToRevision] = useState<number | undefined>();
+
+  const { data: revisions = [], isLoading: revisionsLoading } = useQuery<ReportRevisionWithAuthor[]>({
+    queryKey: ["/api/reports", reportId, "revisions"],
+    retry: false,
+  });
+
+  const compareParams = new URLSearchParams();
+  if (fromRevision !== undefined) compareParams.set("from", String(fromRevision));
+  if (toRevision !== undefined) compareParams.set("to", String(toRevision));
+
+  const { data: comparison, isLoading: comparisonLoading } = useQuery<ReportRevisionComparison>({
+    queryKey: ["/api/reports", reportId, "revisions", `compare?${compareParams.toString()}`],
+    enabled: revisions.length > 1,
+    retry: false,
+  });
+
+  const formatValue = (value: unknown) => {
+    if (typeof value === "boolean") return value ? "必要" : "不要";
+    if (value === null || value === undefined || value === "") return "（なし）";
+    return String(value);
+  };
+
+  const formatRevisionLabel = (revision: ReportRevisionWithAuthor) => {
+    const author = revision.author ? `${revision.author.firstName} ${revision.author.lastName}` : "不明";
+    const savedAt = new Date(revision.createdAt * 1000).toLocaleString("ja-JP");
+    return `第${revision.revisionNumber}版 (${reportStatusLabels[revision.status] || revision.status}) ${author} ${savedAt}`;
+  };
+
+  if (revisionsLoading) {
+    return <div className="animate-pulse text-sm text-muted-foreground">読み込み中...</div>;
+  }
+
+  if (revisions.length < 2) {
+    return <p className="text-sm text-muted-foreground">比較できる改訂はありません</p>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid={`revision-diff-${reportId}`}>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Select
+          value={comparison ? String(comparison.from.revisionNumber) : undefined}
+          onValueChange={(value) => setFromRevision(Number(value))}
+        >
+          <SelectTrigger data-testid="select-revision-from">
+            <SelectValue placeholder="比較元" />
+          </SelectTrigger>
+          <SelectContent>
+            {revisions.map((revision) => (
+              <SelectItem key={revision.id} value={String(revision.revisionNumber)}>
+                {formatRevisionLabel(revision)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={comparison ? String(comparison.to.revisionNumber) : undefined}
+          onValueChange={(value) => setToRevision(Number(value))}
+        >
+          <SelectTrigger data-testid="select-revision-to">
+            <SelectValue placeholder="比較先" />
+          </SelectTrigger>
+          <SelectContent>
+            {revisions.map((revision) => (
+              <SelectItem key={revision.id} value={String(revision.revisionNumber)}>
+                {formatRevisionLabel(revision)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {comparisonLoading || !comparison ? (
+        <div className="animate-pulse text-sm text-muted-foreground">比較中...</div>
+      ) : comparison.changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">選択した改訂間に変更はありません</p>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center text-sm text-muted-foreground">
+            <GitCompare className="mr-2 h-4 w-4" />
+            第{comparison.from.revisionNumber}版 → 第{comparison.to.revisionNumber}版
+            <Badge variant="secondary" className="ml-2">{comparison.changes.length}項目</Badge>
+          </div>
+          {comparison.changes.map((change) => (
+            <div key={change.field} data-testid={`diff-field-${change.field}`}>
+              <label className="block text-sm font-medium text-muted-foreground mb-1">
+                {reportFieldLabels[change.field] || change.field}
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <div className="p-3 rounded-md bg-destructive/10 border border-destructive/20">
+                  <p className="text-sm whitespace-pre-wrap line-through decoration-destructive/50">
+                    {formatValue(change.from)}
+                  </p>
+                </div>
+                <div className="p-3 rounded-md bg-success/10 border border-success/20">
+                  <p className="text-sm whitespace-pre-wrap">
+                    {formatValue(change.to)}
+                  </p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
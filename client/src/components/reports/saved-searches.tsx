@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toSavedSearchQuery, type ReportFilterValues } from "@/lib/reportQuery";
+import { SavedSearch, SavedSearchWithCount, User } from "@shared/schema";
+import { Bookmark, Save, Trash2 } from "lucide-react";
+
+const savedSearchFormSchema = z.object({
+  name: z.string().trim().min(1, "名前を入力してください").max(50, "名前は50文字以内で入力してください"),
+  isShared: z.boolean(),
+});
+
+type SavedSearchFormData = z.infer<typeof savedSearchFormSchema>;
+
+interface SavedSearchesProps {
+  currentUser: User;
+  filters: ReportFilterValues;
+  activeId: string | null;
+  onApply: (search: SavedSearchWithCount | null) => void;
+}
+
+/**
+ * Pick, save, overwrite and delete saved searches for the history page's filters.
+ * Own searches can be overwritten; admins may also delete searches shared by others.
+ */
+export default function SavedSearches({ currentUser, filters, activeId, onApply }: SavedSearchesProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+
+  const { data: searches = [] } = useQuery<SavedSearchWithCount[]>({
+    queryKey: ["/api/saved-searches"],
+    retry: false,
+  });
+  const active = searches.find((search) => search.id === activeId) ?? null;
+  const ownsActive = active?.userId === currentUser.id;
+  const isAdmin = (() => {
+    try {
+      return JSON.parse(currentUser.roles || '[]').includes('admin');
+    } catch {
+      return false;
+    }
+  })();
+
+  const mySearches = searches.filter((search) => search.userId === currentUser.id);
+  const sharedSearches = searches.filter((search) => search.userId !== currentUser.id);
+
+  const form = useForm<SavedSearchFormData>({
+    resolver: zodResolver(savedSearchFormSchema),
+    defaultValues: { name: "", isShared: false },
+  });
+
+  useEffect(() => {
+    if (dialogOpen) {
+      form.reset(ownsActive && active ? { name: active.name, isShared: active.isShared } : { name: "", isShared: false });
+    }
+  }, [dialogOpen]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ data, overwrite }: { data: SavedSearchFormData; overwrite: boolean }) => {
+      const body = { ...data, query: toSavedSearchQuery(filters) };
+      const response = overwrite && active
+        ? await apiRequest("PUT", `/api/saved-searches/${active.id}`, body)
+        : await apiRequest("POST", "/api/saved-searches", body);
+      return response.json() as Promise<SavedSearch>;
+    },
+    onSuccess: async (saved) => {
+      toast({
+        title: "保存完了",
+        description: `「${saved.name}」を保存しました`,
+      });
+      setDialogOpen(false);
+      await queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      const refreshed = queryClient.getQueryData<SavedSearchWithCount[]>(["/api/saved-searches"]);
+      onApply(refreshed?.find((search) => search.id === saved.id) ?? null);
+    },
+    onError: () => {
+      toast({
+        title: "保存エラー",
+        description: "検索条件の保存に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/saved-searches/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      onApply(null);
+    },
+    onError: () => {
+      toast({
+        title: "削除エラー",
+        description: "保存した検索の削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const ownerName = (search: SavedSearchWithCount) =>
+    search.owner ? `${search.owner.firstName ?? ""} ${search.owner.lastName ?? ""}`.trim() : "不明なユーザー";
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <div className="flex items-center gap-2 flex-1">
+        <Bookmark className="h-4 w-4 text-muted-foreground shrink-0" />
+        <Select
+          value={activeId ?? ""}
+          onValueChange={(id) => onApply(searches.find((search) => search.id === id) ?? null)}
+        >
+          <SelectTrigger className="sm:max-w-xs" data-testid="select-saved-search">
+            <SelectValue placeholder={searches.length > 0 ? "保存した検索を呼び出す" : "保存した検索はありません"} />
+          </SelectTrigger>
+          <SelectContent>
+            {mySearches.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>自分の検索</SelectLabel>
+                {mySearches.map((search) => (
+                  <SelectItem key={search.id} value={search.id}>
+                    {search.name}（{search.count}件）{search.isShared ? " ・共有中" : ""}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+            {sharedSearches.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>チームの検索</SelectLabel>
+                {sharedSearches.map((search) => (
+                  <SelectItem key={search.id} value={search.id}>
+                    {search.name}（{search.count}件）・{ownerName(search)}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        {active && (ownsActive || (isAdmin && active.isShared)) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => deleteMutation.mutate(active.id)}
+            disabled={deleteMutation.isPending}
+            data-testid="button-delete-saved-search"
+          >
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        )}
+      </div>
+
+      <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)} data-testid="button-save-search">
+        <Save className="mr-2 h-4 w-4" />
+        検索条件を保存
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>検索条件を保存</DialogTitle>
+            <DialogDescription>現在の絞り込み・並び順に名前を付けて保存し、サイドバーから呼び出せるようにします</DialogDescription>
+          </DialogHeader>
+          <Form {...form}>
+            <form className="space-y-4" onSubmit={form.handleSubmit((data) => saveMutation.mutate({ data, overwrite: false }))}>
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>名前</FormLabel>
+                    <FormControl>
+                      <Input placeholder="例: 今月の0005エスカレーション" data-testid="input-saved-search-name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="isShared"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(checked === true)} data-testid="checkbox-saved-search-shared" />
+                    </FormControl>
+                    <FormLabel className="font-normal">チームに共有する</FormLabel>
+                  </FormItem>
+                )}
+              />
+              <DialogFooter className="gap-2">
+                {ownsActive && (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={saveMutation.isPending}
+                    onClick={form.handleSubmit((data) => saveMutation.mutate({ data, overwrite: true }))}
+                    data-testid="button-overwrite-saved-search"
+                  >
+                    「{active?.name}」を上書き
+                  </Button>
+                )}
+                <Button type="submit" disabled={saveMutation.isPending} data-testid="button-create-saved-search">
+                  新規保存
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
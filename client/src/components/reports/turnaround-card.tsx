@@ -0,0 +1,109 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ApprovalTurnaround, TurnaroundGroup } from "@shared/schema";
+import { Timer } from "lucide-react";
+
+const formatHours = (hours: number | null) => (hours === null ? "-" : `${hours}時間`);
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${Math.round(rate * 100)}%`);
+
+interface TurnaroundTableProps {
+  title: string;
+  columnLabel: string;
+  groups: TurnaroundGroup[];
+  testId: string;
+}
+
+function TurnaroundTable({ title, columnLabel, groups, testId }: TurnaroundTableProps) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      <Table data-testid={testId}>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{columnLabel}</TableHead>
+            <TableHead className="text-right">件数</TableHead>
+            <TableHead className="text-right">中央値</TableHead>
+            <TableHead className="text-right">90%</TableHead>
+            <TableHead className="text-right">期限内</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {groups.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-muted-foreground">
+                対象の報告書がありません
+              </TableCell>
+            </TableRow>
+          ) : (
+            groups.map((group) => (
+              <TableRow key={group.key}>
+                <TableCell>{group.label}</TableCell>
+                <TableCell className="text-right">{group.count}</TableCell>
+                <TableCell className="text-right">{formatHours(group.medianHours)}</TableCell>
+                <TableCell className="text-right">{formatHours(group.p90Hours)}</TableCell>
+                <TableCell className="text-right">{formatRate(group.withinSlaRate)}</TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * Time from submission to final decision over the last 30 days (JST), overall and per approver and bank.
+ */
+export default function TurnaroundCard() {
+  const { data: turnaround, isLoading } = useQuery<ApprovalTurnaround>({
+    queryKey: ["/api/statistics/turnaround"],
+    retry: false,
+  });
+
+  return (
+    <Card data-testid="card-approval-turnaround">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          承認所要時間
+        </CardTitle>
+        <CardDescription>
+          {turnaround
+            ? `${turnaround.range.from} 〜 ${turnaround.range.to} に承認・差し戻しされた報告書（提出から判断まで、期限 ${turnaround.thresholdHours}時間）`
+            : "提出から承認・差し戻しまでの時間"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading || !turnaround ? (
+          <div className="animate-pulse text-center py-4">読み込み中...</div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-muted-foreground">件数</p>
+                <p className="text-xl font-bold" data-testid="text-turnaround-count">{turnaround.overall.count}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">中央値</p>
+                <p className="text-xl font-bold" data-testid="text-turnaround-median">{formatHours(turnaround.overall.medianHours)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">90パーセンタイル</p>
+                <p className="text-xl font-bold" data-testid="text-turnaround-p90">{formatHours(turnaround.overall.p90Hours)}</p>
+              </div>
+              <div>
+                <p className="text-muted-foreground">期限内の割合</p>
+                <p className="text-xl font-bold" data-testid="text-turnaround-within-sla">{formatRate(turnaround.overall.withinSlaRate)}</p>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <TurnaroundTable title="承認者別" columnLabel="承認者" groups={turnaround.byApprover} testId="table-turnaround-approver" />
+              <TurnaroundTable title="金融機関別" columnLabel="金融機関" groups={turnaround.byBank} testId="table-turnaround-bank" />
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,256 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ApprovalDelegationWithUsers, User } from "@shared/schema";
+import { Plus, Trash2, UserCheck } from "lucide-react";
+
+const delegationFormSchema = z.object({
+  delegateId: z.string().min(1, "代理承認者を選択してください"),
+  startDate: z.string().min(1, "開始日を入力してください"),
+  endDate: z.string().min(1, "終了日を入力してください"),
+  reason: z.string().optional(),
+}).refine((data) => data.startDate <= data.endDate, {
+  message: "終了日は開始日以降の日付を指定してください",
+  path: ["endDate"],
+});
+
+type DelegationFormData = z.infer<typeof delegationFormSchema>;
+
+interface ApprovalDelegationCardProps {
+  currentUserId: string;
+}
+
+const formatDate = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export default function ApprovalDelegationCard({ currentUserId }: ApprovalDelegationCardProps) {
+  const { toast } = useToast();
+  const today = formatDate(new Date());
+
+  const { data: delegations = [], isLoading } = useQuery<ApprovalDelegationWithUsers[]>({
+    queryKey: ["/api/approval-delegations"],
+    retry: false,
+  });
+
+  const { data: approvers = [] } = useQuery<User[]>({
+    queryKey: ["/api/users/by-role?role=approver"],
+    retry: false,
+  });
+
+  const form = useForm<DelegationFormData>({
+    resolver: zodResolver(delegationFormSchema),
+    defaultValues: {
+      delegateId: "",
+      startDate: today,
+      endDate: today,
+      reason: "",
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: DelegationFormData) => {
+      const response = await apiRequest("POST", "/api/approval-delegations", {
+        ...data,
+        reason: data.reason?.trim() || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "登録完了",
+        description: "代理承認者を登録しました",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-delegations"] });
+      form.reset();
+    },
+    onError: () => {
+      toast({
+        title: "登録エラー",
+        description: "代理承認者の登録に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/approval-delegations/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-delegations"] });
+    },
+    onError: () => {
+      toast({
+        title: "削除エラー",
+        description: "代理承認設定の削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatName = (user: ApprovalDelegationWithUsers["delegate"]) =>
+    user ? `${user.lastName} ${user.firstName}` : "不明なユーザー";
+
+  const getPeriodBadge = (delegation: ApprovalDelegationWithUsers) => {
+    if (delegation.endDate < today) {
+      return <Badge variant="outline">終了</Badge>;
+    }
+    if (delegation.startDate > today) {
+      return <Badge variant="secondary">予定</Badge>;
+    }
+    return <Badge className="bg-success/10 text-success">有効</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserCheck className="h-5 w-5" />
+          代理承認設定
+        </CardTitle>
+        <CardDescription>
+          不在期間中に承認を代行する承認者を登録します
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>承認者</TableHead>
+              <TableHead>代理承認者</TableHead>
+              <TableHead>期間</TableHead>
+              <TableHead>理由</TableHead>
+              <TableHead>状態</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">読み込み中...</TableCell>
+              </TableRow>
+            ) : delegations.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">代理承認設定はありません</TableCell>
+              </TableRow>
+            ) : (
+              delegations.map((delegation) => (
+                <TableRow key={delegation.id} data-testid={`row-delegation-${delegation.id}`}>
+                  <TableCell>{formatName(delegation.delegator)}</TableCell>
+                  <TableCell>{formatName(delegation.delegate)}</TableCell>
+                  <TableCell>{delegation.startDate} 〜 {delegation.endDate}</TableCell>
+                  <TableCell>{delegation.reason || "-"}</TableCell>
+                  <TableCell>{getPeriodBadge(delegation)}</TableCell>
+                  <TableCell>
+                    {delegation.delegatorId === currentUserId && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(delegation.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-delegation-${delegation.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="delegateId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>代理承認者</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-delegate">
+                          <SelectValue placeholder="承認者を選択" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {approvers
+                          .filter((approver) => approver.id !== currentUserId)
+                          .map((approver) => (
+                            <SelectItem key={approver.id} value={approver.id}>
+                              {approver.lastName} {approver.firstName}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>開始日</FormLabel>
+                    <FormControl>
+                      <Input type="date" data-testid="input-delegation-start" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>終了日</FormLabel>
+                    <FormControl>
+                      <Input type="date" data-testid="input-delegation-end" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex items-end gap-4">
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormLabel>理由</FormLabel>
+                    <FormControl>
+                      <Input placeholder="休暇、出張など" data-testid="input-delegation-reason" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-add-delegation">
+                <Plus className="mr-2 h-4 w-4" />
+                {createMutation.isPending ? "登録中..." : "代理承認者を登録"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
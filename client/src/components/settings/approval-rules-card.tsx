@@ -0,0 +1,248 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { approvalLevelLabels } from "@/lib/reportLabels";
+import { ApprovalRule } from "@shared/schema";
+import { GitBranch, Plus, Trash2 } from "lucide-react";
+
+const ruleFormSchema = z.object({
+  name: z.string().min(1, "ルール名を入力してください"),
+  escalation: z.enum(["any", "true", "false"]),
+  bankCode: z.string().optional(),
+  levels: z.string().regex(/^\d+(\s*,\s*\d+)*$/, "承認レベルをカンマ区切りで入力してください（例: 1,2）"),
+  priority: z.coerce.number().int(),
+});
+
+type RuleFormData = z.infer<typeof ruleFormSchema>;
+
+export default function ApprovalRulesCard() {
+  const { toast } = useToast();
+
+  const { data: rules = [], isLoading } = useQuery<ApprovalRule[]>({
+    queryKey: ["/api/approval-rules"],
+    retry: false,
+  });
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: {
+      name: "",
+      escalation: "any",
+      bankCode: "",
+      levels: "1,2",
+      priority: 0,
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      const response = await apiRequest("POST", "/api/approval-rules", {
+        name: data.name,
+        escalationRequired: data.escalation === "any" ? null : data.escalation === "true",
+        bankCode: data.bankCode?.trim() || null,
+        levels: data.levels.split(",").map(level => parseInt(level.trim(), 10)),
+        priority: data.priority,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "登録完了",
+        description: "承認ルートを登録しました",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-rules"] });
+      form.reset();
+    },
+    onError: () => {
+      toast({
+        title: "登録エラー",
+        description: "承認ルートの登録に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/approval-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approval-rules"] });
+    },
+    onError: () => {
+      toast({
+        title: "削除エラー",
+        description: "承認ルートの削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatCondition = (rule: ApprovalRule) => {
+    const conditions = [];
+    if (rule.escalationRequired != null) {
+      conditions.push(rule.escalationRequired ? "エスカレーションあり" : "エスカレーションなし");
+    }
+    if (rule.bankCode) {
+      conditions.push(`金融機関コード ${rule.bankCode}`);
+    }
+    return conditions.length > 0 ? conditions.join(" かつ ") : "すべての報告書";
+  };
+
+  const formatLevels = (levels: number[]) =>
+    levels.map(level => approvalLevelLabels[level] || `レベル${level}`).join(" → ");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitBranch className="h-5 w-5" />
+          承認ルート
+        </CardTitle>
+        <CardDescription>
+          条件に一致する報告書に適用する承認段階（優先度の高いルールが優先されます。該当なしの場合はチームリーダー1段階）
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>ルール名</TableHead>
+              <TableHead>条件</TableHead>
+              <TableHead>承認段階</TableHead>
+              <TableHead>優先度</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">読み込み中...</TableCell>
+              </TableRow>
+            ) : rules.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">承認ルートはありません</TableCell>
+              </TableRow>
+            ) : (
+              rules.map((rule) => (
+                <TableRow key={rule.id} data-testid={`row-approval-rule-${rule.id}`}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{formatCondition(rule)}</TableCell>
+                  <TableCell>{formatLevels(rule.levels)}</TableCell>
+                  <TableCell>{rule.priority}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(rule.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-approval-rule-${rule.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>ルール名</FormLabel>
+                    <FormControl>
+                      <Input placeholder="高額案件" data-testid="input-approval-rule-name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="escalation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>エスカレーション</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-approval-rule-escalation">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="any">条件なし</SelectItem>
+                        <SelectItem value="true">あり</SelectItem>
+                        <SelectItem value="false">なし</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="bankCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>金融機関コード</FormLabel>
+                    <FormControl>
+                      <Input placeholder="指定なし" data-testid="input-approval-rule-bank-code" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="levels"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>承認レベル順</FormLabel>
+                    <FormControl>
+                      <Input placeholder="1,2" data-testid="input-approval-rule-levels" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex items-end justify-between gap-4">
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem className="w-32">
+                    <FormLabel>優先度</FormLabel>
+                    <FormControl>
+                      <Input type="number" data-testid="input-approval-rule-priority" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" disabled={createMutation.isPending} data-testid="button-add-approval-rule">
+                <Plus className="mr-2 h-4 w-4" />
+                {createMutation.isPending ? "登録中..." : "ルールを追加"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
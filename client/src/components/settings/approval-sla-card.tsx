@@ -0,0 +1,101 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ApprovalSla, approvalSlaSchema, defaultApprovalSla } from "@shared/schema";
+import { Save, Timer } from "lucide-react";
+
+export default function ApprovalSlaCard() {
+  const { toast } = useToast();
+
+  const { data: sla } = useQuery<ApprovalSla>({
+    queryKey: ["/api/settings/approval-sla"],
+    retry: false,
+  });
+
+  const form = useForm<ApprovalSla>({
+    resolver: zodResolver(approvalSlaSchema),
+    defaultValues: defaultApprovalSla,
+  });
+
+  useEffect(() => {
+    if (sla) {
+      form.reset(sla);
+    }
+  }, [sla]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: ApprovalSla) => {
+      const response = await apiRequest("PUT", "/api/settings/approval-sla", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "更新完了",
+        description: "承認期限を更新しました",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/approval-sla"] });
+      // Overdue flags are measured against the threshold
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/pending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "承認期限の更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="h-5 w-5" />
+          承認期限（SLA）
+        </CardTitle>
+        <CardDescription>
+          提出からこの時間を過ぎても承認・差し戻しされていない報告書を期限超過として表示します
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="flex items-end gap-4">
+            <FormField
+              control={form.control}
+              name="thresholdHours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>期限（時間）</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      min={1}
+                      max={720}
+                      className="w-32"
+                      data-testid="input-approval-sla-hours"
+                      {...field}
+                      onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-approval-sla">
+              <Save className="mr-2 h-4 w-4" />
+              {updateMutation.isPending ? "保存中..." : "期限を保存"}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { flattenInquiryCategories } from "@/lib/inquiryCategories";
+import { InquiryCategory, insertInquiryCategorySchema } from "@shared/schema";
+import { FolderTree, Pencil, Plus, Save, Trash2 } from "lucide-react";
+
+// Select value standing for "top-level category"
+const NO_PARENT = "none";
+
+const categoryFormSchema = insertInquiryCategorySchema.extend({
+  parentId: z.string(),
+  sortOrder: z.number().int(),
+});
+
+type CategoryFormData = z.infer<typeof categoryFormSchema>;
+
+const emptyCategory: CategoryFormData = {
+  name: "",
+  parentId: NO_PARENT,
+  sortOrder: 0,
+};
+
+export default function InquiryCategoriesCard() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const { data: categories = [], isLoading } = useQuery<InquiryCategory[]>({
+    queryKey: ["/api/inquiry-categories"],
+    retry: false,
+  });
+
+  const tree = flattenInquiryCategories(categories);
+
+  const form = useForm<CategoryFormData>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: emptyCategory,
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.reset(emptyCategory);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CategoryFormData) => {
+      const payload = { ...data, parentId: data.parentId === NO_PARENT ? null : data.parentId };
+      const response = editingId
+        ? await apiRequest("PUT", `/api/inquiry-categories/${editingId}`, payload)
+        : await apiRequest("POST", "/api/inquiry-categories", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "保存完了",
+        description: editingId ? "分類を更新しました" : "分類を登録しました",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/inquiry-categories"] });
+      resetForm();
+    },
+    onError: () => {
+      toast({
+        title: "保存エラー",
+        description: "分類の保存に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/inquiry-categories/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inquiry-categories"] });
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "分類の更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/inquiry-categories/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/inquiry-categories"] });
+      if (id === editingId) resetForm();
+    },
+    onError: () => {
+      toast({
+        title: "削除エラー",
+        description: "下位分類または報告書で使用されている分類は削除できません。無効にしてください",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (category: InquiryCategory) => {
+    setEditingId(category.id);
+    form.reset({
+      name: category.name,
+      parentId: category.parentId ?? NO_PARENT,
+      sortOrder: category.sortOrder,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FolderTree className="h-5 w-5" />
+          問い合わせ分類
+        </CardTitle>
+        <CardDescription>
+          報告書の申請時に選択する分類（使用中の分類は削除せず無効にしてください）
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>分類名</TableHead>
+              <TableHead>表示順</TableHead>
+              <TableHead>有効</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">読み込み中...</TableCell>
+              </TableRow>
+            ) : tree.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">分類はありません</TableCell>
+              </TableRow>
+            ) : (
+              tree.map(({ category, depth }) => (
+                <TableRow key={category.id} data-testid={`row-inquiry-category-${category.id}`}>
+                  <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                    {category.name}
+                  </TableCell>
+                  <TableCell>{category.sortOrder}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={category.isActive}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: category.id, isActive: checked })}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-inquiry-category-active-${category.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(category)}
+                      data-testid={`button-edit-inquiry-category-${category.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(category.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-inquiry-category-${category.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>分類名</FormLabel>
+                    <FormControl>
+                      <Input placeholder="記録請求エラー" data-testid="input-inquiry-category-name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="parentId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>親分類</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-inquiry-category-parent">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_PARENT}>（最上位）</SelectItem>
+                        {tree
+                          .filter(({ category }) => category.id !== editingId)
+                          .map(({ category, path }) => (
+                            <SelectItem key={category.id} value={category.id}>{path}</SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="sortOrder"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>表示順</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        data-testid="input-inquiry-category-sort-order"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-inquiry-category">
+                {editingId ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+                {saveMutation.isPending ? "保存中..." : editingId ? "分類を更新" : "分類を追加"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
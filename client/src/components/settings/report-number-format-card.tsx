@@ -0,0 +1,222 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ReportNumberFormat, defaultReportNumberFormat, reportNumberFormatSchema } from "@shared/schema";
+import { Hash, Save } from "lucide-react";
+
+const periodLabels: Record<ReportNumberFormat["period"], string> = {
+  month: "月ごと（例: 2025-10）",
+  year: "年ごと（例: 2025）",
+  fiscal_year: "年度ごと（例: FY2025）",
+  none: "通し番号",
+};
+
+export default function ReportNumberFormatCard() {
+  const { toast } = useToast();
+  const [sampleBankCode, setSampleBankCode] = useState("");
+
+  const { data: format } = useQuery<ReportNumberFormat>({
+    queryKey: ["/api/settings/report-number-format"],
+    retry: false,
+  });
+
+  const { data: preview } = useQuery<{ reportNumber: string }>({
+    queryKey: [`/api/settings/report-number-format/preview?bankCode=${encodeURIComponent(sampleBankCode)}`],
+    retry: false,
+  });
+
+  const form = useForm<ReportNumberFormat>({
+    resolver: zodResolver(reportNumberFormatSchema),
+    defaultValues: defaultReportNumberFormat,
+  });
+
+  useEffect(() => {
+    if (format) {
+      form.reset(format);
+    }
+  }, [format]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: ReportNumberFormat) => {
+      const response = await apiRequest("PUT", "/api/settings/report-number-format", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "更新完了",
+        description: "報告書番号の形式を更新しました",
+      });
+      // Also refreshes the preview, whose key carries the sample bank code
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/settings/report-number-format"),
+      });
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "報告書番号の形式の更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const period = form.watch("period");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Hash className="h-5 w-5" />
+          報告書番号
+        </CardTitle>
+        <CardDescription>
+          新しく作成する報告書に割り当てる番号の形式（既存の報告書番号は変わりません）
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <FormField
+                control={form.control}
+                name="prefix"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>接頭辞</FormLabel>
+                    <FormControl>
+                      <Input placeholder="RPT" data-testid="input-report-number-prefix" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="period"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>採番単位</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-report-number-period">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(periodLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="fiscalYearStartMonth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>年度開始月</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(parseInt(value, 10))}
+                      value={String(field.value)}
+                      disabled={period !== "fiscal_year"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-report-number-fiscal-start">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+                          <SelectItem key={month} value={String(month)}>{month}月</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="padding"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>連番の桁数</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={8}
+                        data-testid="input-report-number-padding"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value, 10) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="includeBankCode"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <FormLabel>金融機関コードを含める</FormLabel>
+                    <p className="text-sm text-muted-foreground">
+                      金融機関ごとに連番を振ります
+                    </p>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      data-testid="switch-report-number-bank-code"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <div className="flex justify-end">
+              <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-report-number-format">
+                <Save className="mr-2 h-4 w-4" />
+                {updateMutation.isPending ? "保存中..." : "形式を保存"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>プレビュー用金融機関コード</Label>
+            <Input
+              placeholder="0001"
+              value={sampleBankCode}
+              onChange={(e) => setSampleBankCode(e.target.value)}
+              data-testid="input-report-number-sample-bank-code"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>次の報告書番号（保存済みの形式）</Label>
+            <div className="p-2 bg-muted rounded-md font-mono text-sm" data-testid="text-next-report-number">
+              {preview?.reportNumber ?? "-"}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
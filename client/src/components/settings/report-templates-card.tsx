@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { reportTemplatePlaceholderHelp } from "@/lib/reportTemplates";
+import { ReportTemplate, insertReportTemplateSchema } from "@shared/schema";
+import { FileText, Pencil, Plus, Save, Trash2 } from "lucide-react";
+
+const templateFormSchema = insertReportTemplateSchema.extend({
+  description: z.string().optional(),
+});
+
+type TemplateFormData = z.infer<typeof templateFormSchema>;
+
+const emptyTemplate: TemplateFormData = {
+  name: "",
+  description: "",
+  inquiryContent: "",
+  responseContent: "",
+};
+
+export default function ReportTemplatesCard() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const { data: templates = [], isLoading } = useQuery<ReportTemplate[]>({
+    queryKey: ["/api/report-templates"],
+    retry: false,
+  });
+
+  const form = useForm<TemplateFormData>({
+    resolver: zodResolver(templateFormSchema),
+    defaultValues: emptyTemplate,
+  });
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.reset(emptyTemplate);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: TemplateFormData) => {
+      const payload = { ...data, description: data.description?.trim() || null };
+      const response = editingId
+        ? await apiRequest("PUT", `/api/report-templates/${editingId}`, payload)
+        : await apiRequest("POST", "/api/report-templates", payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "保存完了",
+        description: editingId ? "テンプレートを更新しました" : "テンプレートを登録しました",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/report-templates"] });
+      resetForm();
+    },
+    onError: () => {
+      toast({
+        title: "保存エラー",
+        description: "テンプレートの保存に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const response = await apiRequest("PUT", `/api/report-templates/${id}`, { isActive });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-templates"] });
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "テンプレートの更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/report-templates/${id}`);
+    },
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/report-templates"] });
+      if (id === editingId) resetForm();
+    },
+    onError: () => {
+      toast({
+        title: "削除エラー",
+        description: "テンプレートの削除に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (template: ReportTemplate) => {
+    setEditingId(template.id);
+    form.reset({
+      name: template.name,
+      description: template.description ?? "",
+      inquiryContent: template.inquiryContent,
+      responseContent: template.responseContent,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          報告書テンプレート
+        </CardTitle>
+        <CardDescription>
+          よくある問い合わせの定型文（報告書作成画面で選択すると入力欄に反映されます）
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>テンプレート名</TableHead>
+              <TableHead>説明</TableHead>
+              <TableHead>利用回数</TableHead>
+              <TableHead>有効</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">読み込み中...</TableCell>
+              </TableRow>
+            ) : templates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center text-muted-foreground">テンプレートはありません</TableCell>
+              </TableRow>
+            ) : (
+              templates.map((template) => (
+                <TableRow key={template.id} data-testid={`row-report-template-${template.id}`}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell>{template.description || "-"}</TableCell>
+                  <TableCell>{template.usageCount}</TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={template.isActive}
+                      onCheckedChange={(checked) => toggleMutation.mutate({ id: template.id, isActive: checked })}
+                      disabled={toggleMutation.isPending}
+                      data-testid={`switch-report-template-active-${template.id}`}
+                    />
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => startEditing(template)}
+                      data-testid={`button-edit-report-template-${template.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(template.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-report-template-${template.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>テンプレート名</FormLabel>
+                    <FormControl>
+                      <Input placeholder="パスワード再発行" data-testid="input-report-template-name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>説明</FormLabel>
+                    <FormControl>
+                      <Input placeholder="利用者ポータルのパスワード再発行依頼" data-testid="input-report-template-description" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="inquiryContent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>問い合わせ内容</FormLabel>
+                  <FormControl>
+                    <Textarea className="h-20" data-testid="textarea-report-template-inquiry" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="responseContent"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>対応内容</FormLabel>
+                  <FormControl>
+                    <Textarea className="h-20" data-testid="textarea-report-template-response" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <p className="text-sm text-muted-foreground">
+              プレースホルダー: {reportTemplatePlaceholderHelp}
+            </p>
+            <div className="flex justify-end gap-2">
+              {editingId && (
+                <Button type="button" variant="ghost" onClick={resetForm}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-report-template">
+                {editingId ? <Save className="mr-2 h-4 w-4" /> : <Plus className="mr-2 h-4 w-4" />}
+                {saveMutation.isPending ? "保存中..." : editingId ? "テンプレートを更新" : "テンプレートを追加"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
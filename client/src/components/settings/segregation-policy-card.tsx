@@ -0,0 +1,91 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SegregationPolicy } from "@shared/schema";
+import { ShieldCheck } from "lucide-react";
+
+export default function SegregationPolicyCard() {
+  const { toast } = useToast();
+
+  const { data: policy, isLoading } = useQuery<SegregationPolicy>({
+    queryKey: ["/api/settings/segregation-policy"],
+    retry: false,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: SegregationPolicy) => {
+      const response = await apiRequest("PUT", "/api/settings/segregation-policy", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "更新完了",
+        description: "職務分掌ルールを更新しました",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/segregation-policy"] });
+    },
+    onError: () => {
+      toast({
+        title: "更新エラー",
+        description: "職務分掌ルールの更新に失敗しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleChange = (key: keyof SegregationPolicy, value: boolean) => {
+    if (!policy) return;
+    updateMutation.mutate({ ...policy, [key]: value });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          職務分掌ルール
+        </CardTitle>
+        <CardDescription>
+          承認・差し戻しを行える承認者を制限します
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>自己承認の禁止</Label>
+            <p className="text-sm text-muted-foreground">
+              報告書の担当者は自分の報告書を承認できません
+            </p>
+          </div>
+          <Switch
+            checked={policy?.preventSelfApproval ?? false}
+            onCheckedChange={(checked) => handleChange("preventSelfApproval", checked)}
+            disabled={isLoading || updateMutation.isPending}
+            data-testid="switch-prevent-self-approval"
+          />
+        </div>
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label>編集者による承認の禁止</Label>
+            <p className="text-sm text-muted-foreground">
+              報告書を作成・編集したユーザーはその報告書を承認できません
+            </p>
+          </div>
+          <Switch
+            checked={policy?.preventEditorApproval ?? false}
+            onCheckedChange={(checked) => handleChange("preventEditorApproval", checked)}
+            disabled={isLoading || updateMutation.isPending}
+            data-testid="switch-prevent-editor-approval"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,20 @@
+import { queryClient } from "@/lib/queryClient";
+
+// Master maintenance lists include deactivated rows; pickers elsewhere use the plain endpoints
+export const institutionsWithInactiveKey = ["/api/financial-institutions?includeInactive=true"];
+
+export const branchesWithInactiveKey = (institutionId: string) => [
+  `/api/financial-institutions/${institutionId}/branches?includeInactive=true`,
+];
+
+// Refreshes every institution and branch list, with or without inactive rows
+export function invalidateBankMasters() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/financial-institutions"),
+  });
+}
+
+// "0001 みずほ銀行"; codes missing from the master are shown alone
+export function formatCodeWithName(code: string, name: string | null | undefined) {
+  return name ? `${code} ${name}` : code;
+}
@@ -0,0 +1,28 @@
+import type { InquiryCategory } from "@shared/schema";
+
+export interface InquiryCategoryNode {
+  category: InquiryCategory;
+  depth: number;
+  path: string; // "parent > child", as shown on reports
+}
+
+// Depth-first listing of the category tree, children directly below their parent
+export function flattenInquiryCategories(categories: InquiryCategory[]): InquiryCategoryNode[] {
+  const ids = new Set(categories.map((category) => category.id));
+  const nodes: InquiryCategoryNode[] = [];
+
+  const visit = (parentId: string | null, depth: number, parentPath: string) => {
+    for (const category of categories) {
+      // Categories whose parent is missing are listed at the top level
+      const effectiveParent = category.parentId && ids.has(category.parentId) ? category.parentId : null;
+      if (effectiveParent !== parentId || nodes.some((node) => node.category.id === category.id)) continue;
+
+      const path = parentPath ? `${parentPath} > ${category.name}` : category.name;
+      nodes.push({ category, depth, path });
+      visit(category.id, depth + 1, path);
+    }
+  };
+
+  visit(null, 0, "");
+  return nodes;
+}
@@ -0,0 +1,48 @@
+// Display labels shared by report components
+export const reportStatusLabels: Record<string, string> = {
+  draft: "下書き",
+  pending_approval: "承認待ち",
+  approved: "承認済み",
+  rejected: "差し戻し",
+  withdrawn: "取り下げ",
+  archived: "アーカイブ",
+};
+
+export const reportEventLabels: Record<string, string> = {
+  created: "作成",
+  updated: "編集",
+  submitted: "承認申請",
+  withdrawn: "取り下げ",
+  step_approved: "段階承認",
+  approved: "承認",
+  rejected: "差し戻し",
+  archived: "アーカイブ",
+};
+
+export const reportFieldLabels: Record<string, string> = {
+  reportNumber: "報告書番号",
+  userNumber: "利用者番号",
+  bankCode: "金融機関コード",
+  branchCode: "支店コード",
+  companyName: "企業名",
+  contactPersonName: "連絡者氏名",
+  inquiryContent: "問い合わせ内容",
+  responseContent: "対応内容",
+  escalationRequired: "エスカレーション",
+  escalationReason: "エスカレーション理由",
+  categoryId: "問い合わせ分類",
+  tags: "タグ",
+};
+
+export const approvalLevelLabels: Record<number, string> = {
+  1: "チームリーダー",
+  2: "マネージャー",
+};
+
+export const approvalStepStatusLabels: Record<string, string> = {
+  pending: "承認待ち",
+  approved: "承認済み",
+  rejected: "差し戻し",
+  skipped: "スキップ",
+  withdrawn: "取り下げ",
+};
@@ -0,0 +1,122 @@
+import type { ReportPeriod, ReportSortKey } from "@shared/schema";
+
+// Filter panel state on the history page; "all" and "" mean the filter is off
+export interface ReportFilterValues {
+  search: string;
+  status: string;
+  bankCode: string;
+  branchCode: string;
+  handlerId: string;
+  approverId: string;
+  escalation: "all" | "true" | "false";
+  categoryId: string;
+  tag: string;
+  createdFrom: string;
+  createdTo: string;
+  createdPeriod: ReportPeriod | "all";
+  approvedFrom: string;
+  approvedTo: string;
+  decidedFrom: string;
+  decidedTo: string;
+  sort: ReportSortKey | "default";
+  order: "asc" | "desc";
+}
+
+export const defaultReportFilters: ReportFilterValues = {
+  search: "",
+  status: "all",
+  bankCode: "all",
+  branchCode: "all",
+  handlerId: "all",
+  approverId: "all",
+  escalation: "all",
+  categoryId: "all",
+  tag: "all",
+  createdFrom: "",
+  createdTo: "",
+  createdPeriod: "all",
+  approvedFrom: "",
+  approvedTo: "",
+  decidedFrom: "",
+  decidedTo: "",
+  sort: "default",
+  order: "desc",
+};
+
+export const reportSortLabels: Record<ReportFilterValues["sort"], string> = {
+  default: "標準（検索時は関連度順）",
+  relevance: "関連度",
+  createdAt: "作成日時",
+  updatedAt: "更新日時",
+  approvedAt: "承認日時",
+  reportNumber: "報告書番号",
+  companyName: "企業名",
+};
+
+export const reportPeriodLabels: Record<ReportPeriod, string> = {
+  today: "今日",
+  this_week: "今週",
+  this_month: "今月",
+  last_month: "先月",
+};
+
+// Whether anything narrows the list; sort order does not count
+export function hasActiveFilters(filters: ReportFilterValues) {
+  return (Object.keys(defaultReportFilters) as (keyof ReportFilterValues)[])
+    .some((key) => key !== "sort" && key !== "order" && filters[key] !== defaultReportFilters[key]);
+}
+
+// Query string for GET /api/reports/query
+export function toReportQueryParams(filters: ReportFilterValues, page: number, pageSize: number) {
+  const params = new URLSearchParams();
+  const set = (name: string, value: string) => {
+    if (value && value !== "all") params.set(name, value);
+  };
+
+  set("search", filters.search.trim());
+  set("status", filters.status);
+  set("bankCode", filters.bankCode);
+  set("branchCode", filters.branchCode);
+  set("handlerId", filters.handlerId);
+  set("approverId", filters.approverId);
+  set("escalationRequired", filters.escalation);
+  set("categoryId", filters.categoryId);
+  set("tag", filters.tag);
+  set("createdFrom", filters.createdFrom);
+  set("createdTo", filters.createdTo);
+  set("createdPeriod", filters.createdPeriod);
+  set("approvedFrom", filters.approvedFrom);
+  set("approvedTo", filters.approvedTo);
+  set("decidedFrom", filters.decidedFrom);
+  set("decidedTo", filters.decidedTo);
+  if (filters.sort !== "default") params.set("sort", filters.sort);
+  params.set("order", filters.order);
+  params.set("limit", String(pageSize));
+  params.set("offset", String(page * pageSize));
+  return params;
+}
+
+// Parameters stored with a saved search: everything but the page
+export function toSavedSearchQuery(filters: ReportFilterValues): Record<string, string> {
+  const params = toReportQueryParams(filters, 0, 1);
+  params.delete("limit");
+  params.delete("offset");
+  return Object.fromEntries(Array.from(params.entries()));
+}
+
+// Filter panel state for a saved search's parameters
+export function fromSavedSearchQuery(query: Record<string, string>): ReportFilterValues {
+  const { escalationRequired, ...filters } = query;
+  return {
+    ...defaultReportFilters,
+    ...filters,
+    escalation: (escalationRequired ?? "all") as ReportFilterValues["escalation"],
+  };
+}
+
+// History page link that opens with the given filters, e.g. for drilling down from a chart
+export function historyHref(filters: Partial<ReportFilterValues>) {
+  const params = new URLSearchParams(toSavedSearchQuery({ ...defaultReportFilters, ...filters }));
+  if (params.get("order") === defaultReportFilters.order) params.delete("order");
+  return `/history?${params.toString()}`;
+}
@@ -0,0 +1,19 @@
+import { reportTemplatePlaceholders } from "@shared/schema";
+import { reportFieldLabels } from "./reportLabels";
+
+type PlaceholderValues = Partial<Record<typeof reportTemplatePlaceholders[number], string>>;
+
+/**
+ * Replace {placeholder} tokens with the current form values.
+ * Tokens without a value are kept so the handler can see what is still missing.
+ */
+export function fillReportTemplate(text: string, values: PlaceholderValues): string {
+  return text.replace(/\{(\w+)\}/g, (token, name: string) => {
+    const value = values[name as keyof PlaceholderValues];
+    return value ? value : token;
+  });
+}
+
+export const reportTemplatePlaceholderHelp = reportTemplatePlaceholders
+  .map((name) => `{${name}}: ${reportFieldLabels[name]}`)
+  .join("、");
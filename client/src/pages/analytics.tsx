@@ -0,0 +1,420 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { historyHref, type ReportFilterValues } from "@/lib/reportQuery";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import { ApprovalTurnaround, ReportStatistics, StatisticsGrouping } from "@shared/schema";
+
+type TimeGrouping = Extract<StatisticsGrouping, "day" | "week" | "month">;
+
+const timeGroupingLabels: Record<TimeGrouping, string> = {
+  day: "日別",
+  week: "週別（月曜始まり）",
+  month: "月別",
+};
+
+const volumeConfig = {
+  volume: { label: "問い合わせ件数", color: "var(--chart-1)" },
+} satisfies ChartConfig;
+
+const escalationConfig = {
+  escalated: { label: "エスカレーション件数", color: "var(--chart-5)" },
+  escalationPercent: { label: "エスカレーション率（%）", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const breakdownConfig = {
+  volume: { label: "件数", color: "var(--chart-2)" },
+} satisfies ChartConfig;
+
+const workloadConfig = {
+  approved: { label: "承認", color: "var(--chart-4)" },
+  rejected: { label: "差し戻し", color: "var(--chart-5)" },
+  open: { label: "未完了", color: "var(--chart-3)" },
+} satisfies ChartConfig;
+
+const leadTimeConfig = {
+  medianHours: { label: "中央値（時間）", color: "var(--chart-1)" },
+  p90Hours: { label: "90パーセンタイル（時間）", color: "var(--chart-5)" },
+} satisfies ChartConfig;
+
+// Chart click handlers receive the index of the bar or point under the cursor
+type ChartClickState = { activeTooltipIndex?: number } | null;
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+// Calendar dates covered by a time bucket key, kept within the charted range
+function bucketDates(key: string, grouping: TimeGrouping, range: { from: string; to: string }) {
+  let from = key;
+  let to = key;
+  if (grouping === "week") {
+    to = addDays(key, 6);
+  } else if (grouping === "month") {
+    const [year, month] = key.split("-").map(Number);
+    from = `${key}-01`;
+    to = new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+  }
+  return { from: from < range.from ? range.from : from, to: to > range.to ? range.to : to };
+}
+
+/**
+ * Report volume, breakdowns, handler workload, escalations and approval lead time over a JST date range.
+ * Clicking a bar or point opens the history page filtered to the reports behind it.
+ */
+export default function Analytics() {
+  const { toast } = useToast();
+  const { user, isLoading: authLoading, isAuthenticated } = useAuth();
+  const [, setLocation] = useLocation();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [grouping, setGrouping] = useState<TimeGrouping>("day");
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+  }, [isAuthenticated, authLoading, toast]);
+
+  const roles: string[] = (() => {
+    try {
+      return JSON.parse((user as any)?.roles || '[]');
+    } catch {
+      return [];
+    }
+  })();
+  const seesAllHandlers = roles.includes('approver') || roles.includes('admin');
+
+  // Empty dates leave the range to the server's default (the last 30 days)
+  const statisticsQuery = (path: string, groupBy: StatisticsGrouping, enabled = true) => {
+    const params = new URLSearchParams({ groupBy });
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    return {
+      queryKey: [path, params.toString()],
+      // The parameters go in the query string; the default fetcher would append them as a path segment
+      queryFn: async () => {
+        const response = await apiRequest("GET", `${path}?${params.toString()}`);
+        return response.json();
+      },
+      placeholderData: <T,>(previous: T | undefined) => previous,
+      enabled,
+      retry: false,
+    };
+  };
+
+  const { data: series, isLoading: seriesLoading, isError: rangeRejected } = useQuery<ReportStatistics>(
+    statisticsQuery("/api/statistics", grouping),
+  );
+  const { data: byBank } = useQuery<ReportStatistics>(statisticsQuery("/api/statistics", "bank"));
+  const { data: byCategory } = useQuery<ReportStatistics>(statisticsQuery("/api/statistics", "category"));
+  const { data: byHandler } = useQuery<ReportStatistics>(statisticsQuery("/api/statistics", "handler"));
+  const { data: turnaround } = useQuery<ApprovalTurnaround>(
+    statisticsQuery("/api/statistics/turnaround", grouping, seesAllHandlers),
+  );
+
+  const range = series?.range;
+  const drillDown = (filters: Partial<ReportFilterValues>) => setLocation(historyHref(filters));
+
+  // Filters for reports created in the charted range or in one time bucket of it
+  const createdIn = (key?: string): Partial<ReportFilterValues> => {
+    if (!range) return {};
+    const dates = key ? bucketDates(key, grouping, range) : range;
+    return { createdFrom: dates.from, createdTo: dates.to };
+  };
+
+  const seriesData = (series?.buckets ?? []).map((bucket) => ({
+    ...bucket,
+    escalationPercent: bucket.escalationRate === null ? null : Math.round(bucket.escalationRate * 1000) / 10,
+  }));
+  const bankData = (byBank?.buckets ?? []).slice(0, 10);
+  const categoryData = (byCategory?.buckets ?? []).slice(0, 10);
+  const workloadData = (byHandler?.buckets ?? []).map((bucket) => ({
+    ...bucket,
+    open: bucket.volume - bucket.approved - bucket.rejected,
+  }));
+
+  // `filters` returns null for buckets the history cannot be filtered to
+  const onBucketClick = (filters: (key: string) => Partial<ReportFilterValues> | null, data: { key: string }[]) =>
+    (state: ChartClickState) => {
+      const bucket = state?.activeTooltipIndex === undefined ? undefined : data[state.activeTooltipIndex];
+      const drillFilters = bucket ? filters(bucket.key) : null;
+      if (drillFilters) drillDown(drillFilters);
+    };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <div className="lg:pl-64">
+        <Header title="分析" />
+
+        <main className="p-6">
+          <div className="space-y-6">
+            <div className="flex flex-col lg:flex-row lg:items-end lg:justify-between gap-4">
+              <div>
+                <h2 className="text-2xl font-bold">分析ダッシュボード</h2>
+                <p className="text-muted-foreground">
+                  グラフの棒や点をクリックすると、該当する報告書を履歴・検索で表示します（日付は日本時間）
+                </p>
+                {rangeRejected && (
+                  <p className="text-sm text-destructive" data-testid="text-analytics-range-error">
+                    期間を指定し直してください（集計期間は月別で10年、それ以外は2年まで）
+                  </p>
+                )}
+              </div>
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">期間</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="date"
+                      value={from || range?.from || ""}
+                      max={to || range?.to}
+                      onChange={(e) => setFrom(e.target.value)}
+                      data-testid="input-analytics-from"
+                    />
+                    <span className="text-muted-foreground">〜</span>
+                    <Input
+                      type="date"
+                      value={to || range?.to || ""}
+                      min={from || range?.from}
+                      onChange={(e) => setTo(e.target.value)}
+                      data-testid="input-analytics-to"
+                    />
+                  </div>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs text-muted-foreground">集計単位</Label>
+                  <Select value={grouping} onValueChange={(value) => setGrouping(value as TimeGrouping)}>
+                    <SelectTrigger className="w-48" data-testid="select-analytics-grouping">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(timeGroupingLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            {/* Inquiries over time */}
+            <Card>
+              <CardHeader>
+                <CardTitle>問い合わせ件数の推移</CardTitle>
+                <CardDescription>
+                  作成された報告書の件数（期間計 {series?.totals.volume ?? "-"}件）
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {seriesLoading ? (
+                  <div className="animate-pulse text-center py-16">読み込み中...</div>
+                ) : (
+                  <ChartContainer config={volumeConfig} className="aspect-auto h-64 w-full" data-testid="chart-volume">
+                    <BarChart data={seriesData} onClick={onBucketClick(createdIn, seriesData)} className="cursor-pointer">
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="volume" fill="var(--color-volume)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              {/* Breakdown by bank and category */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>内訳</CardTitle>
+                  <CardDescription>期間内に作成された報告書の件数（上位10件）</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Tabs defaultValue="bank">
+                    <TabsList>
+                      <TabsTrigger value="bank" data-testid="tab-breakdown-bank">金融機関別</TabsTrigger>
+                      <TabsTrigger value="category" data-testid="tab-breakdown-category">分類別</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="bank">
+                      <ChartContainer config={breakdownConfig} className="aspect-auto h-72 w-full" data-testid="chart-by-bank">
+                        <BarChart
+                          data={bankData}
+                          layout="vertical"
+                          onClick={onBucketClick((bankCode) => ({ bankCode, ...createdIn() }), bankData)}
+                          className="cursor-pointer"
+                        >
+                          <CartesianGrid horizontal={false} />
+                          <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={140} />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <Bar dataKey="volume" fill="var(--color-volume)" radius={4} />
+                        </BarChart>
+                      </ChartContainer>
+                    </TabsContent>
+                    <TabsContent value="category">
+                      <ChartContainer config={breakdownConfig} className="aspect-auto h-72 w-full" data-testid="chart-by-category">
+                        <BarChart
+                          data={categoryData}
+                          layout="vertical"
+                          // Uncategorized reports have no history filter to drill into
+                          onClick={onBucketClick((categoryId) => categoryId ? { categoryId, ...createdIn() } : null, categoryData)}
+                          className="cursor-pointer"
+                        >
+                          <CartesianGrid horizontal={false} />
+                          <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                          <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={160} />
+                          <ChartTooltip content={<ChartTooltipContent />} />
+                          <Bar dataKey="volume" fill="var(--color-volume)" radius={4} />
+                        </BarChart>
+                      </ChartContainer>
+                    </TabsContent>
+                  </Tabs>
+                </CardContent>
+              </Card>
+
+              {/* Handler workload */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>担当者別の件数</CardTitle>
+                  <CardDescription>期間内に作成された報告書の対応者ごとの件数と処理状況</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={workloadConfig} className="aspect-auto h-72 w-full" data-testid="chart-workload">
+                    <BarChart
+                      data={workloadData}
+                      // Handlers only see their own reports in the history, so only broader roles drill into others
+                      onClick={seesAllHandlers ? onBucketClick((handlerId) => ({ handlerId, ...createdIn() }), workloadData) : undefined}
+                      className={seesAllHandlers ? "cursor-pointer" : undefined}
+                    >
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="approved" stackId="workload" fill="var(--color-approved)" />
+                      <Bar dataKey="rejected" stackId="workload" fill="var(--color-rejected)" />
+                      <Bar dataKey="open" stackId="workload" fill="var(--color-open)" radius={[4, 4, 0, 0]} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Escalation trend */}
+            <Card>
+              <CardHeader>
+                <CardTitle>エスカレーションの推移</CardTitle>
+                <CardDescription>エスカレーションが必要とされた報告書の件数と、作成件数に占める割合</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={escalationConfig} className="aspect-auto h-64 w-full" data-testid="chart-escalation">
+                  <ComposedChart
+                    data={seriesData}
+                    onClick={onBucketClick((key) => ({ escalation: "true", ...createdIn(key) }), seriesData)}
+                    className="cursor-pointer"
+                  >
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                    <YAxis yAxisId="count" allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <YAxis yAxisId="rate" orientation="right" unit="%" domain={[0, 100]} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar yAxisId="count" dataKey="escalated" fill="var(--color-escalated)" radius={4} />
+                    <Line yAxisId="rate" dataKey="escalationPercent" stroke="var(--color-escalationPercent)" strokeWidth={2} dot={false} connectNulls />
+                  </ComposedChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Approval lead time, for roles that can see the turnaround figures */}
+            {seesAllHandlers && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>承認リードタイム</CardTitle>
+                  <CardDescription>
+                    提出から承認・差し戻しまでの時間（判断日ごと）
+                    {turnaround && `。期限 ${turnaround.thresholdHours}時間、期限内 ${turnaround.overall.withinSlaRate === null ? "-" : `${Math.round(turnaround.overall.withinSlaRate * 100)}%`}`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+                  <ChartContainer config={leadTimeConfig} className="aspect-auto h-64 w-full" data-testid="chart-lead-time">
+                    <LineChart
+                      data={turnaround?.trend ?? []}
+                      onClick={onBucketClick((key) => {
+                        const dates = range ? bucketDates(key, grouping, range) : { from: key, to: key };
+                        return { decidedFrom: dates.from, decidedTo: dates.to };
+                      }, turnaround?.trend ?? [])}
+                      className="cursor-pointer"
+                    >
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                      <YAxis unit="h" tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      {turnaround && (
+                        <ReferenceLine y={turnaround.thresholdHours} stroke="var(--destructive)" strokeDasharray="4 4" />
+                      )}
+                      <Line dataKey="medianHours" stroke="var(--color-medianHours)" strokeWidth={2} connectNulls />
+                      <Line dataKey="p90Hours" stroke="var(--color-p90Hours)" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ChartContainer>
+                  <ChartContainer config={leadTimeConfig} className="aspect-auto h-64 w-full" data-testid="chart-lead-time-by-approver">
+                    <BarChart
+                      data={turnaround?.byApprover ?? []}
+                      onClick={onBucketClick((approverId) => ({
+                        approverId,
+                        decidedFrom: range?.from ?? "",
+                        decidedTo: range?.to ?? "",
+                      }), turnaround?.byApprover ?? [])}
+                      className="cursor-pointer"
+                    >
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                      <YAxis unit="h" tickLine={false} axisLine={false} width={40} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <ChartLegend content={<ChartLegendContent />} />
+                      <Bar dataKey="medianHours" fill="var(--color-medianHours)" radius={4} />
+                      <Bar dataKey="p90Hours" fill="var(--color-p90Hours)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
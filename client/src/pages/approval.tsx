@@ -9,11 +9,13 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { approvalLevelLabels } from "@/lib/reportLabels";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import ReportDetailModal from "@/components/reports/report-detail-modal";
-import { ReportWithDetails } from "@shared/schema";
-import { Eye, CheckCircle, XCircle, Clock } from "lucide-react";
+import RevisionDiff from "@/components/reports/revision-diff";
+import { ApprovalSla, ReportWithDetails } from "@shared/schema";
+import { Eye, CheckCircle, XCircle, Clock, GitCompare, ShieldAlert, AlertTriangle } from "lucide-react";
 
 export default function Approval() {
   const { toast } = useToast();
@@ -24,6 +26,7 @@ export default function Approval() {
     reportId: "",
   });
   const [rejectionReason, setRejectionReason] = useState("");
+  const [diffReport, setDiffReport] = useState<ReportWithDetails | null>(null);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -41,28 +44,37 @@ export default function Approval() {
   }, [isAuthenticated, authLoading, toast]);
 
   const { data: pendingReports = [], isLoading } = useQuery<ReportWithDetails[]>({
-    queryKey: ["/api/reports"],
-    queryFn: async () => {
-      const response = await apiRequest("GET", "/api/reports");
-      return response.json();
-    },
+    queryKey: ["/api/reports/pending"],
+    retry: false,
+  });
+
+  const { data: sla } = useQuery<ApprovalSla>({
+    queryKey: ["/api/settings/approval-sla"],
     retry: false,
   });
 
+  const overdueCount = pendingReports.filter((report) => report.slaOverdue).length;
+
   // Approve report mutation
   const approveMutation = useMutation({
     mutationFn: async (reportId: string) => {
-      return await apiRequest("PATCH", `/api/reports/${reportId}/status`, {
+      const response = await apiRequest("PATCH", `/api/reports/${reportId}/status`, {
         status: "approved",
       });
+      return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (report: ReportWithDetails) => {
       toast({
         title: "承認完了",
-        description: "報告書を承認しました。",
+        description: report.status === "pending_approval"
+          ? "承認しました。次の承認段階へ回付されます。"
+          : "報告書を承認しました。",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics/turnaround"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -98,7 +110,10 @@ export default function Approval() {
         description: "報告書を差し戻しました。",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/pending"] });
       queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/statistics/turnaround"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
       setRejectionDialog({ open: false, reportId: "" });
       setRejectionReason("");
     },
@@ -145,8 +160,18 @@ export default function Approval() {
     }
   };
 
-  const formatDateTime = (dateString: string) => {
-    return new Date(dateString).toLocaleString('ja-JP', {
+  const getStepLabel = (report: ReportWithDetails) => {
+    const steps = report.approvalSteps ?? [];
+    const current = steps.find(step => step.status === "pending");
+    if (!current) return "";
+    return `第${current.stepOrder}段階 / 全${steps.length}段階（${approvalLevelLabels[current.requiredLevel] || `レベル${current.requiredLevel}`}）`;
+  };
+
+  // Reports submitted before submission times were recorded fall back to their creation time
+  const submittedAtOf = (report: ReportWithDetails) => report.submittedAt ?? report.createdAt ?? 0;
+
+  const formatDateTime = (unixTime: number) => {
+    return new Date(unixTime * 1000).toLocaleString('ja-JP', {
       year: 'numeric',
       month: '2-digit',
       day: '2-digit',
@@ -176,14 +201,24 @@ export default function Approval() {
               <div>
                 <h2 className="text-2xl font-bold">承認待ち報告書</h2>
                 <p className="text-muted-foreground">
-                  承認権限: <span className="text-primary font-medium">レベル{(user as any)?.approvalLevel || 1}</span>
+                  承認権限: <span className="text-primary font-medium">
+                    レベル{(user as any)?.approvalLevel || 1}（{approvalLevelLabels[(user as any)?.approvalLevel || 1]}）
+                  </span>
                 </p>
               </div>
               {(pendingReports as any[]).length > 0 && (
-                <Badge variant="secondary" className="bg-warning/10 text-warning">
-                  <Clock className="mr-1 h-3 w-3" />
-                  {(pendingReports as any[]).length}件待ち
-                </Badge>
+                <div className="flex items-center gap-2">
+                  {overdueCount > 0 && (
+                    <Badge variant="destructive" data-testid="badge-sla-overdue-count">
+                      <AlertTriangle className="mr-1 h-3 w-3" />
+                      {overdueCount}件が{sla?.thresholdHours ?? "-"}時間の承認期限を超過
+                    </Badge>
+                  )}
+                  <Badge variant="secondary" className="bg-warning/10 text-warning">
+                    <Clock className="mr-1 h-3 w-3" />
+                    {(pendingReports as any[]).length}件待ち
+                  </Badge>
+                </div>
               )}
             </div>
 
@@ -207,7 +242,11 @@ export default function Approval() {
                 </Card>
               ) : (
                 (pendingReports as ReportWithDetails[]).map((report: ReportWithDetails) => (
-                  <Card key={report.id} data-testid={`card-report-${report.id}`}>
+                  <Card
+                    key={report.id}
+                    className={report.approvalBlockedReason ? "opacity-60" : ""}
+                    data-testid={`card-report-${report.id}`}
+                  >
                     <CardContent className="p-6">
                       <div className="flex items-start justify-between mb-4">
                         <div>
@@ -215,12 +254,26 @@ export default function Approval() {
                             {report.reportNumber}
                           </h3>
                           <p className="text-sm text-muted-foreground" data-testid={`text-submitted-at-${report.id}`}>
-                            提出日時: {formatDateTime(report.createdAt?.toString() || '')}
+                            提出日時: {formatDateTime(submittedAtOf(report))}
+                            （経過 {Math.floor((Date.now() / 1000 - submittedAtOf(report)) / 3600)}時間）
                           </p>
                         </div>
-                        <Badge variant="secondary" className="bg-warning/10 text-warning">
-                          承認待ち
-                        </Badge>
+                        <div className="flex items-center space-x-2">
+                          {(report.approvalSteps?.length ?? 0) > 1 && (
+                            <Badge variant="outline" data-testid={`badge-approval-step-${report.id}`}>
+                              {getStepLabel(report)}
+                            </Badge>
+                          )}
+                          {report.slaOverdue && (
+                            <Badge variant="destructive" data-testid={`badge-sla-overdue-${report.id}`}>
+                              <AlertTriangle className="mr-1 h-3 w-3" />
+                              期限超過
+                            </Badge>
+                          )}
+                          <Badge variant="secondary" className="bg-warning/10 text-warning">
+                            承認待ち
+                          </Badge>
+                        </div>
                       </div>
                       
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4 text-sm">
@@ -246,23 +299,41 @@ export default function Approval() {
                         </div>
                       </div>
                       
+                      {report.approvalBlockedReason && (
+                        <div className="flex items-center mb-4 text-sm text-muted-foreground" data-testid={`text-blocked-reason-${report.id}`}>
+                          <ShieldAlert className="mr-2 h-4 w-4" />
+                          {report.approvalBlockedReason}
+                        </div>
+                      )}
+                      
                       <div className="border-t border-border pt-4">
                         <div className="flex items-center justify-between">
-                          <Button 
-                            variant="outline" 
-                            size="sm"
-                            onClick={() => setSelectedReport(report)}
-                            data-testid={`button-view-detail-${report.id}`}
-                          >
-                            <Eye className="mr-2 h-4 w-4" />
-                            詳細を表示
-                          </Button>
+                          <div className="flex items-center space-x-2">
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => setSelectedReport(report)}
+                              data-testid={`button-view-detail-${report.id}`}
+                            >
+                              <Eye className="mr-2 h-4 w-4" />
+                              詳細を表示
+                            </Button>
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              onClick={() => setDiffReport(report)}
+                              data-testid={`button-view-diff-${report.id}`}
+                            >
+                              <GitCompare className="mr-2 h-4 w-4" />
+                              変更差分
+                            </Button>
+                          </div>
                           <div className="flex items-center space-x-2">
                             <Button 
                               variant="outline" 
                               size="sm"
                               onClick={() => handleReject(report.id)}
-                              disabled={rejectMutation.isPending}
+                              disabled={rejectMutation.isPending || !!report.approvalBlockedReason}
                               className="border-destructive text-destructive hover:bg-destructive/10"
                               data-testid={`button-reject-${report.id}`}
                             >
@@ -272,7 +343,7 @@ export default function Approval() {
                             <Button 
                               size="sm"
                               onClick={() => handleApprove(report.id)}
-                              disabled={approveMutation.isPending}
+                              disabled={approveMutation.isPending || !!report.approvalBlockedReason}
                               className="bg-success text-white hover:bg-success/90"
                               data-testid={`button-approve-${report.id}`}
                             >
@@ -296,12 +367,22 @@ export default function Approval() {
         <ReportDetailModal
           report={selectedReport}
           onClose={() => setSelectedReport(null)}
-          showApprovalActions={true}
+          showApprovalActions={!selectedReport.approvalBlockedReason}
           onApprove={() => handleApprove(selectedReport.id)}
           onReject={() => handleReject(selectedReport.id)}
         />
       )}
 
+      {/* Revision Diff Dialog */}
+      <Dialog open={!!diffReport} onOpenChange={(open) => !open && setDiffReport(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-auto" data-testid="dialog-revision-diff">
+          <DialogHeader>
+            <DialogTitle>変更差分 {diffReport?.reportNumber}</DialogTitle>
+          </DialogHeader>
+          {diffReport && <RevisionDiff reportId={diffReport.id} />}
+        </DialogContent>
+      </Dialog>
+
       {/* Rejection Dialog */}
       <Dialog open={rejectionDialog.open} onOpenChange={(open) => setRejectionDialog({ ...rejectionDialog, open })}>
         <DialogContent data-testid="dialog-rejection">
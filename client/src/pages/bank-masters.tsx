@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import InstitutionsCard from "@/components/masters/institutions-card";
+import BranchesCard from "@/components/masters/branches-card";
+import BankMasterImportCard from "@/components/masters/bank-master-import-card";
+import { institutionsWithInactiveKey } from "@/lib/bankMasters";
+import { FinancialInstitution } from "@shared/schema";
+
+export default function BankMasters() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Shares the institutions card's query so renames show up in the branch panel too
+  const { data: institutions = [] } = useQuery<FinancialInstitution[]>({
+    queryKey: institutionsWithInactiveKey,
+    retry: false,
+  });
+  const selectedInstitution = institutions.find((institution) => institution.id === selectedId) ?? null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <div className="lg:pl-64">
+        <Header title="金融機関マスタ" />
+
+        <main className="p-6">
+          <div className="space-y-6">
+            <div>
+              <h2 className="text-2xl font-bold">金融機関マスタ</h2>
+              <p className="text-muted-foreground">報告書で選択する金融機関・支店の登録と、全銀協マスタの取り込みを行います</p>
+            </div>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <InstitutionsCard
+                selectedId={selectedId}
+                onSelect={(institution) => setSelectedId(institution.id)}
+              />
+              <BranchesCard institution={selectedInstitution} />
+            </div>
+
+            <BankMasterImportCard />
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
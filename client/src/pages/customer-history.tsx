@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import Sidebar from "@/components/layout/sidebar";
+import Header from "@/components/layout/header";
+import ReportDetailModal from "@/components/reports/report-detail-modal";
+import { reportEventLabels, reportStatusLabels } from "@/lib/reportLabels";
+import { CustomerWithContacts, ReportEventWithActor, ReportWithDetails } from "@shared/schema";
+import { AlertTriangle, ArrowLeft, Building2, Eye, FileText, History } from "lucide-react";
+
+// Reports still being worked on rather than closed
+const OPEN_STATUSES = ["draft", "pending_approval", "rejected", "withdrawn"];
+
+export default function CustomerHistory() {
+  const { userNumber = "" } = useParams<{ userNumber: string }>();
+  const [selectedReport, setSelectedReport] = useState<ReportWithDetails | null>(null);
+
+  // 404 when the user number is not in the customer master; the history is shown regardless
+  const { data: customer } = useQuery<CustomerWithContacts>({
+    queryKey: ["/api/customers/by-number", userNumber],
+    retry: false,
+  });
+
+  const { data: reports = [], isLoading } = useQuery<ReportWithDetails[]>({
+    queryKey: ["/api/customers/by-number", userNumber, "reports"],
+    retry: false,
+  });
+
+  const { data: timeline = [], isLoading: timelineLoading } = useQuery<ReportEventWithActor[]>({
+    queryKey: ["/api/customers/by-number", userNumber, "timeline"],
+    retry: false,
+  });
+
+  const reportsById = new Map(reports.map((report) => [report.id, report]));
+  const companyName = customer?.companyName ?? reports[0]?.companyName;
+  const escalationCount = reports.filter((report) => report.escalationRequired).length;
+  const openCount = reports.filter((report) => OPEN_STATUSES.includes(report.status)).length;
+
+  const formatDateTime = (timestamp: number | null) =>
+    timestamp ? new Date(timestamp * 1000).toLocaleString("ja-JP", {
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    }) : "-";
+
+  const formatName = (person: { firstName: string | null; lastName: string | null } | null) =>
+    person ? `${person.lastName ?? ""} ${person.firstName ?? ""}`.trim() : "不明なユーザー";
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Sidebar />
+
+      <div className="lg:pl-64">
+        <Header title="利用者別問い合わせ履歴" />
+
+        <main className="p-6">
+          <div className="space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-2xl font-bold" data-testid="text-customer-title">
+                  {companyName ? `${companyName}（${userNumber}）` : `利用者番号 ${userNumber}`}
+                </h2>
+                <p className="text-muted-foreground">担当者に関わらず、この利用者からの問い合わせをすべて表示します（他の担当者の下書きは除く）</p>
+              </div>
+              <Link href="/history">
+                <Button variant="ghost" data-testid="button-back">
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  履歴・検索へ
+                </Button>
+              </Link>
+            </div>
+
+            {/* Customer summary */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Building2 className="mr-2 h-5 w-5" />
+                  利用者情報
+                </CardTitle>
+                {!customer && <CardDescription>利用者マスタに登録されていません</CardDescription>}
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                  <div>
+                    <label className="block font-medium text-muted-foreground">金融機関コード</label>
+                    <p>{customer?.bankCode ?? reports[0]?.bankCode ?? "-"}</p>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-muted-foreground">支店コード</label>
+                    <p>{customer?.branchCode ?? reports[0]?.branchCode ?? "-"}</p>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-muted-foreground">連絡者</label>
+                    <p>{customer?.contacts.length ? customer.contacts.map((contact) => contact.name).join("、") : "-"}</p>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-muted-foreground">問い合わせ件数</label>
+                    <p data-testid="text-customer-report-count">{reports.length}件（対応中 {openCount}件）</p>
+                  </div>
+                  <div>
+                    <label className="block font-medium text-muted-foreground">エスカレーション</label>
+                    <p className={escalationCount > 0 ? "text-destructive" : ""} data-testid="text-customer-escalation-count">
+                      {escalationCount}件
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Reports */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <FileText className="mr-2 h-5 w-5" />
+                  報告書
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>報告書番号</TableHead>
+                        <TableHead>作成日時</TableHead>
+                        <TableHead>分類</TableHead>
+                        <TableHead>連絡者</TableHead>
+                        <TableHead>対応者</TableHead>
+                        <TableHead>状態</TableHead>
+                        <TableHead>エスカレーション</TableHead>
+                        <TableHead>操作</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {isLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={8} className="text-center py-8">
+                            <div className="animate-pulse">読み込み中...</div>
+                          </TableCell>
+                        </TableRow>
+                      ) : reports.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                            この利用者の報告書はありません
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        reports.map((report) => (
+                          <TableRow key={report.id} className="hover:bg-accent/50" data-testid={`row-customer-report-${report.id}`}>
+                            <TableCell className="font-medium">{report.reportNumber}</TableCell>
+                            <TableCell className="text-muted-foreground">{formatDateTime(report.createdAt)}</TableCell>
+                            <TableCell>{report.categoryName || "-"}</TableCell>
+                            <TableCell>{report.contactPersonName}</TableCell>
+                            <TableCell>{formatName(report.handler)}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{reportStatusLabels[report.status] || report.status}</Badge>
+                            </TableCell>
+                            <TableCell>
+                              {report.escalationRequired ? (
+                                <span className="flex items-center text-destructive">
+                                  <AlertTriangle className="mr-1 h-4 w-4" />
+                                  必要
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">不要</span>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setSelectedReport(report)}
+                                data-testid={`button-view-${report.id}`}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Timeline */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <History className="mr-2 h-5 w-5" />
+                  対応タイムライン
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {timelineLoading ? (
+                  <div className="animate-pulse text-sm text-muted-foreground">読み込み中...</div>
+                ) : timeline.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">履歴はありません</p>
+                ) : (
+                  <ol className="relative border-l border-border ml-2 space-y-4" data-testid="customer-timeline">
+                    {timeline.map((event) => {
+                      const report = reportsById.get(event.reportId);
+                      return (
+                        <li key={event.id} className="ml-4">
+                          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+                          <div className="flex flex-wrap items-center gap-2 text-sm">
+                            <span className="text-muted-foreground">{formatDateTime(event.createdAt)}</span>
+                            {report && (
+                              <button
+                                type="button"
+                                className="font-medium hover:underline"
+                                onClick={() => setSelectedReport(report)}
+                              >
+                                {report.reportNumber}
+                              </button>
+                            )}
+                            <Badge variant="secondary">{reportEventLabels[event.eventType] || event.eventType}</Badge>
+                            <span>{formatName(event.actor)}</span>
+                          </div>
+                          {event.comment && (
+                            <p className="mt-1 text-sm text-muted-foreground whitespace-pre-wrap">{event.comment}</p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </main>
+      </div>
+
+      {selectedReport && (
+        <ReportDetailModal
+          report={selectedReport}
+          onClose={() => setSelectedReport(null)}
+        />
+      )}
+    </div>
+  );
+}
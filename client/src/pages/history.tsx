@@ -1,36 +1,82 @@
-import { useEffect, useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCodeWithName } from "@/lib/bankMasters";
+import { reportFieldLabels } from "@/lib/reportLabels";
+import { defaultReportFilters, fromSavedSearchQuery, hasActiveFilters, toReportQueryParams, type ReportFilterValues } from "@/lib/reportQuery";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import ReportDetailModal from "@/components/reports/report-detail-modal";
-import { ReportWithDetails } from "@shared/schema";
-import { Search, Eye, FileText, Filter } from "lucide-react";
+import ReportFilters from "@/components/reports/report-filters";
+import SavedSearches from "@/components/reports/saved-searches";
+import { ReportQueryResult, ReportWithDetails, SavedSearchWithCount, User } from "@shared/schema";
+import { Search, Eye, FileText, Filter, ChevronLeft, ChevronRight } from "lucide-react";
+
+const PAGE_SIZE = 20;
 
 export default function History() {
   const { toast } = useToast();
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
   const [selectedReport, setSelectedReport] = useState<ReportWithDetails | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [filters, setFilters] = useState<ReportFilterValues>(defaultReportFilters);
+  const [page, setPage] = useState(0);
 
   // Debounce search query
   useEffect(() => {
     const timer = setTimeout(() => {
-      setDebouncedSearch(searchQuery);
+      setFilters((current) => current.search === searchQuery ? current : { ...current, search: searchQuery });
+      setPage(0);
     }, 500);
     return () => clearTimeout(timer);
   }, [searchQuery]);
 
+  const changeFilters = (next: ReportFilterValues) => {
+    if (next.search !== filters.search) {
+      setSearchQuery(next.search);
+    }
+    setFilters(next);
+    setPage(0);
+  };
+
+  // ?saved=<id> (sidebar quick links, the saved search picker) loads that search's filters once
+  const [, setLocation] = useLocation();
+  const locationSearch = useSearch();
+  const savedId = new URLSearchParams(locationSearch).get("saved");
+  const [appliedSavedId, setAppliedSavedId] = useState<string | null>(null);
+  const { data: savedSearches = [] } = useQuery<SavedSearchWithCount[]>({
+    queryKey: ["/api/saved-searches"],
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (savedId === appliedSavedId) return;
+    const saved = savedSearches.find((search) => search.id === savedId);
+    if (saved) {
+      changeFilters(fromSavedSearchQuery(saved.query));
+      setAppliedSavedId(saved.id);
+    } else if (!savedId) {
+      setAppliedSavedId(null);
+    }
+  }, [savedId, savedSearches]);
+
+  // Any other parameters (analytics drill-down links) are filters in saved search form, applied once per link
+  const [appliedLocationSearch, setAppliedLocationSearch] = useState("");
+  useEffect(() => {
+    if (savedId || !locationSearch || locationSearch === appliedLocationSearch) return;
+    changeFilters(fromSavedSearchQuery(Object.fromEntries(new URLSearchParams(locationSearch).entries())));
+    setAppliedLocationSearch(locationSearch);
+  }, [locationSearch]);
+
   // Redirect to login if not authenticated
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -46,19 +92,31 @@ export default function History() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  // Build query parameters
-  const queryParams = new URLSearchParams();
-  if (debouncedSearch) {
-    queryParams.set('search', debouncedSearch);
-  }
-  if (statusFilter !== 'all') {
-    queryParams.set('status', statusFilter);
-  }
+  const roles: string[] = (() => {
+    try {
+      return JSON.parse((user as any)?.roles || '[]');
+    } catch {
+      return [];
+    }
+  })();
+  const seesAllHandlers = roles.includes('approver') || roles.includes('admin');
 
-  const { data: reports = [], isLoading } = useQuery<ReportWithDetails[]>({
-    queryKey: ["/api/reports", queryParams.toString()],
+  const queryParams = toReportQueryParams(filters, page, PAGE_SIZE).toString();
+  const { data, isLoading } = useQuery<ReportQueryResult>({
+    queryKey: ["/api/reports/query", queryParams],
+    // The parameters go in the query string; the default fetcher would append them as a path segment
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/reports/query?${queryParams}`);
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
     retry: false,
   });
+  const reports = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  const hasFilters = hasActiveFilters(filters);
 
   const getStatusBadge = (status: string) => {
     const statusConfig = {
@@ -66,6 +124,8 @@ export default function History() {
       pending_approval: { label: "承認待ち", variant: "default" as const },
       approved: { label: "承認済み", variant: "default" as const },
       rejected: { label: "差し戻し", variant: "destructive" as const },
+      withdrawn: { label: "取り下げ", variant: "secondary" as const },
+      archived: { label: "アーカイブ", variant: "outline" as const },
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.draft;
@@ -110,7 +170,9 @@ export default function History() {
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-2xl font-bold">報告書履歴・検索</h2>
-                <p className="text-muted-foreground">作成・担当した報告書の履歴と検索</p>
+                <p className="text-muted-foreground">
+                  {seesAllHandlers ? "すべての報告書の履歴と検索" : "作成・担当した報告書の履歴と検索"}
+                </p>
               </div>
             </div>
 
@@ -121,34 +183,25 @@ export default function History() {
                   <Search className="mr-2 h-5 w-5" />
                   検索・フィルター
                 </CardTitle>
-                <CardDescription>報告書番号、企業名、連絡者名、問い合わせ内容で検索できます</CardDescription>
+                <CardDescription>報告書番号、利用者番号、企業名、連絡者名、問い合わせ・対応内容で検索できます（全角・半角、カタカナ・ひらがなは区別しません）</CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="flex flex-col sm:flex-row gap-4">
-                  <div className="flex-1">
-                    <Input
-                      placeholder="検索キーワードを入力..."
-                      value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
-                      className="w-full"
-                      data-testid="input-search"
-                    />
-                  </div>
-                  <div className="w-full sm:w-48">
-                    <Select value={statusFilter} onValueChange={setStatusFilter}>
-                      <SelectTrigger data-testid="select-status-filter">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="all">すべての状態</SelectItem>
-                        <SelectItem value="draft">下書き</SelectItem>
-                        <SelectItem value="pending_approval">承認待ち</SelectItem>
-                        <SelectItem value="approved">承認済み</SelectItem>
-                        <SelectItem value="rejected">差し戻し</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
+              <CardContent className="space-y-4">
+                {!!user && (
+                  <SavedSearches
+                    currentUser={user as User}
+                    filters={filters}
+                    activeId={appliedSavedId}
+                    onApply={(search) => setLocation(search ? `/history?saved=${search.id}` : "/history")}
+                  />
+                )}
+                <Input
+                  placeholder="検索キーワードを入力..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="w-full"
+                  data-testid="input-search"
+                />
+                <ReportFilters value={filters} onChange={changeFilters} canFilterByHandler={seesAllHandlers} />
               </CardContent>
             </Card>
 
@@ -159,8 +212,8 @@ export default function History() {
                   <FileText className="mr-2 h-5 w-5" />
                   検索結果
                   {!isLoading && (
-                    <Badge variant="secondary" className="ml-2">
-                      {(reports as any[]).length}件
+                    <Badge variant="secondary" className="ml-2" data-testid="text-total">
+                      {total}件
                     </Badge>
                   )}
                 </CardTitle>
@@ -172,7 +225,9 @@ export default function History() {
                       <TableRow>
                         <TableHead data-testid="header-report-number">報告書番号</TableHead>
                         <TableHead data-testid="header-company">企業名</TableHead>
+                        <TableHead data-testid="header-bank">金融機関・支店</TableHead>
                         <TableHead data-testid="header-contact">連絡者</TableHead>
+                        <TableHead data-testid="header-category">分類</TableHead>
                         <TableHead data-testid="header-handler">対応者</TableHead>
                         <TableHead data-testid="header-status">状態</TableHead>
                         <TableHead data-testid="header-created">作成日時</TableHead>
@@ -182,31 +237,48 @@ export default function History() {
                     <TableBody>
                       {isLoading ? (
                         <TableRow>
-                          <TableCell colSpan={7} className="text-center py-8">
+                          <TableCell colSpan={9} className="text-center py-8">
                             <div className="animate-pulse">検索中...</div>
                           </TableCell>
                         </TableRow>
-                      ) : (reports as any[]).length === 0 ? (
+                      ) : reports.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
-                            {debouncedSearch || statusFilter !== 'all' 
+                          <TableCell colSpan={9} className="text-center py-8 text-muted-foreground">
+                            {hasFilters
                               ? "検索条件に一致する報告書が見つかりませんでした" 
                               : "報告書がありません"
                             }
                           </TableCell>
                         </TableRow>
                       ) : (
-                        (reports as ReportWithDetails[]).map((report: ReportWithDetails) => (
-                          <TableRow key={report.id} className="hover:bg-accent/50" data-testid={`row-report-${report.id}`}>
+                        reports.map((report: ReportWithDetails) => (
+                          <Fragment key={report.id}>
+                          <TableRow className={report.searchSnippet ? "hover:bg-accent/50 border-b-0" : "hover:bg-accent/50"} data-testid={`row-report-${report.id}`}>
                             <TableCell className="font-medium" data-testid={`text-report-number-${report.id}`}>
                               {report.reportNumber}
                             </TableCell>
                             <TableCell data-testid={`text-company-${report.id}`}>
                               {report.companyName}
                             </TableCell>
+                            <TableCell data-testid={`text-bank-${report.id}`}>
+                              <div>{formatCodeWithName(report.bankCode, report.bankName)}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {formatCodeWithName(report.branchCode, report.branchName)}
+                              </div>
+                            </TableCell>
                             <TableCell data-testid={`text-contact-${report.id}`}>
                               {report.contactPersonName}
                             </TableCell>
+                            <TableCell data-testid={`text-category-${report.id}`}>
+                              <div>{report.categoryName || "-"}</div>
+                              {report.tags && report.tags.length > 0 && (
+                                <div className="mt-1 flex flex-wrap gap-1">
+                                  {report.tags.map((tag) => (
+                                    <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                                  ))}
+                                </div>
+                              )}
+                            </TableCell>
                             <TableCell data-testid={`text-handler-${report.id}`}>
                               {report.handler.firstName} {report.handler.lastName}
                             </TableCell>
@@ -227,11 +299,58 @@ export default function History() {
                               </Button>
                             </TableCell>
                           </TableRow>
+                          {report.searchSnippet && (
+                            <TableRow className="hover:bg-transparent" data-testid={`row-snippet-${report.id}`}>
+                              <TableCell colSpan={9} className="pt-0 text-sm text-muted-foreground">
+                                <span className="mr-2 text-xs font-medium">
+                                  {reportFieldLabels[report.searchSnippet.field] ?? report.searchSnippet.field}:
+                                </span>
+                                {report.searchSnippet.segments.map((segment, index) =>
+                                  segment.highlighted ? (
+                                    <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">{segment.text}</mark>
+                                  ) : (
+                                    <span key={index}>{segment.text}</span>
+                                  )
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          )}
+                          </Fragment>
                         ))
                       )}
                     </TableBody>
                   </Table>
                 </div>
+                {total > PAGE_SIZE && (
+                  <div className="flex items-center justify-between border-t px-4 py-3">
+                    <span className="text-sm text-muted-foreground" data-testid="text-page-range">
+                      {page * PAGE_SIZE + 1}〜{Math.min((page + 1) * PAGE_SIZE, total)}件目 / {total}件
+                    </span>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage(page - 1)}
+                        disabled={page === 0}
+                        data-testid="button-prev-page"
+                      >
+                        <ChevronLeft className="h-4 w-4" />
+                        前へ
+                      </Button>
+                      <span className="text-sm">{page + 1} / {pageCount}</span>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPage(page + 1)}
+                        disabled={page + 1 >= pageCount}
+                        data-testid="button-next-page"
+                      >
+                        次へ
+                        <ChevronRight className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
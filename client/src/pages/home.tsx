@@ -5,14 +5,16 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import StatisticsCard from "@/components/reports/statistics-card";
+import TurnaroundCard from "@/components/reports/turnaround-card";
 import ReportDetailModal from "@/components/reports/report-detail-modal";
-import { ReportWithDetails } from "@shared/schema";
+import { ReportStatistics, ReportWithDetails } from "@shared/schema";
 import { Phone, Clock, CheckCircle, AlertTriangle, Plus, Eye, Edit } from "lucide-react";
 
 export default function Home() {
@@ -35,7 +37,10 @@ export default function Home() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  const { data: statistics, isLoading: statsLoading } = useQuery({
+  const roles: string[] = JSON.parse((user as any)?.roles || '[]');
+  const canApprove = roles.includes('approver') || roles.includes('admin');
+
+  const { data: statistics, isLoading: statsLoading } = useQuery<ReportStatistics>({
     queryKey: ["/api/statistics"],
     retry: false,
   });
@@ -51,6 +56,8 @@ export default function Home() {
       pending_approval: { label: "承認待ち", variant: "default" as const },
       approved: { label: "承認済み", variant: "default" as const },
       rejected: { label: "差し戻し", variant: "destructive" as const },
+      withdrawn: { label: "取り下げ", variant: "secondary" as const },
+      archived: { label: "アーカイブ", variant: "outline" as const },
     };
 
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.draft;
@@ -92,11 +99,27 @@ export default function Home() {
         
         <main className="p-6">
           <div className="space-y-6">
+            {!!statistics?.overdueApprovals && (
+              <Alert variant="destructive" data-testid="alert-sla-overdue">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between">
+                  <span>承認期限を超過している報告書が{statistics.overdueApprovals}件あります</span>
+                  {canApprove && (
+                    <Link href="/approval">
+                      <Button variant="outline" size="sm" data-testid="button-open-overdue-approvals">
+                        承認待ちを確認
+                      </Button>
+                    </Link>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Statistics Cards */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               <StatisticsCard
                 title="今日の問い合わせ"
-                value={(statistics as any)?.todayInquiries || 0}
+                value={statistics?.todayInquiries || 0}
                 icon={<Phone className="text-primary text-xl" />}
                 bgColor="bg-primary/10"
                 loading={statsLoading}
@@ -104,7 +127,7 @@ export default function Home() {
               />
               <StatisticsCard
                 title="承認待ち"
-                value={(statistics as any)?.pendingApprovals || 0}
+                value={statistics?.pendingApprovals || 0}
                 icon={<Clock className="text-warning text-xl" />}
                 bgColor="bg-warning/10"
                 textColor="text-warning"
@@ -113,7 +136,7 @@ export default function Home() {
               />
               <StatisticsCard
                 title="今月完了"
-                value={(statistics as any)?.monthlyCompleted || 0}
+                value={statistics?.monthlyCompleted || 0}
                 icon={<CheckCircle className="text-success text-xl" />}
                 bgColor="bg-success/10"
                 textColor="text-success"
@@ -121,8 +144,8 @@ export default function Home() {
                 data-testid="card-monthly-completed"
               />
               <StatisticsCard
-                title="エスカレーション"
-                value={(statistics as any)?.escalations || 0}
+                title="今月のエスカレーション"
+                value={statistics?.escalations || 0}
                 icon={<AlertTriangle className="text-destructive text-xl" />}
                 bgColor="bg-destructive/10"
                 textColor="text-destructive"
@@ -131,6 +154,8 @@ export default function Home() {
               />
             </div>
 
+            {canApprove && <TurnaroundCard />}
+
             {/* Recent Reports Table */}
             <Card>
               <CardHeader className="border-b border-border">
@@ -201,7 +226,7 @@ export default function Home() {
                                 >
                                   <Eye className="h-4 w-4" />
                                 </Button>
-                                {report.status === 'draft' && (
+                                {['draft', 'rejected', 'withdrawn'].includes(report.status) && (
                                   <Link href={`/reports/${report.id}/edit`}>
                                     <Button
                                       variant="ghost"
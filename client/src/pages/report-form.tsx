@@ -5,6 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useLocation, Link } from "wouter";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
@@ -18,8 +19,13 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
-import { insertReportSchema, submitReportForApprovalSchema } from "@shared/schema";
-import { ArrowLeft, Save, Send } from "lucide-react";
+import { fillReportTemplate } from "@/lib/reportTemplates";
+import { flattenInquiryCategories } from "@/lib/inquiryCategories";
+import { InquiryCategory, ReportTemplate, insertReportSchema, submitReportForApprovalSchema } from "@shared/schema";
+import ReportComments from "@/components/reports/report-comments";
+import CustomerLookup, { CONTACT_SUGGESTIONS_ID, CUSTOMER_SUGGESTIONS_ID } from "@/components/reports/customer-lookup";
+import BankBranchFields from "@/components/reports/bank-branch-fields";
+import { ArrowLeft, MessageSquare, Save, Send, X } from "lucide-react";
 
 const reportFormSchema = insertReportSchema.extend({
   escalationRequired: z.boolean(),
@@ -33,6 +39,7 @@ export default function ReportForm() {
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
   const [location] = useLocation();
   const [, navigate] = useLocation();
+  const [tagInput, setTagInput] = useState("");
 
   // Extract report ID from URL for editing
   const isEdit = location.includes('/edit');
@@ -66,6 +73,8 @@ export default function ReportForm() {
       responseContent: "",
       escalationRequired: false,
       escalationReason: "",
+      categoryId: null,
+      tags: [],
       handlerId: user?.id || "",
     },
   });
@@ -91,11 +100,67 @@ export default function ReportForm() {
         responseContent: data.responseContent,
         escalationRequired: data.escalationRequired,
         escalationReason: data.escalationReason || "",
+        categoryId: data.categoryId ?? null,
+        tags: data.tags ?? [],
       });
     }
   }, [existingReport, form]);
 
 
+  const { data: templates = [] } = useQuery<ReportTemplate[]>({
+    queryKey: ["/api/report-templates"],
+    retry: false,
+  });
+  const activeTemplates = templates.filter((template) => template.isActive);
+
+  const { data: categories = [] } = useQuery<InquiryCategory[]>({
+    queryKey: ["/api/inquiry-categories"],
+    retry: false,
+  });
+  // Inactive categories stay selectable only when the report already uses them
+  const categoryOptions = flattenInquiryCategories(categories)
+    .filter(({ category }) => category.isActive || category.id === form.getValues("categoryId"));
+
+  const { data: knownTags = [] } = useQuery<string[]>({
+    queryKey: ["/api/report-tags"],
+    retry: false,
+  });
+
+  const tags = form.watch("tags") ?? [];
+
+  const addTags = (input: string) => {
+    const added = input.split(/[,、]/).map((tag) => tag.trim()).filter((tag) => tag && !tags.includes(tag));
+    if (added.length > 0) {
+      form.setValue("tags", [...tags, ...added], { shouldValidate: true, shouldDirty: true });
+    }
+    setTagInput("");
+  };
+
+  const removeTag = (tag: string) => {
+    form.setValue("tags", tags.filter((t) => t !== tag), { shouldValidate: true, shouldDirty: true });
+  };
+
+  // Prefill the content fields from a template, filling placeholders from the basic information
+  const applyTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const response = await apiRequest("POST", `/api/report-templates/${templateId}/use`);
+      return response.json() as Promise<ReportTemplate>;
+    },
+    onSuccess: (template) => {
+      const values = form.getValues();
+      form.setValue("inquiryContent", fillReportTemplate(template.inquiryContent, values), { shouldValidate: true, shouldDirty: true });
+      form.setValue("responseContent", fillReportTemplate(template.responseContent, values), { shouldValidate: true, shouldDirty: true });
+      queryClient.invalidateQueries({ queryKey: ["/api/report-templates"] });
+    },
+    onError: () => {
+      toast({
+        title: "テンプレートエラー",
+        description: "テンプレートの適用に失敗しました。",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Save draft mutation
   const saveDraftMutation = useMutation({
     mutationFn: async (data: ReportFormData) => {
@@ -160,6 +225,7 @@ export default function ReportForm() {
       });
       queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
       queryClient.invalidateQueries({ queryKey: ["/api/statistics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
       navigate("/");
     },
     onError: (error: Error) => {
@@ -174,9 +240,18 @@ export default function ReportForm() {
         }, 500);
         return;
       }
+      // Server-side checks (e.g. codes missing from the bank master) answer "400: {message, errors}"
+      const serverErrors = (() => {
+        try {
+          const body = JSON.parse(error.message.slice(error.message.indexOf(":") + 1));
+          return Array.isArray(body.errors) ? body.errors.filter((e: unknown) => typeof e === "string") : [];
+        } catch {
+          return [];
+        }
+      })();
       toast({
         title: "提出エラー",
-        description: "承認申請の提出に失敗しました。",
+        description: serverErrors.length > 0 ? serverErrors.join("\n") : "承認申請の提出に失敗しました。",
         variant: "destructive",
       });
     },
@@ -219,6 +294,12 @@ export default function ReportForm() {
           case "responseContent":
             errorMessage += "• 対応内容\n";
             break;
+          case "categoryId":
+            errorMessage += "• 問い合わせ分類\n";
+            break;
+          case "tags":
+            errorMessage += "• タグ\n";
+            break;
           default:
             errorMessage += `• ${error.message}\n`;
         }
@@ -298,6 +379,8 @@ export default function ReportForm() {
                             <FormControl>
                               <Input 
                                 placeholder="12345678" 
+                                list={CUSTOMER_SUGGESTIONS_ID}
+                                autoComplete="off"
                                 {...field} 
                                 data-testid="input-user-number"
                               />
@@ -307,41 +390,7 @@ export default function ReportForm() {
                         )}
                       />
                       
-                      <FormField
-                        control={form.control}
-                        name="bankCode"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>金融機関コード <span className="text-destructive">*</span></FormLabel>
-                            <FormControl>
-                              <Input 
-                                placeholder="0001" 
-                                {...field} 
-                                data-testid="input-bank-code"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={form.control}
-                        name="branchCode"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>支店コード <span className="text-destructive">*</span></FormLabel>
-                            <FormControl>
-                              <Input 
-                                placeholder="001" 
-                                {...field} 
-                                data-testid="input-branch-code"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
+                      <BankBranchFields />
                       
                       <FormField
                         control={form.control}
@@ -370,6 +419,8 @@ export default function ReportForm() {
                             <FormControl>
                               <Input 
                                 placeholder="田中太郎" 
+                                list={CONTACT_SUGGESTIONS_ID}
+                                autoComplete="off"
                                 {...field} 
                                 data-testid="input-contact-person"
                               />
@@ -379,16 +430,105 @@ export default function ReportForm() {
                         )}
                       />
                     </div>
+                    <CustomerLookup />
                   </CardContent>
                 </Card>
 
                 {/* Response Information */}
                 <Card>
                   <CardHeader>
-                    <CardTitle>対応情報</CardTitle>
+                    <div className="flex items-center justify-between gap-4">
+                      <CardTitle>対応情報</CardTitle>
+                      {activeTemplates.length > 0 && (
+                        <Select
+                          value=""
+                          onValueChange={(templateId) => applyTemplateMutation.mutate(templateId)}
+                          disabled={applyTemplateMutation.isPending}
+                        >
+                          <SelectTrigger className="w-64" data-testid="select-report-template">
+                            <SelectValue placeholder="テンプレートから入力" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activeTemplates.map((template) => (
+                              <SelectItem key={template.id} value={template.id}>
+                                {template.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                          control={form.control}
+                          name="categoryId"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>問い合わせ分類 <span className="text-destructive">*</span></FormLabel>
+                              <Select onValueChange={field.onChange} value={field.value ?? ""}>
+                                <FormControl>
+                                  <SelectTrigger data-testid="select-inquiry-category">
+                                    <SelectValue placeholder="分類を選択" />
+                                  </SelectTrigger>
+                                </FormControl>
+                                <SelectContent>
+                                  {categoryOptions.map(({ category, path }) => (
+                                    <SelectItem key={category.id} value={category.id}>{path}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="tags"
+                          render={() => (
+                            <FormItem>
+                              <FormLabel>タグ <span className="text-destructive">*</span></FormLabel>
+                              <FormControl>
+                                <Input
+                                  list="report-tag-suggestions"
+                                  placeholder="入力してEnter（カンマ区切りで複数可）"
+                                  value={tagInput}
+                                  onChange={(e) => setTagInput(e.target.value)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === "Enter") {
+                                      e.preventDefault();
+                                      addTags(tagInput);
+                                    }
+                                  }}
+                                  onBlur={() => addTags(tagInput)}
+                                  data-testid="input-report-tags"
+                                />
+                              </FormControl>
+                              <datalist id="report-tag-suggestions">
+                                {knownTags.filter((tag) => !tags.includes(tag)).map((tag) => (
+                                  <option key={tag} value={tag} />
+                                ))}
+                              </datalist>
+                              {tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1">
+                                  {tags.map((tag) => (
+                                    <Badge key={tag} variant="secondary" className="gap-1" data-testid={`badge-report-tag-${tag}`}>
+                                      {tag}
+                                      <button type="button" onClick={() => removeTag(tag)} aria-label={`${tag}を削除`}>
+                                        <X className="h-3 w-3" />
+                                      </button>
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      </div>
                       
                       <FormField
                         control={form.control}
@@ -502,6 +642,21 @@ export default function ReportForm() {
                 </div>
               </form>
             </Form>
+
+            {/* Reviewer feedback stays visible while the handler revises the report */}
+            {reportId && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <MessageSquare className="h-5 w-5" />
+                    コメント
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ReportComments reportId={reportId} canComment />
+                </CardContent>
+              </Card>
+            )}
           </div>
         </main>
       </div>
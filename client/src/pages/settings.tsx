@@ -19,6 +19,13 @@ import { apiRequest } from "@/lib/queryClient";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 import UserSwitcher from "@/components/user-switcher";
+import ApprovalRulesCard from "@/components/settings/approval-rules-card";
+import ApprovalDelegationCard from "@/components/settings/approval-delegation-card";
+import SegregationPolicyCard from "@/components/settings/segregation-policy-card";
+import ApprovalSlaCard from "@/components/settings/approval-sla-card";
+import ReportNumberFormatCard from "@/components/settings/report-number-format-card";
+import ReportTemplatesCard from "@/components/settings/report-templates-card";
+import InquiryCategoriesCard from "@/components/settings/inquiry-categories-card";
 
 // プロファイル更新スキーマ
 const profileSchema = z.object({
@@ -51,6 +58,16 @@ export default function Settings() {
     retry: false,
   });
 
+  const roles: string[] = (() => {
+    try {
+      return JSON.parse((user as any)?.roles || '[]');
+    } catch {
+      return [];
+    }
+  })();
+  const isAdmin = roles.includes('admin');
+  const isApprover = roles.includes('approver');
+
   // プロファイル更新フォーム
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
@@ -74,7 +91,7 @@ export default function Settings() {
   // プロファイル更新ミューテーション
   const profileMutation = useMutation({
     mutationFn: async (data: ProfileFormData) => {
-      const response = await apiRequest("PUT", `/api/users/${(user as any)?.id}`, data);
+      const response = await apiRequest("PATCH", "/api/auth/profile", data);
       return response.json();
     },
     onSuccess: () => {
@@ -541,6 +558,17 @@ export default function Settings() {
               </CardContent>
             </Card>
           )}
+
+          {/* 代理承認設定（承認者のみ） */}
+          {isApprover && <ApprovalDelegationCard currentUserId={(user as any).id} />}
+
+          {/* 承認ルート・職務分掌設定（管理者のみ） */}
+          {isAdmin && <ApprovalRulesCard />}
+          {isAdmin && <SegregationPolicyCard />}
+          {isAdmin && <ApprovalSlaCard />}
+          {isAdmin && <ReportNumberFormatCard />}
+          {isAdmin && <ReportTemplatesCard />}
+          {isAdmin && <InquiryCategoriesCard />}
         </TabsContent>
       </Tabs>
         </main>
@@ -15,6 +15,7 @@ import { z } from "zod";
 import { Plus, Edit, Trash2, Users, Shield, User } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { approvalLevelLabels } from "@/lib/reportLabels";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 
@@ -26,6 +27,7 @@ const userSchema = z.object({
   roles: z.enum(["handler", "approver", "admin"], {
     required_error: "役割を選択してください"
   }),
+  approvalLevel: z.number().int().min(1),
 });
 
 type UserFormData = z.infer<typeof userSchema>;
@@ -36,6 +38,7 @@ interface User {
   firstName: string;
   lastName: string;
   roles: string;
+  approvalLevel: number;
   createdAt: number;
   updatedAt: number;
 }
@@ -76,6 +79,7 @@ export default function UserManagement() {
       firstName: "",
       lastName: "",
       roles: "handler",
+      approvalLevel: 1,
     },
   });
 
@@ -161,6 +165,7 @@ export default function UserManagement() {
       firstName: user.firstName,
       lastName: user.lastName,
       roles: user.roles as "handler" | "approver" | "admin",
+      approvalLevel: user.approvalLevel ?? 1,
     });
   };
 
@@ -310,6 +315,33 @@ export default function UserManagement() {
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="approvalLevel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>承認レベル</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(Number(value))}
+                        value={String(field.value)}
+                        data-testid="select-approval-level"
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="承認レベルを選択" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(approvalLevelLabels).map(([level, label]) => (
+                            <SelectItem key={level} value={level}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 
                 <div className="flex gap-2 pt-4">
                   <Button 
@@ -4,6 +4,8 @@ export default defineConfig({
   out: "./migrations",
   schema: "./shared/schema.ts",
   dialect: "sqlite",
+  // The full-text index is a virtual table created at startup (server/db.ts)
+  tablesFilter: ["!reports_fts*"],
   dbCredentials: {
     url: "database.sqlite",
   },
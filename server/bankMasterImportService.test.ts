@@ -0,0 +1,83 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Branch, FinancialInstitution } from "@shared/schema";
+import { bankMasterImportService } from "./services/bankMasterImportService";
+
+test("a leading header row and byte order mark are skipped", () => {
+  const parsed = bankMasterImportService.parse("\uFEFF金融機関コード,支店コード,金融機関名,支店名\r\n0001,001,みずほ銀行,本店\r\n");
+
+  assert.deepEqual(parsed.errors, []);
+  assert.deepEqual(Array.from(parsed.institutions.values()), [{ bankCode: "0001", bankName: "みずほ銀行" }]);
+  assert.deepEqual(Array.from(parsed.branches.keys()), ["0001-001"]);
+});
+
+test("only the first line can be a header", () => {
+  const parsed = bankMasterImportService.parse("0001,001,みずほ銀行,本店\ncode,branch,bank,name");
+
+  assert.equal(parsed.branches.size, 1);
+  assert.deepEqual(parsed.errors, [{ line: 2, message: "金融機関コード「code」は4桁の数字ではありません" }]);
+});
+
+test("quoted fields may hold commas and doubled quotes", () => {
+  const parsed = bankMasterImportService.parse('"0005","001","三菱UFJ銀行","本店, 営業部"\n0009,002,"SMBC ""Trust""",  新宿  ');
+
+  assert.deepEqual(parsed.errors, []);
+  assert.equal(parsed.branches.get("0005-001")?.branchName, "本店, 営業部");
+  assert.equal(parsed.institutions.get("0009")?.bankName, 'SMBC "Trust"');
+  assert.equal(parsed.branches.get("0009-002")?.branchName, "新宿");
+});
+
+test("the Zengin layout takes the kanji names and an empty branch code lists the bank alone", () => {
+  const parsed = bankMasterImportService.parse("0001,001,ﾐｽﾞﾎ,みずほ銀行,ﾎﾝﾃﾝ,本店,1\n0009,,ﾐﾂｲｽﾐﾄﾓ,三井住友銀行,,");
+
+  assert.deepEqual(parsed.errors, []);
+  assert.deepEqual(parsed.branches.get("0001-001"), { bankCode: "0001", branchCode: "001", branchName: "本店" });
+  assert.equal(parsed.institutions.get("0009")?.bankName, "三井住友銀行");
+  assert.equal(parsed.branches.size, 1);
+});
+
+test("invalid lines are reported by line number and left out", () => {
+  const parsed = bankMasterImportService.parse([
+    "0001,001,みずほ銀行,本店",
+    "0001,002,みずほ",
+    "12,001,銀行,本店",
+    "0001,01,みずほ銀行,支店",
+    "0001,001,みずほ銀行,本店",
+    "0001,003,みずほ銀行株式会社,支店",
+  ].join("\n"));
+
+  assert.deepEqual(parsed.errors, [
+    { line: 2, message: "列数が不正です（4列または6列以上）" },
+    { line: 3, message: "金融機関コード「12」は4桁の数字ではありません" },
+    { line: 4, message: "支店コード「01」は3桁の数字ではありません" },
+    { line: 5, message: "支店0001-001が重複しています" },
+    { line: 6, message: "金融機関コード0001の名称が行によって異なります" },
+  ]);
+  assert.deepEqual(Array.from(parsed.branches.keys()), ["0001-001"]);
+});
+
+test("the diff lists additions, renames, reactivations and removals", () => {
+  const institutions = [
+    { id: "bank1", bankCode: "0001", bankName: "みずほ銀行", isActive: true },
+    { id: "bank2", bankCode: "0005", bankName: "三菱東京UFJ銀行", isActive: true },
+    { id: "bank3", bankCode: "0010", bankName: "りそな銀行", isActive: true },
+  ] as FinancialInstitution[];
+  const branches = [
+    { id: "branch1", institutionId: "bank1", branchCode: "001", branchName: "本店", isActive: false },
+    { id: "branch2", institutionId: "bank1", branchCode: "002", branchName: "丸の内", isActive: true },
+  ] as Branch[];
+  const parsed = bankMasterImportService.parse("0001,001,みずほ銀行,本店\n0005,001,三菱UFJ銀行,本店\n0009,,三井住友銀行,");
+
+  const diff = bankMasterImportService.diff(parsed, institutions, branches);
+
+  assert.deepEqual(diff.institutions, {
+    added: [{ bankCode: "0009", name: "三井住友銀行" }],
+    changed: [{ id: "bank2", bankCode: "0005", name: "三菱UFJ銀行", previousName: "三菱東京UFJ銀行" }],
+    removed: [{ id: "bank3", bankCode: "0010", name: "りそな銀行" }],
+  });
+  assert.deepEqual(diff.branches, {
+    added: [{ bankCode: "0005", branchCode: "001", name: "本店" }],
+    changed: [{ id: "branch1", bankCode: "0001", branchCode: "001", name: "本店", reactivated: true }],
+    removed: [{ id: "branch2", bankCode: "0001", branchCode: "002", name: "丸の内" }],
+  });
+});
@@ -3,6 +3,9 @@ import { drizzle } from 'drizzle-orm/better-sqlite3';
 import * as schema from "@shared/schema";
 import { migrate } from 'drizzle-orm/better-sqlite3/migrator';
 import path from 'path';
+import { sql } from 'drizzle-orm';
+import { passwordService } from './services/passwordService';
+import { reportSearchService } from './services/reportSearchService';
 
 const sqlite = new Database('database.sqlite');
 export const db = drizzle(sqlite, { schema });
@@ -15,14 +18,26 @@ const userCount = sqlite.prepare('SELECT COUNT(*) as count FROM users').get() as
 if (userCount.count === 0) {
   const currentTimestamp = Math.floor(Date.now() / 1000);
   
-  // パスワードは簡単な例として平文で保存（本番では必ずハッシュ化）
+  // 初期パスワードはscryptでハッシュ化して保存
+  const insertUser = sqlite.prepare(`
+    INSERT INTO users (id, username, password, first_name, last_name, roles, approval_level, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const defaultUsers: Array<[string, string, string, string, string, number]> = [
+    ['handler1', 'tanaka', '太郎', '田中', '["handler"]', 1],
+    ['handler2', 'sato', '花子', '佐藤', '["handler"]', 1],
+    ['approver1', 'suzuki', '次郎', '鈴木', '["approver"]', 2],
+    ['approver2', 'takahashi', '美咲', '高橋', '["handler","approver"]', 1],
+    ['admin1', 'tamura', '健太', '田村', '["admin"]', 1],
+  ];
+  for (const [id, username, firstName, lastName, roles, approvalLevel] of defaultUsers) {
+    insertUser.run(id, username, passwordService.hashSync('password123'), firstName, lastName, roles, approvalLevel, currentTimestamp, currentTimestamp);
+  }
+
+  // エスカレーション案件はチームリーダー → マネージャーの2段階承認
   sqlite.prepare(`
-    INSERT INTO users (id, username, password, first_name, last_name, roles, created_at, updated_at) VALUES 
-    ('handler1', 'tanaka', 'password123', '太郎', '田中', '["handler"]', ${currentTimestamp}, ${currentTimestamp}),
-    ('handler2', 'sato', 'password123', '花子', '佐藤', '["handler"]', ${currentTimestamp}, ${currentTimestamp}),
-    ('approver1', 'suzuki', 'password123', '次郎', '鈴木', '["approver"]', ${currentTimestamp}, ${currentTimestamp}),
-    ('approver2', 'takahashi', 'password123', '美咲', '高橋', '["handler","approver"]', ${currentTimestamp}, ${currentTimestamp}),
-    ('admin1', 'tamura', 'password123', '健太', '田村', '["admin"]', ${currentTimestamp}, ${currentTimestamp})
+    INSERT INTO approval_rules (id, name, escalation_required, bank_code, levels, priority, created_at, updated_at)
+    VALUES ('rule_escalation', 'エスカレーション案件', 1, NULL, '[1,2]', 10, ${currentTimestamp}, ${currentTimestamp})
   `).run();
   
   // Insert sample financial institutions
@@ -48,4 +63,53 @@ if (userCount.count === 0) {
       `branch_${bank.bank_code}_003`, bank.id, currentTimestamp
     );
   }
-}
\ No newline at end of file
+}
+
+// Submitting a report requires a category, so start with a default set the admin can edit later
+const categoryCount = sqlite.prepare('SELECT COUNT(*) as count FROM inquiry_categories').get() as { count: number };
+if (categoryCount.count === 0) {
+  const currentTimestamp = Math.floor(Date.now() / 1000);
+
+  const insertCategory = sqlite.prepare(`
+    INSERT INTO inquiry_categories (id, name, parent_id, sort_order, is_active, created_at, updated_at)
+    VALUES (?, ?, ?, ?, 1, ?, ?)
+  `);
+  const defaultCategories: Array<[string, string, string | null, number]> = [
+    ['category_transaction', '取引・決済', null, 10],
+    ['category_transaction_issue', '発生記録', 'category_transaction', 10],
+    ['category_transaction_transfer', '譲渡・分割', 'category_transaction', 20],
+    ['category_transaction_payment', '支払・決済', 'category_transaction', 30],
+    ['category_account', '利用申込・口座', null, 20],
+    ['category_system', 'システム操作', null, 30],
+    ['category_other', 'その他', null, 90],
+  ];
+  for (const [id, name, parentId, sortOrder] of defaultCategories) {
+    insertCategory.run(id, name, parentId, sortOrder, currentTimestamp, currentTimestamp);
+  }
+}
+
+// Full-text index over report text; reports saved before it existed are indexed here,
+// later saves keep it in sync from the storage layer
+reportSearchService.createIndex(db);
+const unindexedReports = db
+  .select()
+  .from(schema.reports)
+  .where(sql`${schema.reports.id} NOT IN (SELECT report_id FROM reports_fts)`)
+  .all();
+for (const report of unindexedReports) {
+  reportSearchService.indexReport(db, report);
+}
+
+// Submission and decision times of reports from before they were recorded, taken from the audit trail
+sqlite.prepare(`
+  UPDATE reports SET submitted_at = (
+    SELECT max(created_at) FROM report_events WHERE report_id = reports.id AND event_type = 'submitted'
+  )
+  WHERE submitted_at IS NULL AND status != 'draft'
+`).run();
+sqlite.prepare(`
+  UPDATE reports SET decided_at = (
+    SELECT max(created_at) FROM report_events WHERE report_id = reports.id AND event_type IN ('approved', 'rejected')
+  )
+  WHERE decided_at IS NULL AND status IN ('approved', 'rejected', 'archived')
+`).run();
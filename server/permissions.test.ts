@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import express, { type RequestHandler } from "express";
+import { registerRoutes } from "./routes";
+import { isAuthenticated } from "./replitAuth";
+import { findRoutePermissionViolations, requireRole } from "./permissions";
+
+const handler: RequestHandler = (_req, res) => {
+  res.end();
+};
+
+test("every registered API route matches routePermissions", async () => {
+  const app = express();
+  await registerRoutes(app);
+
+  assert.deepEqual(findRoutePermissionViolations(app), []);
+});
+
+test("missing, extra and unlisted guards are reported", () => {
+  const app = express();
+  app.get("/api/users", isAuthenticated, handler); // admin only
+  app.get("/api/report-tags", isAuthenticated, requireRole("admin"), handler); // any logged-in user
+  app.get("/api/statistics", handler); // needs a session
+  app.get("/api/unlisted", isAuthenticated, handler);
+
+  const violations = findRoutePermissionViolations(app);
+
+  assert.ok(violations.includes("GET /api/users must require roles [admin] (has [])"));
+  assert.ok(violations.includes("GET /api/report-tags must be open to any logged-in user (has [admin])"));
+  assert.ok(violations.includes("GET /api/statistics must use isAuthenticated"));
+  assert.ok(violations.includes("GET /api/unlisted is not listed in routePermissions"));
+  assert.ok(violations.includes("POST /api/users is listed in routePermissions but not registered"));
+});
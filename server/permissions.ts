@@ -0,0 +1,255 @@
+// Role-based access control for API routes
+import type { Express, RequestHandler } from "express";
+import type { Report, User } from "@shared/schema";
+import { storage } from "./storage";
+import { isAuthenticated } from "./replitAuth";
+
+export type Role = "handler" | "approver" | "admin";
+
+// "public" = no session required, "authenticated" = any logged-in user,
+// Role[] = logged-in user holding at least one of the listed roles
+export type RouteAccess = "public" | "authenticated" | Role[];
+
+/**
+ * Declared access level of every API endpoint, keyed by "METHOD path".
+ * assertRoutePermissions() checks the registered routes against this table
+ * at startup, so an endpoint missing from here (or guarded differently) fails fast.
+ */
+export const routePermissions: Record<string, RouteAccess> = {
+  // Auth
+  "POST /api/auth/login": "public",
+  "POST /api/auth/logout": "public",
+  "GET /api/auth/user": "authenticated",
+  "PATCH /api/auth/profile": "authenticated",
+  "POST /api/auth/change-password": "authenticated",
+
+  // User management
+  "GET /api/users": ["admin"],
+  "POST /api/users": ["admin"],
+  "PUT /api/users/:id": ["admin"],
+  "DELETE /api/users/:id": ["admin"],
+  "GET /api/users/by-role": "authenticated",
+
+  // Master data
+  "GET /api/financial-institutions": "authenticated",
+  "POST /api/financial-institutions": ["admin"],
+  "PUT /api/financial-institutions/:id": ["admin"],
+  "POST /api/financial-institutions/import/preview": ["admin"],
+  "POST /api/financial-institutions/import": ["admin"],
+  "GET /api/financial-institutions/:institutionId/branches": "authenticated",
+  "POST /api/branches": ["admin"],
+  "PUT /api/branches/:id": ["admin"],
+  "GET /api/customers": "authenticated",
+  "GET /api/customers/by-number/:userNumber": "authenticated",
+  "GET /api/customers/by-number/:userNumber/reports": "authenticated",
+  "GET /api/customers/by-number/:userNumber/timeline": "authenticated",
+  "POST /api/customers": ["handler", "admin"],
+  "PUT /api/customers/:id": ["handler", "admin"],
+  "POST /api/customers/:id/contacts": ["handler", "admin"],
+
+  // Report templates
+  "GET /api/report-templates": ["handler", "admin"],
+  "POST /api/report-templates": ["admin"],
+  "PUT /api/report-templates/:id": ["admin"],
+  "DELETE /api/report-templates/:id": ["admin"],
+  "POST /api/report-templates/:id/use": ["handler"],
+
+  // Inquiry categories and tags
+  "GET /api/inquiry-categories": "authenticated",
+  "POST /api/inquiry-categories": ["admin"],
+  "PUT /api/inquiry-categories/:id": ["admin"],
+  "DELETE /api/inquiry-categories/:id": ["admin"],
+  "GET /api/report-tags": "authenticated",
+
+  // Approval chains
+  "GET /api/approval-rules": ["admin"],
+  "POST /api/approval-rules": ["admin"],
+  "PUT /api/approval-rules/:id": ["admin"],
+  "DELETE /api/approval-rules/:id": ["admin"],
+  "GET /api/approval-delegations": ["approver", "admin"],
+  "POST /api/approval-delegations": ["approver"],
+  "DELETE /api/approval-delegations/:id": ["approver", "admin"],
+
+  // System settings
+  "GET /api/settings/segregation-policy": ["admin"],
+  "PUT /api/settings/segregation-policy": ["admin"],
+  "GET /api/settings/report-number-format": ["admin"],
+  "PUT /api/settings/report-number-format": ["admin"],
+  "GET /api/settings/report-number-format/preview": ["admin"],
+  "GET /api/settings/approval-sla": "authenticated",
+  "PUT /api/settings/approval-sla": ["admin"],
+
+  // Reports
+  "POST /api/reports": ["handler"],
+  "GET /api/reports": "authenticated",
+  "GET /api/reports/query": "authenticated",
+  "GET /api/reports/pending": ["approver", "admin"],
+  "GET /api/reports/:id": "authenticated",
+  "GET /api/reports/:id/history": "authenticated",
+  "GET /api/reports/:id/comments": "authenticated",
+  "POST /api/reports/:id/comments": ["handler", "approver"],
+  "PATCH /api/reports/:id/comments/:commentId/resolve": ["handler", "approver"],
+  "GET /api/reports/:id/attachments": "authenticated",
+  "POST /api/reports/:id/attachments": ["handler"],
+  "GET /api/reports/:id/attachments/:attachmentId": "authenticated",
+  "DELETE /api/reports/:id/attachments/:attachmentId": ["handler"],
+  "GET /api/reports/:id/revisions": "authenticated",
+  "GET /api/reports/:id/revisions/compare": "authenticated",
+  "PATCH /api/reports/:id": ["handler"],
+  "PATCH /api/reports/:id/status": ["approver"],
+  "PATCH /api/reports/:id/submit": ["handler"],
+  "PATCH /api/reports/:id/withdraw": ["handler"],
+  "PATCH /api/reports/:id/archive": ["admin"],
+  "GET /api/statistics": "authenticated",
+  "GET /api/statistics/turnaround": ["approver", "admin"],
+
+  // Saved searches
+  "GET /api/saved-searches": "authenticated",
+  "POST /api/saved-searches": "authenticated",
+  "PUT /api/saved-searches/:id": "authenticated",
+  "DELETE /api/saved-searches/:id": "authenticated",
+
+  // Printing / PDF
+  "GET /api/reports/:id/pdf": "authenticated",
+  "GET /api/printers": "authenticated",
+  "POST /api/reports/:id/print": "authenticated",
+  "POST /api/reports/:id/print-pdf": "authenticated",
+  "POST /api/reports/:id/save-pdf": "authenticated",
+  "GET /api/reports/pdf-files": "authenticated",
+  "GET /api/reports/pdf-files/:filename": "authenticated",
+  "GET /api/reports/today-approved": "authenticated",
+  "POST /api/reports/bulk-print-today": "authenticated",
+
+  // Debug endpoints
+  "GET /api/test/reports": ["admin"],
+  "GET /api/test/status": ["admin"],
+  "PATCH /api/test/approve/:id": ["admin"],
+  "GET /api/test/pdf/:id": ["admin"],
+};
+
+// Helper function to check if user has required role
+export function hasRole(user: any, requiredRole: string): boolean {
+  try {
+    const roles = JSON.parse(user.roles);
+    return roles.includes(requiredRole);
+  } catch (error) {
+    console.error('Error parsing user roles:', error);
+    return false;
+  }
+}
+
+/**
+ * Visibility rule for a customer's inquiry history. Anyone who may answer the
+ * customer's next call sees every submitted report, whoever handled it.
+ * Drafts are unfinished and stay visible only to their handler and to admins.
+ */
+export function canViewInCustomerHistory(user: User, report: Pick<Report, "handlerId" | "status">): boolean {
+  if (report.status !== "draft") return true;
+  return report.handlerId === user.id || hasRole(user, "admin");
+}
+
+type RoleGuard = RequestHandler & { requiredRoles: Role[] };
+
+/**
+ * Allow the request only if the logged-in user holds at least one of the roles.
+ * Must be placed after isAuthenticated.
+ */
+export function requireAnyRole(roles: Role[]): RoleGuard {
+  const guard: RequestHandler = async (req: any, res, next) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (!roles.some(role => hasRole(user, role))) {
+        return res.status(403).json({ message: `Not authorized - ${roles.join(" or ")} role required` });
+      }
+
+      next();
+    } catch (error) {
+      console.error("Error checking user role:", error);
+      res.status(500).json({ message: "Failed to check permissions" });
+    }
+  };
+
+  return Object.assign(guard, { requiredRoles: roles });
+}
+
+export function requireRole(role: Role): RoleGuard {
+  return requireAnyRole([role]);
+}
+
+/**
+ * Compare the API routes registered on the app with routePermissions.
+ * Returns one message per mismatch; an empty array means every route is covered.
+ */
+export function findRoutePermissionViolations(app: Express): string[] {
+  const violations: string[] = [];
+  const registered = new Set<string>();
+  const stack: any[] = (app as any)._router?.stack ?? [];
+
+  for (const layer of stack) {
+    const route = layer.route;
+    if (!route || typeof route.path !== "string" || !route.path.startsWith("/api")) {
+      continue;
+    }
+
+    const handlers = route.stack.map((routeLayer: any) => routeLayer.handle);
+    const guard = handlers.find((handler: any) => Array.isArray(handler.requiredRoles)) as RoleGuard | undefined;
+    const authenticated = handlers.includes(isAuthenticated);
+
+    for (const method of Object.keys(route.methods)) {
+      const key = `${method.toUpperCase()} ${route.path}`;
+      const expected = routePermissions[key];
+      registered.add(key);
+
+      if (expected === undefined) {
+        violations.push(`${key} is not listed in routePermissions`);
+        continue;
+      }
+
+      if (expected === "public") {
+        continue;
+      }
+
+      if (!authenticated) {
+        violations.push(`${key} must use isAuthenticated`);
+        continue;
+      }
+
+      const actual = guard?.requiredRoles ?? [];
+      if (expected === "authenticated") {
+        if (actual.length > 0) {
+          violations.push(`${key} must be open to any logged-in user (has [${actual.join(", ")}])`);
+        }
+        continue;
+      }
+
+      const matches = actual.length === expected.length && expected.every(role => actual.includes(role));
+      if (!matches) {
+        violations.push(`${key} must require roles [${expected.join(", ")}] (has [${actual.join(", ")}])`);
+      }
+    }
+  }
+
+  for (const key of Object.keys(routePermissions)) {
+    if (!registered.has(key)) {
+      violations.push(`${key} is listed in routePermissions but not registered`);
+    }
+  }
+
+  return violations;
+}
+
+export function assertRoutePermissions(app: Express): void {
+  const violations = findRoutePermissionViolations(app);
+  if (violations.length > 0) {
+    throw new Error(`Route permission check failed:\n${violations.join("\n")}`);
+  }
+}
@@ -2,6 +2,7 @@
 import session from "express-session";
 import type { Express, RequestHandler } from "express";
 import { storage } from "./storage";
+import { passwordService } from "./services/passwordService";
 
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
@@ -38,8 +39,13 @@ export async function setupAuth(app: Express) {
     }
 
     try {
-      const user = await storage.getUserByUsername(username);
-      if (user && user.password === password) {
+      const found = await storage.getUserByUsername(username);
+      if (found && await passwordService.verify(password, found.password)) {
+        // 平文・旧パラメータのパスワードはログイン成功時にハッシュ化し直す
+        const user = passwordService.needsRehash(found.password)
+          ? await storage.updateUser(found.id, { password })
+          : found;
+
         // セッションに保存
         (req.session as any).userId = user.id;
         (req.session as any).user = user; // ユーザー情報も保存
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { defaultReportNumberFormat, type ReportNumberFormat } from "@shared/schema";
+import { reportNumberService } from "./services/reportNumberService";
+
+const format = (overrides: Partial<ReportNumberFormat>): ReportNumberFormat => ({ ...defaultReportNumberFormat, ...overrides });
+
+test("periods follow the JST calendar", () => {
+  // 2026-01-01 00:00 JST, still New Year's Eve in UTC
+  const newYear = new Date("2025-12-31T15:00:00Z");
+
+  assert.equal(reportNumberService.periodKey(format({ period: "month" }), newYear), "2026-01");
+  assert.equal(reportNumberService.periodKey(format({ period: "year" }), newYear), "2026");
+  assert.equal(reportNumberService.periodKey(format({ period: "none" }), newYear), "");
+});
+
+test("the fiscal year rolls over on the first day of the start month", () => {
+  const fiscal = format({ period: "fiscal_year", fiscalYearStartMonth: 4 });
+
+  assert.equal(reportNumberService.periodKey(fiscal, new Date("2026-03-31T14:59:59Z")), "FY2025");
+  assert.equal(reportNumberService.periodKey(fiscal, new Date("2026-03-31T15:00:00Z")), "FY2026");
+  assert.equal(reportNumberService.periodKey(format({ period: "fiscal_year", fiscalYearStartMonth: 1 }), new Date("2026-01-15T00:00:00Z")), "FY2026");
+});
+
+test("scopes leave out empty parts and stand in for a missing bank code", () => {
+  const date = new Date("2026-10-19T00:00:00Z");
+
+  assert.equal(reportNumberService.scope(format({ includeBankCode: true }), date, "0001"), "RPT-0001-2026-10");
+  assert.equal(reportNumberService.scope(format({ includeBankCode: true }), date, "  "), "RPT-0000-2026-10");
+  assert.equal(reportNumberService.scope(format({ prefix: "", period: "none" }), date, "0001"), "");
+});
+
+test("sequences are padded but never cut", () => {
+  assert.equal(reportNumberService.format("RPT-2026-10", 7, format({ padding: 3 })), "RPT-2026-10-007");
+  assert.equal(reportNumberService.format("RPT-2026-10", 1234, format({ padding: 3 })), "RPT-2026-10-1234");
+  assert.equal(reportNumberService.format("", 7, format({ padding: 4 })), "0007");
+});
+
+test("a new counter continues after the numbers already issued in its scope", () => {
+  const issued = [
+    "RPT-2026-10-009",
+    "RPT-2026-10-010",
+    "RPT-2026-11-099", // another month
+    "RPT-2026-100-001", // a scope that only shares the prefix
+    "RPT-2026-10-X01", // not a sequence
+  ];
+
+  assert.equal(reportNumberService.maxSequence("RPT-2026-10", issued), 10);
+  assert.equal(reportNumberService.maxSequence("RPT-2026-12", issued), 0);
+  assert.equal(reportNumberService.maxSequence("", ["5", "12", "RPT-2026-10-099"]), 12);
+});
@@ -0,0 +1,68 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { sql } from "drizzle-orm";
+import { reportSearchFields, type Report, type ReportSearchField } from "@shared/schema";
+import { reportSearchService } from "./services/reportSearchService";
+
+type SearchableReport = Pick<Report, "id" | ReportSearchField>;
+
+const report = (id: string, fields: Partial<SearchableReport>): SearchableReport => ({
+  ...(Object.fromEntries(reportSearchFields.map((field) => [field, ""])) as Record<ReportSearchField, string>),
+  id,
+  ...fields,
+});
+
+test("width, case and katakana are folded for matching", () => {
+  assert.equal(reportSearchService.normalize("ｶﾌﾞｼｷｶﾞｲｼｬ ＡＢＣ"), "かぶしきがいしゃ abc");
+  assert.deepEqual(reportSearchService.parseQuery("  テスト  てすと ＴＥＳＴ "), ["てすと", "test"]);
+  assert.deepEqual(reportSearchService.parseQuery("   "), []);
+});
+
+test("snippets highlight the original text, combining marks included", () => {
+  const snippet = reportSearchService.buildSnippet(report("r1", { companyName: "ｶﾌﾞｼｷｶﾞｲｼｬ テスト" }), ["がいしゃ"]);
+
+  assert.deepEqual(snippet, {
+    field: "companyName",
+    segments: [
+      { text: "ｶﾌﾞｼｷ", highlighted: false },
+      { text: "ｶﾞｲｼｬ", highlighted: true },
+      { text: " テスト", highlighted: false },
+    ],
+  });
+});
+
+test("long fields are cut around the first match", () => {
+  const text = `${"あ".repeat(50)}ターゲット${"い".repeat(200)}`;
+  const snippet = reportSearchService.buildSnippet(report("r1", { inquiryContent: text }), ["たーげっと"]);
+
+  assert.equal(snippet?.field, "inquiryContent");
+  assert.deepEqual(snippet?.segments, [
+    { text: "…", highlighted: false },
+    { text: "あ".repeat(30), highlighted: false },
+    { text: "ターゲット", highlighted: true },
+    { text: "い".repeat(85), highlighted: false },
+    { text: "…", highlighted: false },
+  ]);
+  assert.equal(reportSearchService.buildSnippet(report("r2", { inquiryContent: text }), ["なし"]), null);
+});
+
+test("matches need every term, short terms included", () => {
+  const db = drizzle(new Database(":memory:"));
+  reportSearchService.createIndex(db);
+  reportSearchService.indexReport(db, report("r1", { companyName: "株式会社テスト" }));
+  reportSearchService.indexReport(db, report("r2", { companyName: "株式会社サンプル" }));
+  reportSearchService.indexReport(db, report("r3", { companyName: "テスト商事", inquiryContent: "100% 完了" }));
+
+  const find = (query: string) => {
+    const matches = reportSearchService.matchQuery(reportSearchService.parseQuery(query));
+    return matches ? db.all<{ report_id: string }>(sql`SELECT report_id FROM (${matches}) ORDER BY rank`).map((row) => row.report_id) : null;
+  };
+
+  assert.equal(find(""), null);
+  assert.deepEqual(find("株式 ﾃｽﾄ"), ["r1"]);
+  assert.deepEqual(find("ﾃｽﾄ").sort(), ["r1", "r3"]);
+  assert.deepEqual(find("%"), ["r3"]); // LIKE wildcards are taken literally
+  assert.deepEqual(find('"テスト'), []); // FTS syntax characters too
+});
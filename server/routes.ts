@@ -1,64 +1,76 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type ReportVisibility } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
+import { hasRole, requireRole, requireAnyRole, assertRoutePermissions, canViewInCustomerHistory } from "./permissions";
 import { pdfService } from "./services/pdfService";
+import { passwordService } from "./services/passwordService";
+import { workflowService, WorkflowError } from "./services/workflowService";
+import { attachmentService, AttachmentError, MAX_ATTACHMENT_SIZE } from "./services/attachmentService";
+import { bankMasterImportService, MAX_BANK_MASTER_SIZE } from "./services/bankMasterImportService";
 import { 
   insertReportSchema, 
   submitReportForApprovalSchema,
   updateReportStatusSchema,
   insertFinancialInstitutionSchema,
   insertBranchSchema,
-  insertUserSchema // Added insertUserSchema
+  bankMasterImportSchema,
+  insertUserSchema, // Added insertUserSchema
+  insertApprovalRuleSchema,
+  insertApprovalDelegationSchema,
+  segregationPolicySchema,
+  approvalSlaSchema,
+  reportNumberFormatSchema,
+  insertReportCommentSchema,
+  insertReportTemplateSchema,
+  insertInquiryCategorySchema,
+  insertCustomerSchema,
+  insertCustomerContactSchema,
+  reportQuerySchema,
+  insertSavedSearchSchema,
+  statisticsQuerySchema,
+  type SavedSearchWithCount,
+  type User,
+  resolveReportCommentSchema
 } from "@shared/schema";
 import { z } from "zod";
 import { randomUUID } from "crypto";
 
-// Helper function to check if user has required role
-function hasRole(user: any, requiredRole: string): boolean {
-  try {
-    const roles = JSON.parse(user.roles);
-    return roles.includes(requiredRole);
-  } catch (error) {
-    console.error('Error parsing user roles:', error);
-    return false;
-  }
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
-  // Auth routes
-  app.post('/api/auth/logout', isAuthenticated, async (req: any, res) => {
+  // Auth routes (login/logout are registered in setupAuth)
+  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
     try {
-      req.session.destroy((err: any) => {
-        if (err) {
-          console.error('Error destroying session:', err);
-          return res.status(500).json({ message: 'Failed to logout' });
-        }
-        res.clearCookie('connect.sid');
-        res.json({ success: true, message: 'Logged out successfully' });
-      });
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      res.json({ ...user, password: undefined });
     } catch (error) {
-      console.error('Logout error:', error);
-      res.status(500).json({ message: 'Failed to logout' });
+      console.error("Error fetching user:", error);
+      res.status(500).json({ message: "Failed to fetch user" });
     }
   });
 
-  app.get('/api/auth/user', isAuthenticated, async (req: any, res) => {
+  // Self-service profile update (role changes go through the admin-only user routes)
+  app.patch('/api/auth/profile', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      res.json(user);
+      const profileData = insertUserSchema.pick({ firstName: true, lastName: true }).parse(req.body);
+      const user = await storage.updateUser(userId, profileData);
+      res.json({ ...user, password: undefined });
     } catch (error) {
-      console.error("Error fetching user:", error);
-      res.status(500).json({ message: "Failed to fetch user" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating profile:", error);
+        res.status(500).json({ message: "Failed to update profile" });
+      }
     }
   });
 
   // User management routes
-  app.get('/api/users', isAuthenticated, async (req, res) => {
+  app.get('/api/users', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       const users = await storage.getAllUsers();
       res.json(users);
@@ -68,7 +80,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/users', isAuthenticated, async (req, res) => {
+  app.post('/api/users', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       // バリデーションスキーマでリクエストボディを検証
       const validatedData = insertUserSchema.parse(req.body);
@@ -80,7 +92,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updatedAt: Math.floor(Date.now() / 1000),
       };
       const user = await storage.createUser(userData);
-      res.status(201).json(user);
+      res.status(201).json({ ...user, password: undefined });
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
@@ -91,7 +103,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/users/:id', isAuthenticated, async (req, res) => {
+  app.put('/api/users/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       const { id } = req.params;
       const userData = {
@@ -99,14 +111,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updatedAt: Math.floor(Date.now() / 1000),
       };
       const user = await storage.updateUser(id, userData);
-      res.json(user);
+      res.json({ ...user, password: undefined });
     } catch (error) {
       console.error("Error updating user:", error);
       res.status(500).json({ message: "Failed to update user" });
     }
   });
 
-  app.delete('/api/users/:id', isAuthenticated, async (req, res) => {
+  app.delete('/api/users/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       const { id } = req.params;
       await storage.deleteUser(id);
@@ -118,9 +130,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Financial institution routes
+  // ?includeInactive=true lists deactivated rows too, for master maintenance
   app.get('/api/financial-institutions', isAuthenticated, async (req, res) => {
     try {
-      const institutions = await storage.getFinancialInstitutions();
+      const institutions = await storage.getFinancialInstitutions(req.query.includeInactive === "true");
       res.json(institutions);
     } catch (error) {
       console.error("Error fetching financial institutions:", error);
@@ -128,9 +141,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/financial-institutions', isAuthenticated, async (req, res) => {
+  app.post('/api/financial-institutions', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       const validatedData = insertFinancialInstitutionSchema.parse(req.body);
+      if (await storage.getInstitutionByCode(validatedData.bankCode)) {
+        return res.status(409).json({ message: "この金融機関コードは既に登録されています" });
+      }
+
       const institution = await storage.createFinancialInstitution(validatedData);
       res.status(201).json(institution);
     } catch (error) {
@@ -143,175 +160,1202 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Customers and submitted reports must name an active bank and branch from the master data
+  const findBankCodeError = async (bankCode: string, branchCode: string) => {
+    const institution = await storage.getInstitutionByCode(bankCode);
+    if (!institution || !institution.isActive) {
+      return "金融機関コードが登録されていません";
+    }
+    const branch = await storage.getBranchByCode(institution.id, branchCode);
+    if (!branch || !branch.isActive) {
+      return "支店コードが登録されていません";
+    }
+    return null;
+  };
+
+  // Codes are printed on existing reports, so only the name and active flag can change
+  const updateFinancialInstitutionSchema = insertFinancialInstitutionSchema.pick({ bankName: true, isActive: true }).partial();
+  const updateBranchSchema = insertBranchSchema.pick({ branchName: true, isActive: true }).partial();
+
+  app.put('/api/financial-institutions/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateFinancialInstitutionSchema.parse(req.body);
+      const institution = await storage.updateFinancialInstitution(id, validatedData);
+      if (!institution) {
+        return res.status(404).json({ message: "Financial institution not found" });
+      }
+      res.json(institution);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating financial institution:", error);
+        res.status(500).json({ message: "Failed to update financial institution" });
+      }
+    }
+  });
+
+  // Parses the uploaded master and compares it with the current rows, inactive ones included
+  const buildBankMasterImportDiff = async (csv: string) => {
+    const parsed = bankMasterImportService.parse(csv);
+    const [institutions, branches] = await Promise.all([
+      storage.getFinancialInstitutions(true),
+      storage.getAllBranches(),
+    ]);
+    return bankMasterImportService.diff(parsed, institutions, branches);
+  };
+
+  // The CSV is posted as the raw text body; the full master exceeds the JSON parser's limit
+  const bankMasterBody = express.text({ type: () => true, limit: MAX_BANK_MASTER_SIZE });
+
+  app.post('/api/financial-institutions/import/preview', isAuthenticated, requireRole('admin'), bankMasterBody, async (req, res) => {
+    try {
+      const csv = bankMasterImportSchema.parse(req.body);
+      res.json(await buildBankMasterImportDiff(csv));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error previewing bank master import:", error);
+        res.status(500).json({ message: "Failed to preview bank master import" });
+      }
+    }
+  });
+
+  // The diff is recomputed rather than trusted from the client; files with errors are rejected whole
+  app.post('/api/financial-institutions/import', isAuthenticated, requireRole('admin'), bankMasterBody, async (req, res) => {
+    try {
+      const csv = bankMasterImportSchema.parse(req.body);
+      const diff = await buildBankMasterImportDiff(csv);
+      if (diff.errors.length > 0) {
+        return res.status(400).json({ message: "CSVにエラーがあるため取り込めません", errors: diff.errors });
+      }
+
+      await storage.applyBankMasterImport(diff);
+      res.json(diff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error importing bank master:", error);
+        res.status(500).json({ message: "Failed to import bank master" });
+      }
+    }
+  });
+
   app.get('/api/financial-institutions/:institutionId/branches', isAuthenticated, async (req, res) => {
     try {
       const { institutionId } = req.params;
-      const branches = await storage.getBranches(institutionId);
+      const branches = await storage.getBranches(institutionId, req.query.includeInactive === "true");
       res.json(branches);
     } catch (error) {
-      console.error("Error fetching branches:", error);
-      res.status(500).json({ message: "Failed to fetch branches" });
+      console.error("Error fetching branches:", error);
+      res.status(500).json({ message: "Failed to fetch branches" });
+    }
+  });
+
+  app.post('/api/branches', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = insertBranchSchema.parse(req.body);
+      if (await storage.getBranchByCode(validatedData.institutionId, validatedData.branchCode)) {
+        return res.status(409).json({ message: "この支店コードは既に登録されています" });
+      }
+
+      const branch = await storage.createBranch(validatedData);
+      res.status(201).json(branch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating branch:", error);
+        res.status(500).json({ message: "Failed to create branch" });
+      }
+    }
+  });
+
+  app.put('/api/branches/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = updateBranchSchema.parse(req.body);
+      const branch = await storage.updateBranch(id, validatedData);
+      if (!branch) {
+        return res.status(404).json({ message: "Branch not found" });
+      }
+      res.json(branch);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating branch:", error);
+        res.status(500).json({ message: "Failed to update branch" });
+      }
+    }
+  });
+
+  // Customer (利用者) master; handlers register customers while writing reports
+  app.get('/api/customers', isAuthenticated, async (req, res) => {
+    try {
+      const search = String(req.query.search ?? "").trim();
+      const customers = search ? await storage.searchCustomers(search) : [];
+      res.json(customers);
+    } catch (error) {
+      console.error("Error searching customers:", error);
+      res.status(500).json({ message: "Failed to search customers" });
+    }
+  });
+
+  app.get('/api/customers/by-number/:userNumber', isAuthenticated, async (req, res) => {
+    try {
+      const customer = await storage.getCustomerByUserNumber(req.params.userNumber);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(customer);
+    } catch (error) {
+      console.error("Error looking up customer:", error);
+      res.status(500).json({ message: "Failed to look up customer" });
+    }
+  });
+
+  // The customer's inquiry history across all handlers, filtered by canViewInCustomerHistory
+  const getVisibleCustomerReports = async (userId: string, userNumber: string) => {
+    const user = await storage.getUser(userId);
+    if (!user) return [];
+
+    const reports = await storage.getReportsByUserNumber(userNumber);
+    return reports.filter(report => canViewInCustomerHistory(user, report));
+  };
+
+  app.get('/api/customers/by-number/:userNumber/reports', isAuthenticated, async (req: any, res) => {
+    try {
+      const reports = await getVisibleCustomerReports(req.user.claims.sub, req.params.userNumber);
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching customer reports:", error);
+      res.status(500).json({ message: "Failed to fetch customer reports" });
+    }
+  });
+
+  app.get('/api/customers/by-number/:userNumber/timeline', isAuthenticated, async (req: any, res) => {
+    try {
+      const reports = await getVisibleCustomerReports(req.user.claims.sub, req.params.userNumber);
+      const events = await storage.getReportEvents(reports.map(report => report.id));
+      res.json(events.reverse());
+    } catch (error) {
+      console.error("Error fetching customer timeline:", error);
+      res.status(500).json({ message: "Failed to fetch customer timeline" });
+    }
+  });
+
+  app.post('/api/customers', isAuthenticated, requireAnyRole(['handler', 'admin']), async (req: any, res) => {
+    try {
+      const validatedData = insertCustomerSchema.parse(req.body);
+      if (await storage.getCustomerByUserNumber(validatedData.userNumber)) {
+        return res.status(409).json({ message: "この利用者番号は登録済みです" });
+      }
+
+      const bankError = await findBankCodeError(validatedData.bankCode, validatedData.branchCode);
+      if (bankError) {
+        return res.status(400).json({ message: bankError });
+      }
+
+      const customer = await storage.createCustomer(validatedData, req.user.claims.sub);
+      res.status(201).json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating customer:", error);
+        res.status(500).json({ message: "Failed to create customer" });
+      }
+    }
+  });
+
+  app.put('/api/customers/:id', isAuthenticated, requireAnyRole(['handler', 'admin']), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const existing = await storage.getCustomer(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const validatedData = insertCustomerSchema.partial().parse(req.body);
+      if (validatedData.userNumber && validatedData.userNumber !== existing.userNumber
+        && await storage.getCustomerByUserNumber(validatedData.userNumber)) {
+        return res.status(409).json({ message: "この利用者番号は登録済みです" });
+      }
+
+      const bankError = await findBankCodeError(
+        validatedData.bankCode ?? existing.bankCode,
+        validatedData.branchCode ?? existing.branchCode,
+      );
+      if (bankError) {
+        return res.status(400).json({ message: bankError });
+      }
+
+      const customer = await storage.updateCustomer(id, validatedData);
+      res.json(customer);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating customer:", error);
+        res.status(500).json({ message: "Failed to update customer" });
+      }
+    }
+  });
+
+  app.post('/api/customers/:id/contacts', isAuthenticated, requireAnyRole(['handler', 'admin']), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const customer = await storage.getCustomer(id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const validatedData = insertCustomerContactSchema.parse(req.body);
+      if (customer.contacts.some(contact => contact.name === validatedData.name)) {
+        return res.status(409).json({ message: "この連絡者は登録済みです" });
+      }
+
+      const contact = await storage.addCustomerContact(id, validatedData);
+      res.status(201).json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error adding customer contact:", error);
+        res.status(500).json({ message: "Failed to add customer contact" });
+      }
+    }
+  });
+
+  // Approval chain configuration
+  app.get('/api/approval-rules', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const rules = await storage.getApprovalRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching approval rules:", error);
+      res.status(500).json({ message: "Failed to fetch approval rules" });
+    }
+  });
+
+  app.post('/api/approval-rules', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = insertApprovalRuleSchema.parse(req.body);
+      const rule = await storage.createApprovalRule(validatedData);
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating approval rule:", error);
+        res.status(500).json({ message: "Failed to create approval rule" });
+      }
+    }
+  });
+
+  app.put('/api/approval-rules/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertApprovalRuleSchema.partial().parse(req.body);
+      const rule = await storage.updateApprovalRule(id, validatedData);
+
+      if (!rule) {
+        return res.status(404).json({ message: "Approval rule not found" });
+      }
+
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating approval rule:", error);
+        res.status(500).json({ message: "Failed to update approval rule" });
+      }
+    }
+  });
+
+  app.delete('/api/approval-rules/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteApprovalRule(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting approval rule:", error);
+      res.status(500).json({ message: "Failed to delete approval rule" });
+    }
+  });
+
+  // Report template routes; handlers read and use templates, admins maintain them
+  app.get('/api/report-templates', isAuthenticated, requireAnyRole(['handler', 'admin']), async (req, res) => {
+    try {
+      const templates = await storage.getReportTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching report templates:", error);
+      res.status(500).json({ message: "Failed to fetch report templates" });
+    }
+  });
+
+  app.post('/api/report-templates', isAuthenticated, requireRole('admin'), async (req: any, res) => {
+    try {
+      const validatedData = insertReportTemplateSchema.parse(req.body);
+      const template = await storage.createReportTemplate(validatedData, req.user.claims.sub);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating report template:", error);
+        res.status(500).json({ message: "Failed to create report template" });
+      }
+    }
+  });
+
+  app.put('/api/report-templates/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertReportTemplateSchema.partial().parse(req.body);
+      const template = await storage.updateReportTemplate(id, validatedData);
+
+      if (!template) {
+        return res.status(404).json({ message: "Report template not found" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating report template:", error);
+        res.status(500).json({ message: "Failed to update report template" });
+      }
+    }
+  });
+
+  app.delete('/api/report-templates/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      await storage.deleteReportTemplate(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting report template:", error);
+      res.status(500).json({ message: "Failed to delete report template" });
+    }
+  });
+
+  // Called when a handler applies a template to the form; counts the use
+  app.post('/api/report-templates/:id/use', isAuthenticated, requireRole('handler'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const template = await storage.recordReportTemplateUsage(id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Report template not found" });
+      }
+
+      res.json(template);
+    } catch (error) {
+      console.error("Error using report template:", error);
+      res.status(500).json({ message: "Failed to use report template" });
+    }
+  });
+
+  // Inquiry category routes; every user reads the taxonomy, admins maintain it
+  app.get('/api/inquiry-categories', isAuthenticated, async (req, res) => {
+    try {
+      const categories = await storage.getInquiryCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching inquiry categories:", error);
+      res.status(500).json({ message: "Failed to fetch inquiry categories" });
+    }
+  });
+
+  // Checks that the parent exists and is not the category itself or one of its subcategories
+  const findCategoryParentError = async (parentId: string | null | undefined, categoryId?: string) => {
+    if (!parentId) return null;
+
+    const categories = await storage.getInquiryCategories();
+    const byId = new Map(categories.map(category => [category.id, category]));
+    if (!byId.has(parentId)) {
+      return "親分類が見つかりません";
+    }
+
+    for (let current = byId.get(parentId); current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+      if (current.id === categoryId) {
+        return "分類を自身の下位に移動することはできません";
+      }
+    }
+    return null;
+  };
+
+  app.post('/api/inquiry-categories', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = insertInquiryCategorySchema.parse(req.body);
+      const parentError = await findCategoryParentError(validatedData.parentId);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      const category = await storage.createInquiryCategory(validatedData);
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating inquiry category:", error);
+        res.status(500).json({ message: "Failed to create inquiry category" });
+      }
+    }
+  });
+
+  app.put('/api/inquiry-categories/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertInquiryCategorySchema.partial().parse(req.body);
+      const parentError = await findCategoryParentError(validatedData.parentId, id);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      const category = await storage.updateInquiryCategory(id, validatedData);
+      if (!category) {
+        return res.status(404).json({ message: "Inquiry category not found" });
+      }
+
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating inquiry category:", error);
+        res.status(500).json({ message: "Failed to update inquiry category" });
+      }
+    }
+  });
+
+  app.delete('/api/inquiry-categories/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { id } = req.params;
+      const deleted = await storage.deleteInquiryCategory(id);
+      if (!deleted) {
+        return res.status(409).json({ message: "下位分類または報告書で使用されている分類は削除できません。無効にしてください" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting inquiry category:", error);
+      res.status(500).json({ message: "Failed to delete inquiry category" });
+    }
+  });
+
+  // Tags already used on reports, offered as suggestions while tagging
+  app.get('/api/report-tags', isAuthenticated, async (req, res) => {
+    try {
+      const tags = await storage.getAllReportTags();
+      res.json(tags);
+    } catch (error) {
+      console.error("Error fetching report tags:", error);
+      res.status(500).json({ message: "Failed to fetch report tags" });
+    }
+  });
+
+  // Approval delegation routes (out-of-office substitutes)
+  app.get('/api/approval-delegations', isAuthenticated, requireAnyRole(['approver', 'admin']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      // Admins see every delegation; approvers see the ones they gave or received
+      const delegations = await storage.getApprovalDelegations(hasRole(user, 'admin') ? undefined : userId);
+      res.json(delegations);
+    } catch (error) {
+      console.error("Error fetching approval delegations:", error);
+      res.status(500).json({ message: "Failed to fetch approval delegations" });
+    }
+  });
+
+  app.post('/api/approval-delegations', isAuthenticated, requireRole('approver'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertApprovalDelegationSchema.parse(req.body);
+
+      if (validatedData.delegateId === userId) {
+        return res.status(400).json({ message: "自分自身を代理承認者に指定することはできません" });
+      }
+
+      const delegate = await storage.getUser(validatedData.delegateId);
+      if (!delegate || !hasRole(delegate, 'approver')) {
+        return res.status(400).json({ message: "代理承認者には承認者を指定してください" });
+      }
+
+      const delegation = await storage.createApprovalDelegation(userId, validatedData);
+      res.status(201).json(delegation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating approval delegation:", error);
+        res.status(500).json({ message: "Failed to create approval delegation" });
+      }
+    }
+  });
+
+  app.delete('/api/approval-delegations/:id', isAuthenticated, requireAnyRole(['approver', 'admin']), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const delegation = await storage.getApprovalDelegation(id);
+      if (!delegation) {
+        return res.status(404).json({ message: "Approval delegation not found" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (delegation.delegatorId !== userId && !hasRole(user, 'admin')) {
+        return res.status(403).json({ message: "Not authorized to delete this delegation" });
+      }
+
+      await storage.deleteApprovalDelegation(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting approval delegation:", error);
+      res.status(500).json({ message: "Failed to delete approval delegation" });
+    }
+  });
+
+  // Segregation-of-duties policy routes
+  app.get('/api/settings/segregation-policy', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const policy = await storage.getSegregationPolicy();
+      res.json(policy);
+    } catch (error) {
+      console.error("Error fetching segregation policy:", error);
+      res.status(500).json({ message: "Failed to fetch segregation policy" });
+    }
+  });
+
+  app.put('/api/settings/segregation-policy', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = segregationPolicySchema.parse(req.body);
+      const policy = await storage.updateSegregationPolicy(validatedData);
+      res.json(policy);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating segregation policy:", error);
+        res.status(500).json({ message: "Failed to update segregation policy" });
+      }
+    }
+  });
+
+  // Approval SLA routes; everyone can read the threshold the approval queue is measured against
+  app.get('/api/settings/approval-sla', isAuthenticated, async (req, res) => {
+    try {
+      const sla = await storage.getApprovalSla();
+      res.json(sla);
+    } catch (error) {
+      console.error("Error fetching approval SLA:", error);
+      res.status(500).json({ message: "Failed to fetch approval SLA" });
+    }
+  });
+
+  app.put('/api/settings/approval-sla', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = approvalSlaSchema.parse(req.body);
+      const sla = await storage.updateApprovalSla(validatedData);
+      res.json(sla);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating approval SLA:", error);
+        res.status(500).json({ message: "Failed to update approval SLA" });
+      }
+    }
+  });
+
+  // Report numbering routes
+  app.get('/api/settings/report-number-format', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const format = await storage.getReportNumberFormat();
+      res.json(format);
+    } catch (error) {
+      console.error("Error fetching report number format:", error);
+      res.status(500).json({ message: "Failed to fetch report number format" });
+    }
+  });
+
+  app.put('/api/settings/report-number-format', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const validatedData = reportNumberFormatSchema.parse(req.body);
+      const format = await storage.updateReportNumberFormat(validatedData);
+      res.json(format);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating report number format:", error);
+        res.status(500).json({ message: "Failed to update report number format" });
+      }
+    }
+  });
+
+  app.get('/api/settings/report-number-format/preview', isAuthenticated, requireRole('admin'), async (req, res) => {
+    try {
+      const { bankCode } = req.query;
+      const reportNumber = await storage.previewReportNumber(bankCode as string | undefined);
+      res.json({ reportNumber });
+    } catch (error) {
+      console.error("Error previewing report number:", error);
+      res.status(500).json({ message: "Failed to preview report number" });
+    }
+  });
+
+  // Report routes
+  app.post('/api/reports', isAuthenticated, requireRole('handler'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      // Use different validation schemas based on whether this is for approval submission
+      if (req.body._submitForApproval) {
+        // Stricter validation for approval submission
+        const validatedData = submitReportForApprovalSchema.parse(req.body);
+        
+        const user = await storage.getUser(userId);
+        if (!user) {
+          return res.status(404).json({ message: "User not found" });
+        }
+
+        if (!await storage.getInquiryCategory(validatedData.categoryId!)) {
+          return res.status(400).json({ message: "入力項目に不備があります", errors: ["問い合わせ分類が見つかりません"] });
+        }
+        const bankError = await findBankCodeError(validatedData.bankCode, validatedData.branchCode);
+        if (bankError) {
+          return res.status(400).json({ message: "入力項目に不備があります", errors: [bankError] });
+        }
+
+        // Create the report as a draft, then submit it through the workflow
+        const draft = await storage.createReport({ 
+          ...validatedData, 
+          handlerId: userId,
+        });
+        const report = await storage.transitionReport(draft.id, 'submit', user);
+        
+        res.status(201).json(report);
+      } else {
+        // Lenient validation for draft save (allow partial data)
+        const validatedData = insertReportSchema.partial().parse(req.body);
+        if (validatedData.categoryId && !await storage.getInquiryCategory(validatedData.categoryId)) {
+          return res.status(400).json({ message: "入力項目に不備があります", errors: ["問い合わせ分類が見つかりません"] });
+        }
+        
+        // Create report as draft
+        const report = await storage.createReport({ 
+          ...validatedData, 
+          handlerId: userId,
+        });
+        
+        res.status(201).json(report);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorMessages = error.errors.map(err => {
+          switch (err.path[0]) {
+            case "userNumber":
+              return "利用者番号は必須です";
+            case "bankCode":
+              return "金融機関コードは必須です";
+            case "branchCode":
+              return "支店コードは必須です";
+            case "companyName":
+              return "企業名は必須です";
+            case "contactPersonName":
+              return "連絡者氏名は必須です";
+            case "inquiryContent":
+              return "問い合わせ内容は必須です";
+            case "responseContent":
+              return "対応内容は必須です";
+            default:
+              return err.message;
+          }
+        });
+        res.status(400).json({ 
+          message: "入力項目に不備があります", 
+          errors: errorMessages
+        });
+      } else {
+        console.error("Error creating report:", error);
+        res.status(500).json({ message: "Failed to create report" });
+      }
+    }
+  });
+
+  app.get('/api/reports', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      console.log('GET /api/reports - userId:', userId);
+      const user = await storage.getUser(userId);
+      console.log('GET /api/reports - user:', user);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const isApprover = hasRole(user, 'approver');
+      console.log('GET /api/reports - isApprover:', isApprover);
+
+      let reports;
+      const { status, search, categoryId, tag } = req.query;
+      const classification = { categoryId: categoryId as string | undefined, tag: tag as string | undefined };
+
+      if (search) {
+        console.log('GET /api/reports - search branch');
+        // For search, pass userId only if user is not an approver (approvers can search all reports)
+        reports = await storage.searchReports(search as string, isApprover ? undefined : userId, classification);
+      } else if (isApprover) {
+        console.log('GET /api/reports - approver branch');
+        // Approvers can see all pending approval reports, not just assigned to them
+        reports = await storage.getReportsForApproval(undefined, classification);
+      } else {
+        console.log('GET /api/reports - user branch');
+        reports = await storage.getReportsByUser(userId, status as string, classification);
+      }
+
+      console.log('GET /api/reports - final reports:', reports);
+      // Unpaged; paginated lists use /api/reports/query
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching reports:", error);
+      res.status(500).json({ message: "Failed to fetch reports" });
+    }
+  });
+
+  // Handlers see their own reports; approvers and admins see everyone's,
+  // except that other handlers' drafts are left to admins
+  const reportVisibilityFor = (user: User): ReportVisibility => ({
+    userId: user.id,
+    allHandlers: hasRole(user, 'approver') || hasRole(user, 'admin'),
+    othersDrafts: hasRole(user, 'admin'),
+  });
+
+  // Filtered, sorted and paginated report list for the history page
+  app.get('/api/reports/query', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const query = reportQuerySchema.parse(req.query);
+      const result = await storage.queryReports(query, reportVisibilityFor(user));
+      res.json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error querying reports:", error);
+        res.status(500).json({ message: "Failed to query reports" });
+      }
+    }
+  });
+
+  // Saved search routes; the user's own searches plus those shared by others, each with a live count
+  app.get('/api/saved-searches', isAuthenticated, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const visibility = reportVisibilityFor(user);
+      const searches = await storage.getSavedSearches(user.id);
+      const withCounts: SavedSearchWithCount[] = await Promise.all(searches.map(async (search) => {
+        // A search saved before the query format changed counts as matching nothing rather than failing the list
+        const query = reportQuerySchema.safeParse(search.query);
+        const count = query.success ? await storage.countReports(query.data, visibility) : 0;
+        return { ...search, count };
+      }));
+      res.json(withCounts);
+    } catch (error) {
+      console.error("Error fetching saved searches:", error);
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  app.post('/api/saved-searches', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertSavedSearchSchema.parse(req.body);
+      const search = await storage.createSavedSearch(userId, validatedData);
+      res.status(201).json(search);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error creating saved search:", error);
+        res.status(500).json({ message: "Failed to create saved search" });
+      }
+    }
+  });
+
+  app.put('/api/saved-searches/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const validatedData = insertSavedSearchSchema.partial().parse(req.body);
+
+      const search = await storage.getSavedSearch(id);
+      if (!search) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+      if (search.userId !== req.user.claims.sub) {
+        return res.status(403).json({ message: "Not authorized to update this saved search" });
+      }
+
+      const updated = await storage.updateSavedSearch(id, validatedData);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error updating saved search:", error);
+        res.status(500).json({ message: "Failed to update saved search" });
+      }
+    }
+  });
+
+  // Owners delete their searches; admins may also remove shared ones
+  app.delete('/api/saved-searches/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const search = await storage.getSavedSearch(id);
+      if (!search) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (search.userId !== userId && !(search.isShared && hasRole(user, 'admin'))) {
+        return res.status(403).json({ message: "Not authorized to delete this saved search" });
+      }
+
+      await storage.deleteSavedSearch(id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting saved search:", error);
+      res.status(500).json({ message: "Failed to delete saved search" });
+    }
+  });
+
+  // Get pending reports for approvers
+  app.get('/api/reports/pending', isAuthenticated, requireAnyRole(['approver', 'admin']), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      // Approvers only see the steps waiting on them; admins see every pending report
+      const reports = await storage.getReportsForApproval(user && hasRole(user, 'approver') ? userId : undefined);
+      res.json(reports);
+    } catch (error) {
+      console.error("Error fetching pending reports:", error);
+      res.status(500).json({ message: "Failed to fetch pending reports" });
+    }
+  });
+
+  app.get('/api/reports/:id', isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const report = await storage.getReport(id);
+      
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      res.status(500).json({ message: "Failed to fetch report" });
+    }
+  });
+
+  // Audit trail of a single report
+  app.get('/api/reports/:id/history', isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const report = await storage.getReport(id);
+
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const history = await storage.getReportHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching report history:", error);
+      res.status(500).json({ message: "Failed to fetch report history" });
+    }
+  });
+
+  // Comment thread of a single report; the report's handler and approvers take part
+  app.get('/api/reports/:id/comments', isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const report = await storage.getReport(id);
+
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const comments = await storage.getReportComments(id);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching report comments:", error);
+      res.status(500).json({ message: "Failed to fetch report comments" });
     }
   });
 
-  app.post('/api/branches', isAuthenticated, async (req, res) => {
+  app.post('/api/reports/:id/comments', isAuthenticated, requireAnyRole(['handler', 'approver']), async (req: any, res) => {
     try {
-      const validatedData = insertBranchSchema.parse(req.body);
-      const branch = await storage.createBranch(validatedData);
-      res.status(201).json(branch);
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const report = await storage.getReport(id);
+
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (!user || (report.handlerId !== userId && !hasRole(user, 'approver'))) {
+        return res.status(403).json({ message: "Not authorized to comment on this report" });
+      }
+
+      const validatedData = insertReportCommentSchema.parse(req.body);
+
+      // Replies attach to the top-level comment and share its field anchor
+      if (validatedData.parentId) {
+        const parent = await storage.getReportComment(validatedData.parentId);
+        if (!parent || parent.reportId !== id) {
+          return res.status(400).json({ message: "Parent comment not found" });
+        }
+        const root = (parent.parentId && await storage.getReportComment(parent.parentId)) || parent;
+        validatedData.parentId = root.id;
+        validatedData.fieldName = root.fieldName as typeof validatedData.fieldName;
+      }
+
+      const comment = await storage.createReportComment(id, userId, validatedData);
+      res.status(201).json(comment);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        console.error("Error creating branch:", error);
-        res.status(500).json({ message: "Failed to create branch" });
+        console.error("Error creating report comment:", error);
+        res.status(500).json({ message: "Failed to create report comment" });
       }
     }
   });
 
-  // Report routes
-  app.post('/api/reports', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/reports/:id/comments/:commentId/resolve', isAuthenticated, requireAnyRole(['handler', 'approver']), async (req: any, res) => {
     try {
+      const { id, commentId } = req.params;
       const userId = req.user.claims.sub;
-      
-      // Use different validation schemas based on whether this is for approval submission
-      if (req.body._submitForApproval) {
-        // Stricter validation for approval submission
-        const validatedData = submitReportForApprovalSchema.parse(req.body);
-        
-        // Create report and immediately set to pending_approval
-        const report = await storage.createReport({ 
-          ...validatedData, 
-          handlerId: userId,
-          approverId: null,
-          status: 'pending_approval'
-        });
-        
-        res.status(201).json(report);
-      } else {
-        // Lenient validation for draft save (allow partial data)
-        const validatedData = insertReportSchema.partial().parse(req.body);
-        
-        // Create report as draft
-        const report = await storage.createReport({ 
-          ...validatedData, 
-          handlerId: userId,
-          approverId: null,
-          status: 'draft'
-        });
-        
-        res.status(201).json(report);
+      const user = await storage.getUser(userId);
+      const report = await storage.getReport(id);
+      const comment = await storage.getReportComment(commentId);
+
+      if (!report || !comment || comment.reportId !== id) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+      if (!user || (report.handlerId !== userId && !hasRole(user, 'approver'))) {
+        return res.status(403).json({ message: "Not authorized to resolve this comment" });
       }
+
+      const { resolved } = resolveReportCommentSchema.parse(req.body);
+      const updated = await storage.setReportCommentResolved(comment.parentId ?? comment.id, resolved, userId);
+      res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        const errorMessages = error.errors.map(err => {
-          switch (err.path[0]) {
-            case "userNumber":
-              return "利用者番号は必須です";
-            case "bankCode":
-              return "金融機関コードは必須です";
-            case "branchCode":
-              return "支店コードは必須です";
-            case "companyName":
-              return "企業名は必須です";
-            case "contactPersonName":
-              return "連絡者氏名は必須です";
-            case "inquiryContent":
-              return "問い合わせ内容は必須です";
-            case "responseContent":
-              return "対応内容は必須です";
-            default:
-              return err.message;
-          }
-        });
-        res.status(400).json({ 
-          message: "入力項目に不備があります", 
-          errors: errorMessages
-        });
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
       } else {
-        console.error("Error creating report:", error);
-        res.status(500).json({ message: "Failed to create report" });
+        console.error("Error resolving report comment:", error);
+        res.status(500).json({ message: "Failed to resolve report comment" });
       }
     }
   });
 
-  app.get('/api/reports', isAuthenticated, async (req: any, res) => {
+  // Report attachments; uploaded as the raw request body with the file name in X-File-Name
+  app.get('/api/reports/:id/attachments', isAuthenticated, async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      console.log('GET /api/reports - userId:', userId);
-      const user = await storage.getUser(userId);
-      console.log('GET /api/reports - user:', user);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const { id } = req.params;
+      const report = await storage.getReport(id);
+
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
       }
 
-      const isApprover = hasRole(user, 'approver');
-      console.log('GET /api/reports - isApprover:', isApprover);
+      const attachments = await storage.getReportAttachments(id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("Error fetching report attachments:", error);
+      res.status(500).json({ message: "Failed to fetch report attachments" });
+    }
+  });
 
-      let reports;
-      const { status, search, limit, offset } = req.query;
+  app.post(
+    '/api/reports/:id/attachments',
+    isAuthenticated,
+    requireRole('handler'),
+    express.raw({ type: () => true, limit: MAX_ATTACHMENT_SIZE }),
+    async (req: any, res) => {
+      try {
+        const { id } = req.params;
+        const userId = req.user.claims.sub;
+        const report = await storage.getReport(id);
 
-      if (search) {
-        console.log('GET /api/reports - search branch');
-        // For search, pass userId only if user is not an approver (approvers can search all reports)
-        reports = await storage.searchReports(search as string, isApprover ? undefined : userId);
-      } else if (isApprover) {
-        console.log('GET /api/reports - approver branch');
-        // Approvers can see all pending approval reports, not just assigned to them
-        reports = await storage.getReportsForApproval();
-      } else {
-        console.log('GET /api/reports - user branch');
-        reports = await storage.getReportsByUser(userId, status as string);
+        if (!report) {
+          return res.status(404).json({ message: "Report not found" });
+        }
+        if (report.handlerId !== userId) {
+          return res.status(403).json({ message: "Not authorized to attach files to this report" });
+        }
+
+        // Attachments are part of the report content and follow the same edit lock
+        workflowService.assertEditable(report.status);
+
+        let fileName: string;
+        try {
+          fileName = decodeURIComponent(String(req.headers['x-file-name'] || '')).trim();
+        } catch {
+          return res.status(400).json({ message: "File name is not valid URI encoding" });
+        }
+        if (!fileName) {
+          return res.status(400).json({ message: "File name is required" });
+        }
+
+        const mimeType = String(req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+        const content: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        const stored = attachmentService.save(fileName, mimeType, content);
+
+        const attachment = await storage.createReportAttachment({
+          ...stored,
+          reportId: id,
+          fileName,
+          uploadedBy: userId,
+        });
+        res.status(201).json(attachment);
+      } catch (error) {
+        if (error instanceof AttachmentError || error instanceof WorkflowError) {
+          res.status(error.status).json({ message: error.message });
+        } else {
+          console.error("Error uploading attachment:", error);
+          res.status(500).json({ message: "Failed to upload attachment" });
+        }
       }
+    },
+  );
 
-      console.log('GET /api/reports - final reports:', reports);
-      res.json(reports);
+  app.get('/api/reports/:id/attachments/:attachmentId', isAuthenticated, async (req, res) => {
+    try {
+      const { id, attachmentId } = req.params;
+      const attachment = await storage.getReportAttachment(attachmentId);
+
+      if (!attachment || attachment.reportId !== id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const content = attachmentService.read(attachment);
+      res.attachment(attachment.fileName);
+      res.setHeader('Content-Type', attachment.mimeType);
+      // Browsers must not second-guess the stored type
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('X-Checksum-SHA256', attachment.checksum);
+      res.send(content);
     } catch (error) {
-      console.error("Error fetching reports:", error);
-      res.status(500).json({ message: "Failed to fetch reports" });
+      if (error instanceof AttachmentError) {
+        console.error("Error reading attachment:", error);
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error downloading attachment:", error);
+      res.status(500).json({ message: "Failed to download attachment" });
     }
   });
 
-  // Get pending reports for approvers
-  app.get('/api/reports/pending', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/reports/:id/attachments/:attachmentId', isAuthenticated, requireRole('handler'), async (req: any, res) => {
     try {
+      const { id, attachmentId } = req.params;
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
+      const report = await storage.getReport(id);
+      const attachment = await storage.getReportAttachment(attachmentId);
 
-      if (!hasRole(user, 'approver')) {
-        return res.status(403).json({ message: "Not authorized" });
+      if (!report || !attachment || attachment.reportId !== id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (report.handlerId !== userId) {
+        return res.status(403).json({ message: "Not authorized to delete this attachment" });
       }
 
-      const reports = await storage.getReportsForApproval();
-      res.json(reports);
+      workflowService.assertEditable(report.status);
+
+      await storage.deleteReportAttachment(attachmentId);
+      attachmentService.delete(attachment.storedName);
+      res.status(204).send();
     } catch (error) {
-      console.error("Error fetching pending reports:", error);
-      res.status(500).json({ message: "Failed to fetch pending reports" });
+      if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
+      } else {
+        console.error("Error deleting attachment:", error);
+        res.status(500).json({ message: "Failed to delete attachment" });
+      }
     }
   });
 
-  app.get('/api/reports/:id', isAuthenticated, async (req, res) => {
+  // Content revisions of a single report
+  app.get('/api/reports/:id/revisions', isAuthenticated, async (req, res) => {
     try {
       const { id } = req.params;
       const report = await storage.getReport(id);
-      
+
       if (!report) {
         return res.status(404).json({ message: "Report not found" });
       }
-      
-      res.json(report);
+
+      const revisions = await storage.getReportRevisions(id);
+      res.json(revisions);
     } catch (error) {
-      console.error("Error fetching report:", error);
-      res.status(500).json({ message: "Failed to fetch report" });
+      console.error("Error fetching report revisions:", error);
+      res.status(500).json({ message: "Failed to fetch report revisions" });
+    }
+  });
+
+  // Field-level diff between two revisions (?from=&to= revision numbers, both optional)
+  app.get('/api/reports/:id/revisions/compare', isAuthenticated, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const query = z.object({
+        from: z.coerce.number().int().positive().optional(),
+        to: z.coerce.number().int().positive().optional(),
+      }).parse(req.query);
+
+      const comparison = await storage.compareReportRevisions(id, query.from, query.to);
+      if (!comparison) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json(comparison);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error comparing report revisions:", error);
+        res.status(500).json({ message: "Failed to compare report revisions" });
+      }
     }
   });
 
-  app.patch('/api/reports/:id', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/reports/:id', isAuthenticated, requireRole('handler'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const userId = req.user.claims.sub;
@@ -327,11 +1371,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const validatedData = insertReportSchema.partial().parse(req.body);
-      const updatedReport = await storage.updateReport(id, validatedData);
+      if (validatedData.categoryId && !await storage.getInquiryCategory(validatedData.categoryId)) {
+        return res.status(400).json({ message: "Inquiry category not found" });
+      }
+
+      const updatedReport = await storage.updateReport(id, validatedData, userId);
       res.json(updatedReport);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
       } else {
         console.error("Error updating report:", error);
         res.status(500).json({ message: "Failed to update report" });
@@ -339,7 +1389,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch('/api/reports/:id/status', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/reports/:id/status', isAuthenticated, requireRole('approver'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const userId = req.user.claims.sub;
@@ -350,42 +1400,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Report not found" });
       }
 
-      // Check if user has approver role
       const user = await storage.getUser(userId);
       if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-
-      if (!hasRole(user, 'approver')) {
-        return res.status(403).json({ message: "Not authorized - approver role required" });
-      }
-
-      // Check if report is in pending_approval status
-      if (existingReport.status !== 'pending_approval') {
-        return res.status(400).json({ message: "Report is not in pending approval status" });
+        return res.status(403).json({ message: "この承認段階を処理する権限がありません" });
       }
 
       const validatedData = updateReportStatusSchema.parse(req.body);
-      
-      // If approving, assign the current user as approver and set approval timestamp
-      if (validatedData.status === 'approved') {
-        const updatedReport = await storage.updateReportStatus(id, {
-          ...validatedData,
-          approverId: userId,
-          approvedAt: Math.floor(Date.now() / 1000)
-        });
-        res.json(updatedReport);
-      } else {
-        // For rejection, also assign approver but no approval timestamp
-        const updatedReport = await storage.updateReportStatus(id, {
-          ...validatedData,
-          approverId: userId
-        });
-        res.json(updatedReport);
-      }
+      const action = validatedData.status === 'approved' ? 'approve' : 'reject';
+
+      // The workflow checks the approval level, delegations and segregation of duties
+      const updatedReport = await storage.transitionReport(id, action, user, {
+        comment: validatedData.comment,
+        rejectionReason: validatedData.rejectionReason,
+      });
+      res.json(updatedReport);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else if (error instanceof WorkflowError) {
+        res.status(error.status).json({ message: error.message });
       } else {
         console.error("Error updating report status:", error);
         res.status(500).json({ message: "Failed to update report status" });
@@ -394,7 +1427,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Submit report for approval
-  app.patch('/api/reports/:id/submit', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/reports/:id/submit', isAuthenticated, requireRole('handler'), async (req: any, res) => {
     try {
       const { id } = req.params;
       const userId = req.user.claims.sub;
@@ -439,22 +1472,119 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const updatedReport = await storage.updateReportStatus(id, { status: "pending_approval" });
+      const bankError = await findBankCodeError(existingReport.bankCode, existingReport.branchCode);
+      if (bankError) {
+        return res.status(400).json({ message: "すべての必須項目を入力してから申請してください", errors: [bankError] });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedReport = await storage.transitionReport(id, 'submit', user);
       res.json(updatedReport);
     } catch (error) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error submitting report:", error);
       res.status(500).json({ message: "Failed to submit report" });
     }
   });
 
-  // Statistics
-  app.get('/api/statistics', isAuthenticated, async (req, res) => {
+  // Withdraw a submitted report before any approver has acted
+  app.patch('/api/reports/:id/withdraw', isAuthenticated, requireRole('handler'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const existingReport = await storage.getReport(id);
+      if (!existingReport) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      if (existingReport.handlerId !== userId) {
+        return res.status(403).json({ message: "Not authorized to withdraw this report" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedReport = await storage.transitionReport(id, 'withdraw', user);
+      res.json(updatedReport);
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error withdrawing report:", error);
+      res.status(500).json({ message: "Failed to withdraw report" });
+    }
+  });
+
+  // Archive a finished report (admin only); archived reports are read-only
+  app.patch('/api/reports/:id/archive', isAuthenticated, requireRole('admin'), async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+
+      const existingReport = await storage.getReport(id);
+      if (!existingReport) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updatedReport = await storage.transitionReport(id, 'archive', user);
+      res.json(updatedReport);
+    } catch (error) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error archiving report:", error);
+      res.status(500).json({ message: "Failed to archive report" });
+    }
+  });
+
+  // Statistics (?from=&to=&groupBy=, see statisticsQuerySchema); dates are JST.
+  // The range figures are limited to the reports the user can list, like /api/reports/query.
+  app.get('/api/statistics', isAuthenticated, async (req: any, res) => {
     try {
-      const statistics = await storage.getReportStatistics();
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const query = statisticsQuerySchema.parse(req.query);
+      const statistics = await storage.getReportStatistics(query, reportVisibilityFor(user));
       res.json(statistics);
     } catch (error) {
-      console.error("Error fetching statistics:", error);
-      res.status(500).json({ message: "Failed to fetch statistics" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error fetching statistics:", error);
+        res.status(500).json({ message: "Failed to fetch statistics" });
+      }
+    }
+  });
+
+  app.get('/api/statistics/turnaround', isAuthenticated, requireAnyRole(['approver', 'admin']), async (req, res) => {
+    try {
+      const query = statisticsQuerySchema.parse(req.query);
+      const turnaround = await storage.getApprovalTurnaround(query);
+      res.json(turnaround);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid data", errors: error.errors });
+      } else {
+        console.error("Error fetching approval turnaround:", error);
+        res.status(500).json({ message: "Failed to fetch approval turnaround" });
+      }
     }
   });
 
@@ -492,6 +1622,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userNumber: report.userNumber,
         bankCode: report.bankCode,
         branchCode: report.branchCode,
+        bankName: report.bankName,
+        branchName: report.branchName,
         companyName: report.companyName,
         contactPersonName: report.contactPersonName,
         handlerName: `${report.handler.lastName} ${report.handler.firstName}`,
@@ -516,7 +1648,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test endpoint for debugging
-  app.get('/api/test/reports', async (req: any, res) => {
+  app.get('/api/test/reports', isAuthenticated, requireRole('admin'), async (req: any, res) => {
     try {
       console.log('TEST: Getting reports for approval');
       const reports = await storage.getReportsForApproval();
@@ -533,9 +1665,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Test endpoint for status
-  app.get('/api/test/status', async (req: any, res) => {
+  app.get('/api/test/status', isAuthenticated, requireRole('admin'), async (req: any, res) => {
     try {
-      const stats = await storage.getReportStatistics();
+      const stats = await storage.getReportStatistics(statisticsQuerySchema.parse({}));
       res.json({ 
         success: true, 
         statistics: stats 
@@ -546,15 +1678,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Test approval endpoint (bypasses auth)
-  app.patch('/api/test/approve/:id', async (req: any, res) => {
+  // Test approval endpoint (admin only)
+  app.patch('/api/test/approve/:id', isAuthenticated, requireRole('admin'), async (req: any, res) => {
     try {
       const { id } = req.params;
       console.log('TEST: Approving report', id);
       
-      const updatedReport = await storage.updateReportStatus(id, { 
-        status: "approved" 
-      });
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Goes through the workflow like any other approval: the caller needs the approver role and the step's level,
+      // and segregation of duties applies
+      const updatedReport = await storage.transitionReport(id, 'approve', user);
       
       console.log('TEST: Report approved successfully');
       res.json({ 
@@ -563,13 +1700,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: "Report approved successfully" 
       });
     } catch (error) {
+      if (error instanceof WorkflowError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Test approval error:", error);
       res.status(500).json({ message: "Approval test failed", error: error.message });
     }
   });
 
-  // Test PDF endpoint (bypasses auth)
-  app.get('/api/test/pdf/:id', async (req, res) => {
+  // Test PDF endpoint (admin only)
+  app.get('/api/test/pdf/:id', isAuthenticated, requireRole('admin'), async (req, res) => {
     try {
       const { id } = req.params;
       console.log('TEST: Getting PDF data for report', id);
@@ -589,6 +1729,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userNumber: report.userNumber,
         bankCode: report.bankCode,
         branchCode: report.branchCode,
+        bankName: report.bankName,
+        branchName: report.branchName,
         companyName: report.companyName,
         contactPersonName: report.contactPersonName,
         handlerName: `${report.handler.lastName} ${report.handler.firstName}`,
@@ -705,8 +1847,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 報告書番号: ${report.reportNumber}
 ユーザー番号: ${report.userNumber}
-金庫コード: ${report.bankCode}
-支店コード: ${report.branchCode}
+金庫: ${pdfService.formatCodeWithName(report.bankCode, report.bankName)}
+支店: ${pdfService.formatCodeWithName(report.branchCode, report.branchName)}
 企業名: ${report.companyName}
 連絡者: ${report.contactPersonName}
 
@@ -793,7 +1935,7 @@ ${report.escalationRequired ? `エスカレーション理由: ${report.escalati
       }
       
       // 現在のパスワード確認
-      if (user.password !== currentPassword) {
+      if (!await passwordService.verify(currentPassword, user.password)) {
         return res.status(400).json({ message: "現在のパスワードが正しくありません" });
       }
       
@@ -824,7 +1966,8 @@ ${report.escalationRequired ? `エスカレーション理由: ${report.escalati
       }
 
       // Generate HTML content for PDF
-      const htmlContent = pdfService.generatePDFHTML(report);
+      const attachments = await storage.getReportAttachments(id);
+      const htmlContent = pdfService.generatePDFHTML(report, attachments);
       
       if (action === 'save') {
         // For save action, return HTML content to be converted to PDF on client side
@@ -966,6 +2109,7 @@ ${report.escalationRequired ? `エスカレーション理由: ${report.escalati
           
           generatedFiles.push({
             bankCode: bankCode,
+            bankName: reports[0]?.bankName ?? null,
             reportCount: reports.length,
             filename: filename,
             htmlContent: htmlContent
@@ -986,6 +2130,9 @@ ${report.escalationRequired ? `エスカレーション理由: ${report.escalati
     }
   });
 
+  // Fail fast if any endpoint is missing from (or disagrees with) the permission table
+  assertRoutePermissions(app);
+
   const httpServer = createServer(app);
   return httpServer;
 }
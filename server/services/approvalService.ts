@@ -0,0 +1,87 @@
+import type { ApprovalRule, Report, ReportApprovalStep, SegregationPolicy, User } from '@shared/schema';
+
+// Chain used when no approval rule matches: a single team-lead approval
+const DEFAULT_LEVELS = [1];
+
+export class ApprovalService {
+  /**
+   * Pick the approval levels for a report from the highest-priority matching rule
+   */
+  public resolveLevels(rules: ApprovalRule[], report: Pick<Report, 'escalationRequired' | 'bankCode'>): number[] {
+    const matching = rules
+      .filter(rule => rule.escalationRequired == null || rule.escalationRequired === report.escalationRequired)
+      .filter(rule => !rule.bankCode || rule.bankCode === report.bankCode)
+      .sort((a, b) => b.priority - a.priority);
+
+    return matching[0]?.levels ?? DEFAULT_LEVELS;
+  }
+
+  /**
+   * The step currently waiting for a decision, if any
+   */
+  public currentStep(steps: ReportApprovalStep[]): ReportApprovalStep | undefined {
+    return steps
+      .filter(step => step.status === 'pending')
+      .sort((a, b) => a.stepOrder - b.stepOrder)[0];
+  }
+
+  /**
+   * Whether the user may decide the current step.
+   * The approver needs a high enough level and must not have approved an earlier step of the same round,
+   * either personally or through a delegate.
+   */
+  public canApprove(user: User, steps: ReportApprovalStep[]): boolean {
+    const step = this.currentStep(steps);
+    if (!step) return false;
+
+    if ((user.approvalLevel ?? 1) < step.requiredLevel) {
+      return false;
+    }
+
+    return !steps.some(other => other.status === 'approved' && (other.approverId === user.id || other.onBehalfOfId === user.id));
+  }
+
+  /**
+   * Decide in whose name the user acts on the current step.
+   * Returns null when the user may approve personally, the delegator when the user
+   * substitutes for an absent approver, or undefined when neither is allowed.
+   */
+  public resolveActingFor(user: User, delegators: User[], steps: ReportApprovalStep[]): User | null | undefined {
+    if (this.canApprove(user, steps)) {
+      return null;
+    }
+
+    // A delegate who already approved an earlier step may not approve again for someone else
+    if (steps.some(other => other.status === 'approved' && other.approverId === user.id)) {
+      return undefined;
+    }
+
+    return delegators.find(delegator => this.canApprove(delegator, steps));
+  }
+
+  /**
+   * Check the segregation-of-duties policy for the users deciding a report
+   * (the approver and, when substituting, the absent approver they act for).
+   * Returns the reason the decision is blocked, or undefined when it is allowed.
+   */
+  public findSegregationViolation(
+    policy: SegregationPolicy,
+    report: Pick<Report, 'handlerId'>,
+    editorIds: string[],
+    deciderIds: Array<string | null | undefined>,
+  ): string | undefined {
+    const deciders = deciderIds.filter((id): id is string => !!id);
+
+    if (policy.preventSelfApproval && deciders.includes(report.handlerId)) {
+      return '自分が担当した報告書を承認・差し戻しすることはできません';
+    }
+
+    if (policy.preventEditorApproval && deciders.some(id => editorIds.includes(id))) {
+      return '自分が作成・編集した報告書を承認・差し戻しすることはできません';
+    }
+
+    return undefined;
+  }
+}
+
+export const approvalService = new ApprovalService();
@@ -0,0 +1,112 @@
+import fs from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import type { ReportAttachment } from '@shared/schema';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // 10 MB
+
+// Screenshots, PDFs, plain-text call notes and saved emails
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'application/pdf',
+  'text/plain',
+  'message/rfc822',
+  'application/vnd.ms-outlook',
+];
+
+// Leading bytes of the binary types, so a declared type cannot disguise other content
+const FILE_SIGNATURES: Partial<Record<string, Buffer[]>> = {
+  'image/png': [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+  'image/jpeg': [Buffer.from([0xff, 0xd8, 0xff])],
+  'image/gif': [Buffer.from('GIF87a'), Buffer.from('GIF89a')],
+  'application/pdf': [Buffer.from('%PDF-')],
+};
+
+/**
+ * Raised when an uploaded file is rejected or a stored file cannot be served.
+ * status is the HTTP status to answer with.
+ */
+export class AttachmentError extends Error {
+  constructor(message: string, public readonly status: 400 | 413 | 415 | 500 = 400) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+export class AttachmentService {
+  private storagePath: string;
+
+  constructor() {
+    this.storagePath = path.join(process.cwd(), 'server', 'attachment-storage');
+    this.ensureStorageDirectory();
+  }
+
+  private ensureStorageDirectory(): void {
+    if (!fs.existsSync(this.storagePath)) {
+      fs.mkdirSync(this.storagePath, { recursive: true });
+    }
+  }
+
+  /**
+   * Check the upload against the size and type limits, and that the content is of the declared type
+   */
+  public validate(mimeType: string, content: Buffer): void {
+    if (content.length === 0) {
+      throw new AttachmentError('ファイルが空です');
+    }
+    if (content.length > MAX_ATTACHMENT_SIZE) {
+      throw new AttachmentError(`ファイルサイズは${MAX_ATTACHMENT_SIZE / 1024 / 1024}MB以下にしてください`, 413);
+    }
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(mimeType)) {
+      throw new AttachmentError('このファイル形式は添付できません', 415);
+    }
+    const signatures = FILE_SIGNATURES[mimeType];
+    if (signatures && !signatures.some(signature => content.subarray(0, signature.length).equals(signature))) {
+      throw new AttachmentError('ファイルの内容が形式と一致しません', 415);
+    }
+  }
+
+  public checksum(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Write the content under a generated name and return the metadata to store
+   */
+  public save(fileName: string, mimeType: string, content: Buffer): Pick<ReportAttachment, 'storedName' | 'mimeType' | 'size' | 'checksum'> {
+    this.validate(mimeType, content);
+
+    const extension = path.extname(fileName).replace(/[^.\w]/g, '').toLowerCase();
+    const storedName = `${randomUUID()}${extension}`;
+    fs.writeFileSync(path.join(this.storagePath, storedName), content);
+
+    return { storedName, mimeType, size: content.length, checksum: this.checksum(content) };
+  }
+
+  /**
+   * Read a stored file, verifying it still matches the recorded checksum
+   */
+  public read(attachment: Pick<ReportAttachment, 'storedName' | 'checksum'>): Buffer {
+    const filepath = path.join(this.storagePath, path.basename(attachment.storedName));
+    if (!fs.existsSync(filepath)) {
+      throw new AttachmentError('添付ファイルが見つかりません', 500);
+    }
+
+    const content = fs.readFileSync(filepath);
+    if (this.checksum(content) !== attachment.checksum) {
+      throw new AttachmentError('添付ファイルが破損しています', 500);
+    }
+    return content;
+  }
+
+  public delete(storedName: string): void {
+    const filepath = path.join(this.storagePath, path.basename(storedName));
+    if (fs.existsSync(filepath)) {
+      fs.unlinkSync(filepath);
+    }
+  }
+}
+
+export const attachmentService = new AttachmentService();
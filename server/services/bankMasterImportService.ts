@@ -0,0 +1,197 @@
+import type { BankMasterImportDiff, BankMasterImportEntry, Branch, FinancialInstitution } from '@shared/schema';
+
+// The full Zengin master runs to a few MB
+export const MAX_BANK_MASTER_SIZE = 20 * 1024 * 1024; // 20 MB
+
+const BANK_CODE_PATTERN = /^\d{4}$/;
+const BRANCH_CODE_PATTERN = /^\d{3}$/;
+
+interface ParsedInstitution {
+  bankCode: string;
+  bankName: string;
+}
+
+interface ParsedBranch {
+  bankCode: string;
+  branchCode: string;
+  branchName: string;
+}
+
+export interface ParsedBankMaster {
+  institutions: Map<string, ParsedInstitution>; // keyed by bank code
+  branches: Map<string, ParsedBranch>; // keyed by "bankCode-branchCode"
+  errors: { line: number; message: string }[];
+}
+
+export class BankMasterImportService {
+  /**
+   * Split one CSV line, honouring double-quoted fields with "" escapes
+   */
+  private splitCsvLine(line: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        fields.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current.trim());
+    return fields;
+  }
+
+  /**
+   * Read the master file. Two layouts are accepted, told apart by the column count:
+   * - simple:  金融機関コード,支店コード,金融機関名,支店名
+   * - Zengin:  金融機関コード,支店コード,金融機関名カナ,金融機関名,支店名カナ,支店名[,...]
+   * An empty branch code lists the institution alone. A leading header row is skipped.
+   */
+  public parse(csv: string): ParsedBankMaster {
+    const result: ParsedBankMaster = { institutions: new Map(), branches: new Map(), errors: [] };
+    const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+    lines.forEach((line, index) => {
+      const lineNumber = index + 1;
+      if (!line.trim()) return;
+
+      const fields = this.splitCsvLine(line);
+      if (index === 0 && !/^\d+$/.test(fields[0])) return; // header
+
+      let bankCode: string, branchCode: string, bankName: string, branchName: string;
+      if (fields.length === 4) {
+        [bankCode, branchCode, bankName, branchName] = fields;
+      } else if (fields.length >= 6) {
+        [bankCode, branchCode, , bankName, , branchName] = fields;
+      } else {
+        result.errors.push({ line: lineNumber, message: '列数が不正です（4列または6列以上）' });
+        return;
+      }
+
+      if (!BANK_CODE_PATTERN.test(bankCode)) {
+        result.errors.push({ line: lineNumber, message: `金融機関コード「${bankCode}」は4桁の数字ではありません` });
+        return;
+      }
+      if (!bankName) {
+        result.errors.push({ line: lineNumber, message: '金融機関名が空です' });
+        return;
+      }
+
+      const institution = result.institutions.get(bankCode);
+      if (institution && institution.bankName !== bankName) {
+        result.errors.push({ line: lineNumber, message: `金融機関コード${bankCode}の名称が行によって異なります` });
+        return;
+      }
+
+      // Lines with an error are left out entirely
+      const key = `${bankCode}-${branchCode}`;
+      if (branchCode) {
+        if (!BRANCH_CODE_PATTERN.test(branchCode)) {
+          result.errors.push({ line: lineNumber, message: `支店コード「${branchCode}」は3桁の数字ではありません` });
+          return;
+        }
+        if (!branchName) {
+          result.errors.push({ line: lineNumber, message: '支店名が空です' });
+          return;
+        }
+        if (result.branches.has(key)) {
+          result.errors.push({ line: lineNumber, message: `支店${key}が重複しています` });
+          return;
+        }
+        result.branches.set(key, { bankCode, branchCode, branchName });
+      }
+
+      result.institutions.set(bankCode, { bankCode, bankName });
+    });
+
+    return result;
+  }
+
+  /**
+   * Compare the file with the current master. The file is treated as the complete
+   * master, so active rows missing from it are listed as removals (deactivated on import).
+   */
+  public diff(parsed: ParsedBankMaster, institutions: FinancialInstitution[], branches: Branch[]): BankMasterImportDiff {
+    const diff: BankMasterImportDiff = {
+      institutions: { added: [], changed: [], removed: [] },
+      branches: { added: [], changed: [], removed: [] },
+      errors: parsed.errors,
+    };
+
+    const institutionsByCode = new Map(institutions.map(institution => [institution.bankCode, institution]));
+    const bankCodeById = new Map(institutions.map(institution => [institution.id, institution.bankCode]));
+    const branchesByKey = new Map(branches.map(branch => [`${bankCodeById.get(branch.institutionId)}-${branch.branchCode}`, branch]));
+
+    for (const row of Array.from(parsed.institutions.values())) {
+      const existing = institutionsByCode.get(row.bankCode);
+      if (!existing) {
+        diff.institutions.added.push({ bankCode: row.bankCode, name: row.bankName });
+      } else if (existing.bankName !== row.bankName || !existing.isActive) {
+        diff.institutions.changed.push(this.changeEntry(existing.id, row.bankCode, undefined, row.bankName, existing.bankName, existing.isActive));
+      }
+    }
+
+    for (const institution of institutions) {
+      if (institution.isActive && !parsed.institutions.has(institution.bankCode)) {
+        diff.institutions.removed.push({ id: institution.id, bankCode: institution.bankCode, name: institution.bankName });
+      }
+    }
+
+    for (const [key, row] of Array.from(parsed.branches.entries())) {
+      const existing = branchesByKey.get(key);
+      if (!existing) {
+        diff.branches.added.push({ bankCode: row.bankCode, branchCode: row.branchCode, name: row.branchName });
+      } else if (existing.branchName !== row.branchName || !existing.isActive) {
+        diff.branches.changed.push(this.changeEntry(existing.id, row.bankCode, row.branchCode, row.branchName, existing.branchName, existing.isActive));
+      }
+    }
+
+    for (const [key, branch] of Array.from(branchesByKey.entries())) {
+      if (branch.isActive && !parsed.branches.has(key)) {
+        diff.branches.removed.push({
+          id: branch.id,
+          bankCode: bankCodeById.get(branch.institutionId) ?? '',
+          branchCode: branch.branchCode,
+          name: branch.branchName,
+        });
+      }
+    }
+
+    return diff;
+  }
+
+  private changeEntry(
+    id: string,
+    bankCode: string,
+    branchCode: string | undefined,
+    name: string,
+    previousName: string,
+    isActive: boolean,
+  ): BankMasterImportEntry {
+    return {
+      id,
+      bankCode,
+      ...(branchCode ? { branchCode } : {}),
+      name,
+      ...(previousName !== name ? { previousName } : {}),
+      ...(!isActive ? { reactivated: true } : {}),
+    };
+  }
+}
+
+export const bankMasterImportService = new BankMasterImportService();
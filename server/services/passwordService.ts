@@ -0,0 +1,93 @@
+import { randomBytes, scrypt, scryptSync, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: { N: number; r: number; p: number; maxmem: number }
+) => Promise<Buffer>;
+
+const HASH_PREFIX = 'scrypt';
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const COST = { N: 16384, r: 8, p: 1 };
+
+export class PasswordService {
+  /**
+   * Hash a plaintext password
+   * Format: scrypt${N}${r}${p}${salt}${hash} (salt and hash are base64)
+   */
+  public async hash(password: string): Promise<string> {
+    const salt = randomBytes(SALT_LENGTH);
+    const derived = await scryptAsync(password, salt, KEY_LENGTH, this.scryptOptions(COST));
+    return this.format(COST, salt, derived);
+  }
+
+  /**
+   * Synchronous variant used while seeding the database at startup
+   */
+  public hashSync(password: string): string {
+    const salt = randomBytes(SALT_LENGTH);
+    const derived = scryptSync(password, salt, KEY_LENGTH, this.scryptOptions(COST));
+    return this.format(COST, salt, derived);
+  }
+
+  /**
+   * Check a plaintext password against a stored value.
+   * Legacy plaintext rows are still accepted so they can be rehashed on login.
+   */
+  public async verify(password: string, stored: string): Promise<boolean> {
+    const parsed = this.parse(stored);
+
+    if (!parsed) {
+      return this.safeEqual(Buffer.from(password), Buffer.from(stored));
+    }
+
+    const derived = await scryptAsync(password, parsed.salt, parsed.hash.length, this.scryptOptions(parsed.cost));
+    return this.safeEqual(derived, parsed.hash);
+  }
+
+  /**
+   * Whether the stored value is plaintext or was hashed with weaker parameters
+   */
+  public needsRehash(stored: string): boolean {
+    const parsed = this.parse(stored);
+    if (!parsed) return true;
+
+    return parsed.cost.N !== COST.N || parsed.cost.r !== COST.r || parsed.cost.p !== COST.p;
+  }
+
+  private format(cost: typeof COST, salt: Buffer, hash: Buffer): string {
+    return [HASH_PREFIX, cost.N, cost.r, cost.p, salt.toString('base64'), hash.toString('base64')].join('$');
+  }
+
+  private parse(stored: string): { cost: typeof COST; salt: Buffer; hash: Buffer } | null {
+    const parts = stored.split('$');
+    if (parts.length !== 6 || parts[0] !== HASH_PREFIX) {
+      return null;
+    }
+
+    const [, N, r, p, salt, hash] = parts;
+    const cost = { N: parseInt(N, 10), r: parseInt(r, 10), p: parseInt(p, 10) };
+    if (!cost.N || !cost.r || !cost.p || !salt || !hash) {
+      return null;
+    }
+
+    return { cost, salt: Buffer.from(salt, 'base64'), hash: Buffer.from(hash, 'base64') };
+  }
+
+  private scryptOptions(cost: typeof COST) {
+    // maxmem must exceed 128 * N * r, otherwise node rejects the parameters
+    return { ...cost, maxmem: 256 * cost.N * cost.r };
+  }
+
+  private safeEqual(a: Buffer, b: Buffer): boolean {
+    if (a.length !== b.length) {
+      return false;
+    }
+    return timingSafeEqual(a, b);
+  }
+}
+
+export const passwordService = new PasswordService();
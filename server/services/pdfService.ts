@@ -1,6 +1,6 @@
 import fs from 'fs';
 import path from 'path';
-import { ReportWithDetails } from '@shared/schema';
+import { ReportAttachment, ReportWithDetails } from '@shared/schema';
 
 export class PDFService {
   private pdfStoragePath: string;
@@ -30,6 +30,13 @@ export class PDFService {
     return `${report.bankCode}_${report.branchCode}_${dateStr}_${sequence.toString().padStart(3, '0')}.pdf`;
   }
 
+  /**
+   * Code followed by the master name; codes missing from the master print alone
+   */
+  public formatCodeWithName(code: string, name: string | null | undefined): string {
+    return name ? `${code} ${name}` : code;
+  }
+
   /**
    * Get next sequence number for the day
    */
@@ -53,10 +60,17 @@ export class PDFService {
     return Math.max(...sequences) + 1;
   }
 
+  /**
+   * Escape text for the HTML templates; report fields and file names are user input
+   */
+  private escapeHtml(value: string | null | undefined): string {
+    return (value ?? '').replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+  }
+
   /**
    * Generate PDF content as HTML template
    */
-  public generatePDFHTML(report: ReportWithDetails): string {
+  public generatePDFHTML(report: ReportWithDetails, attachments: ReportAttachment[] = []): string {
     const formatDate = (timestamp: number | string | undefined): string => {
       if (!timestamp) return '';
       const date = new Date(typeof timestamp === 'string' ? parseInt(timestamp) * 1000 : timestamp * 1000);
@@ -147,6 +161,9 @@ export class PDFService {
       background-color: #f8d7da;
       border-color: #f5c6cb;
     }
+    .attachment-list { 
+      list-style: none;
+    }
     .approval-info { 
       margin-top: 30px;
       display: grid;
@@ -170,7 +187,7 @@ export class PDFService {
 <body>
   <div class="header">
     <div class="title">電子債権問い合わせ対応報告書</div>
-    <div>Report No: ${report.reportNumber}</div>
+    <div>Report No: ${this.escapeHtml(report.reportNumber)}</div>
   </div>
 
   <div class="report-info">
@@ -178,23 +195,31 @@ export class PDFService {
       <h3>基本情報</h3>
       <div class="field">
         <span class="field-label">利用者番号:</span>
-        ${report.userNumber}
+        ${this.escapeHtml(report.userNumber)}
       </div>
       <div class="field">
-        <span class="field-label">金庫コード:</span>
-        ${report.bankCode}
+        <span class="field-label">金庫:</span>
+        ${this.escapeHtml(this.formatCodeWithName(report.bankCode, report.bankName))}
       </div>
       <div class="field">
-        <span class="field-label">支店コード:</span>
-        ${report.branchCode}
+        <span class="field-label">支店:</span>
+        ${this.escapeHtml(this.formatCodeWithName(report.branchCode, report.branchName))}
       </div>
       <div class="field">
         <span class="field-label">企業名:</span>
-        ${report.companyName}
+        ${this.escapeHtml(report.companyName)}
       </div>
       <div class="field">
         <span class="field-label">連絡者:</span>
-        ${report.contactPersonName}
+        ${this.escapeHtml(report.contactPersonName)}
+      </div>
+      <div class="field">
+        <span class="field-label">分類:</span>
+        ${this.escapeHtml(report.categoryName || '未分類')}
+      </div>
+      <div class="field">
+        <span class="field-label">タグ:</span>
+        ${this.escapeHtml(report.tags?.length ? report.tags.join(', ') : '-')}
       </div>
     </div>
 
@@ -202,11 +227,11 @@ export class PDFService {
       <h3>処理情報</h3>
       <div class="field">
         <span class="field-label">対応者:</span>
-        ${report.handler.firstName} ${report.handler.lastName}
+        ${this.escapeHtml(`${report.handler.firstName} ${report.handler.lastName}`)}
       </div>
       <div class="field">
         <span class="field-label">承認者:</span>
-        ${approverName}
+        ${this.escapeHtml(approverName)}
       </div>
       <div class="field">
         <span class="field-label">作成日時:</span>
@@ -225,25 +250,36 @@ export class PDFService {
 
   <div class="content-section">
     <div class="content-header">問い合わせ内容</div>
-    <div class="content-body">${report.inquiryContent}</div>
+    <div class="content-body">${this.escapeHtml(report.inquiryContent)}</div>
   </div>
 
   <div class="content-section">
     <div class="content-header">対応内容</div>
-    <div class="content-body">${report.responseContent}</div>
+    <div class="content-body">${this.escapeHtml(report.responseContent)}</div>
   </div>
 
   ${report.escalationRequired && report.escalationReason ? `
   <div class="content-section escalation">
     <div class="content-header">エスカレーション理由</div>
-    <div class="content-body">${report.escalationReason}</div>
+    <div class="content-body">${this.escapeHtml(report.escalationReason)}</div>
   </div>
   ` : ''}
 
   ${report.status === 'rejected' && report.rejectionReason ? `
   <div class="content-section rejection">
     <div class="content-header">差し戻し理由</div>
-    <div class="content-body">${report.rejectionReason}</div>
+    <div class="content-body">${this.escapeHtml(report.rejectionReason)}</div>
+  </div>
+  ` : ''}
+
+  ${attachments.length > 0 ? `
+  <div class="content-section">
+    <div class="content-header">添付ファイル（${attachments.length}件）</div>
+    <div class="content-body">
+      <ul class="attachment-list">
+        ${attachments.map(attachment => `<li>${this.escapeHtml(attachment.fileName)}（${Math.ceil(attachment.size / 1024)}KB）</li>`).join('')}
+      </ul>
+    </div>
   </div>
   ` : ''}
 
@@ -251,13 +287,13 @@ export class PDFService {
     <div>
       <div style="margin-bottom: 10px;">対応者署名</div>
       <div class="signature-box">
-        ${report.handler.firstName} ${report.handler.lastName}
+        ${this.escapeHtml(`${report.handler.firstName} ${report.handler.lastName}`)}
       </div>
     </div>
     <div>
       <div style="margin-bottom: 10px;">承認者署名</div>
       <div class="signature-box">
-        ${approverName}
+        ${this.escapeHtml(approverName)}
       </div>
     </div>
   </div>
@@ -379,6 +415,13 @@ export class PDFService {
       day: '2-digit'
     });
 
+    // Report counts per inquiry category for the cover summary
+    const categoryCounts = new Map<string, number>();
+    for (const report of reports) {
+      const categoryName = report.categoryName || '未分類';
+      categoryCounts.set(categoryName, (categoryCounts.get(categoryName) ?? 0) + 1);
+    }
+
     return `
 <!DOCTYPE html>
 <html lang="ja">
@@ -514,19 +557,38 @@ export class PDFService {
   <div class="cover-page">
     <div class="cover-title">電子債権問い合わせ対応報告書</div>
     <div class="cover-subtitle">一括印刷 - 金融機関別まとめ</div>
-    <div class="cover-info">金融機関コード: ${bankCode}</div>
+    <div class="cover-info">金融機関: ${this.escapeHtml(this.formatCodeWithName(bankCode, reports[0]?.bankName))}</div>
     <div class="cover-info">対象日: ${today}</div>
     <div class="cover-info">報告書件数: ${reports.length}件</div>
   </div>
 
+  <!-- Category Summary -->
+  <table class="summary-table">
+    <thead>
+      <tr>
+        <th>問い合わせ分類</th>
+        <th>件数</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${Array.from(categoryCounts.entries()).sort(([a], [b]) => a.localeCompare(b, 'ja')).map(([categoryName, count]) => `
+        <tr>
+          <td>${this.escapeHtml(categoryName)}</td>
+          <td>${count}件</td>
+        </tr>
+      `).join('')}
+    </tbody>
+  </table>
+
   <!-- Summary Table -->
   <table class="summary-table">
     <thead>
       <tr>
         <th>No.</th>
         <th>報告書番号</th>
-        <th>支店コード</th>
+        <th>支店</th>
         <th>企業名</th>
+        <th>分類</th>
         <th>対応者</th>
         <th>承認者</th>
         <th>承認日時</th>
@@ -541,11 +603,12 @@ export class PDFService {
         return `
         <tr>
           <td>${index + 1}</td>
-          <td>${report.reportNumber}</td>
-          <td>${report.branchCode}</td>
-          <td>${report.companyName}</td>
-          <td>${report.handler.firstName} ${report.handler.lastName}</td>
-          <td>${approverName}</td>
+          <td>${this.escapeHtml(report.reportNumber)}</td>
+          <td>${this.escapeHtml(this.formatCodeWithName(report.branchCode, report.branchName))}</td>
+          <td>${this.escapeHtml(report.companyName)}</td>
+          <td>${this.escapeHtml(report.categoryName || '未分類')}</td>
+          <td>${this.escapeHtml(`${report.handler.firstName} ${report.handler.lastName}`)}</td>
+          <td>${this.escapeHtml(approverName)}</td>
           <td>${formatDate(report.approvedAt)}</td>
         </tr>
         `;
@@ -563,7 +626,7 @@ export class PDFService {
     <div class="${index > 0 ? 'page-break' : ''}">
       <div class="report-header">
         <div class="report-title">電子債権問い合わせ対応報告書 (${index + 1}/${reports.length})</div>
-        <div>Report No: ${report.reportNumber}</div>
+        <div>Report No: ${this.escapeHtml(report.reportNumber)}</div>
       </div>
 
       <div class="report-info">
@@ -571,23 +634,31 @@ export class PDFService {
           <h3>基本情報</h3>
           <div class="field">
             <span class="field-label">利用者番号:</span>
-            ${report.userNumber}
+            ${this.escapeHtml(report.userNumber)}
           </div>
           <div class="field">
-            <span class="field-label">金庫コード:</span>
-            ${report.bankCode}
+            <span class="field-label">金庫:</span>
+            ${this.escapeHtml(this.formatCodeWithName(report.bankCode, report.bankName))}
           </div>
           <div class="field">
-            <span class="field-label">支店コード:</span>
-            ${report.branchCode}
+            <span class="field-label">支店:</span>
+            ${this.escapeHtml(this.formatCodeWithName(report.branchCode, report.branchName))}
           </div>
           <div class="field">
             <span class="field-label">企業名:</span>
-            ${report.companyName}
+            ${this.escapeHtml(report.companyName)}
           </div>
           <div class="field">
             <span class="field-label">連絡者:</span>
-            ${report.contactPersonName}
+            ${this.escapeHtml(report.contactPersonName)}
+          </div>
+          <div class="field">
+            <span class="field-label">分類:</span>
+            ${this.escapeHtml(report.categoryName || '未分類')}
+          </div>
+          <div class="field">
+            <span class="field-label">タグ:</span>
+            ${this.escapeHtml(report.tags?.length ? report.tags.join(', ') : '-')}
           </div>
         </div>
 
@@ -595,11 +666,11 @@ export class PDFService {
           <h3>処理情報</h3>
           <div class="field">
             <span class="field-label">対応者:</span>
-            ${report.handler.firstName} ${report.handler.lastName}
+            ${this.escapeHtml(`${report.handler.firstName} ${report.handler.lastName}`)}
           </div>
           <div class="field">
             <span class="field-label">承認者:</span>
-            ${approverName}
+            ${this.escapeHtml(approverName)}
           </div>
           <div class="field">
             <span class="field-label">作成日時:</span>
@@ -618,18 +689,18 @@ export class PDFService {
 
       <div class="content-section">
         <div class="content-header">問い合わせ内容</div>
-        <div class="content-body">${report.inquiryContent}</div>
+        <div class="content-body">${this.escapeHtml(report.inquiryContent)}</div>
       </div>
 
       <div class="content-section">
         <div class="content-header">対応内容</div>
-        <div class="content-body">${report.responseContent}</div>
+        <div class="content-body">${this.escapeHtml(report.responseContent)}</div>
       </div>
 
       ${report.escalationRequired && report.escalationReason ? `
       <div class="content-section escalation">
         <div class="content-header">エスカレーション理由</div>
-        <div class="content-body">${report.escalationReason}</div>
+        <div class="content-body">${this.escapeHtml(report.escalationReason)}</div>
       </div>
       ` : ''}
 
@@ -637,13 +708,13 @@ export class PDFService {
         <div>
           <div style="margin-bottom: 8px;">対応者署名</div>
           <div class="signature-box">
-            ${report.handler.firstName} ${report.handler.lastName}
+            ${this.escapeHtml(`${report.handler.firstName} ${report.handler.lastName}`)}
           </div>
         </div>
         <div>
           <div style="margin-bottom: 8px;">承認者署名</div>
           <div class="signature-box">
-            ${approverName}
+            ${this.escapeHtml(approverName)}
           </div>
         </div>
       </div>
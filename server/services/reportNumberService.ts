@@ -0,0 +1,59 @@
+import type { ReportNumberFormat } from '@shared/schema';
+import { statisticsService } from './statisticsService';
+
+// Bank code used in the number while a draft has none yet
+const UNKNOWN_BANK_CODE = '0000';
+
+export class ReportNumberService {
+  /**
+   * Period part of the number: 2025-10 (month), 2025 (calendar year) or FY2025 (fiscal year).
+   * Periods follow the JST calendar whatever the server's zone is.
+   */
+  public periodKey(format: ReportNumberFormat, date: Date): string {
+    const [year, month] = statisticsService.formatDate(Math.floor(date.getTime() / 1000)).split('-').map(Number);
+
+    switch (format.period) {
+      case 'month':
+        return `${year}-${String(month).padStart(2, '0')}`;
+      case 'year':
+        return String(year);
+      case 'fiscal_year':
+        // The fiscal year is named after the calendar year it starts in
+        return `FY${month >= format.fiscalYearStartMonth ? year : year - 1}`;
+      case 'none':
+        return '';
+    }
+  }
+
+  /**
+   * Everything before the sequence part. Numbers sharing a scope share one counter.
+   */
+  public scope(format: ReportNumberFormat, date: Date, bankCode?: string | null): string {
+    return [
+      format.prefix,
+      format.includeBankCode ? (bankCode?.trim() || UNKNOWN_BANK_CODE) : '',
+      this.periodKey(format, date),
+    ].filter(part => part.length > 0).join('-');
+  }
+
+  public format(scope: string, sequence: number, format: ReportNumberFormat): string {
+    const sequencePart = String(sequence).padStart(format.padding, '0');
+    return scope ? `${scope}-${sequencePart}` : sequencePart;
+  }
+
+  /**
+   * Highest sequence among numbers already issued in the scope.
+   * Used to start a new counter after existing numbers (e.g. ones issued before counters existed).
+   */
+  public maxSequence(scope: string, reportNumbers: string[]): number {
+    const prefix = scope ? `${scope}-` : '';
+
+    return reportNumbers.reduce((max, reportNumber) => {
+      const rest = reportNumber.slice(prefix.length);
+      if (!reportNumber.startsWith(prefix) || !/^\d+$/.test(rest)) return max;
+      return Math.max(max, parseInt(rest, 10));
+    }, 0);
+  }
+}
+
+export const reportNumberService = new ReportNumberService();
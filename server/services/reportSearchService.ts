@@ -0,0 +1,187 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { reportSearchFields, type Report, type ReportSearchField, type ReportSearchSnippet } from '@shared/schema';
+
+// Anything that can run raw SQL synchronously: the database or a transaction
+export interface SqlExecutor {
+  run(query: SQL): unknown;
+  all<T>(query: SQL): T[];
+}
+
+// Columns of the reports_fts virtual table, holding normalized copies of the report fields
+const searchColumns: Record<ReportSearchField, string> = {
+  reportNumber: 'report_number',
+  userNumber: 'user_number',
+  companyName: 'company_name',
+  contactPersonName: 'contact_person_name',
+  inquiryContent: 'inquiry_content',
+  responseContent: 'response_content',
+  escalationReason: 'escalation_reason',
+};
+
+// The trigram tokenizer cannot match terms shorter than this
+const MIN_MATCH_LENGTH = 3;
+
+// Characters of context kept around the first match in a snippet
+const SNIPPET_CONTEXT = 30;
+const SNIPPET_LENGTH = 120;
+
+// Marks that NFKC merges into the preceding character, e.g. ｶﾞ -> ガ
+const COMBINING_MARK = /^[\u0300-\u036F\u3099\u309A\uFF9E\uFF9F]$/;
+
+export class ReportSearchService {
+  /**
+   * Fold text for matching: NFKC (full/half width), lower case and katakana to hiragana
+   */
+  public normalize(text: string): string {
+    return text
+      .normalize('NFKC')
+      .toLowerCase()
+      .replace(/[ァ-ヶ]/g, (char) => String.fromCharCode(char.charCodeAt(0) - 0x60));
+  }
+
+  /**
+   * Split a search box entry into distinct normalized terms
+   */
+  public parseQuery(query: string): string[] {
+    return Array.from(new Set(this.normalize(query).split(/\s+/).filter((term) => term.length > 0)));
+  }
+
+  public createIndex(executor: SqlExecutor): void {
+    const columns = reportSearchFields.map((field) => searchColumns[field]).join(', ');
+    executor.run(sql.raw(
+      `CREATE VIRTUAL TABLE IF NOT EXISTS reports_fts USING fts5(report_id UNINDEXED, ${columns}, tokenize = 'trigram')`
+    ));
+  }
+
+  /**
+   * Replace the report's index row; run in the transaction that saved the report
+   */
+  public indexReport(executor: SqlExecutor, report: Pick<Report, 'id' | ReportSearchField>): void {
+    const columns = sql.raw(reportSearchFields.map((field) => searchColumns[field]).join(', '));
+    const values = reportSearchFields.map((field) => this.normalize(report[field] ?? ''));
+
+    executor.run(sql`DELETE FROM reports_fts WHERE report_id = ${report.id}`);
+    executor.run(sql`INSERT INTO reports_fts (report_id, ${columns}) VALUES (${report.id}, ${sql.join(values.map((value) => sql`${value}`), sql`, `)})`);
+  }
+
+  /**
+   * Subquery of the reports containing every term as (report_id, rank); a lower rank is a better match.
+   * Terms of three or more characters use the FTS index (ranked by bm25); shorter ones fall back
+   * to LIKE over the normalized columns, newest first. Null when there are no terms.
+   */
+  public matchQuery(terms: string[]): SQL | null {
+    if (terms.length === 0) return null;
+    const matchTerms = terms.filter((term) => Array.from(term).length >= MIN_MATCH_LENGTH);
+    const likeTerms = terms.filter((term) => Array.from(term).length < MIN_MATCH_LENGTH);
+
+    const conditions: SQL[] = [];
+    if (matchTerms.length > 0) {
+      // Each term is a quoted phrase so FTS5 syntax characters are taken literally
+      const expression = matchTerms.map((term) => `"${term.replace(/"/g, '""')}"`).join(' AND ');
+      conditions.push(sql`reports_fts MATCH ${expression}`);
+    }
+    for (const term of likeTerms) {
+      const pattern = `%${term.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+      const columns = reportSearchFields.map((field) => sql`${sql.raw(searchColumns[field])} LIKE ${pattern} ESCAPE '\\'`);
+      conditions.push(sql`(${sql.join(columns, sql` OR `)})`);
+    }
+
+    return sql`
+      SELECT report_id, ${matchTerms.length > 0 ? sql`rank` : sql`-rowid`} AS rank FROM reports_fts
+      WHERE ${sql.join(conditions, sql` AND `)}
+    `;
+  }
+
+  /**
+   * Excerpt of the first field containing a term, taken from the original text so the
+   * highlights line up with what the user wrote
+   */
+  public buildSnippet(report: Pick<Report, ReportSearchField>, terms: string[]): ReportSearchSnippet | null {
+    for (const field of reportSearchFields) {
+      const text = report[field];
+      if (!text) continue;
+
+      const ranges = this.findMatchRanges(text, terms);
+      if (ranges.length === 0) continue;
+
+      const start = Math.max(0, ranges[0][0] - SNIPPET_CONTEXT);
+      const end = Math.min(text.length, start + SNIPPET_LENGTH);
+      const segments: ReportSearchSnippet['segments'] = [];
+      const push = (from: number, to: number, highlighted: boolean) => {
+        if (to > from) segments.push({ text: text.slice(from, to), highlighted });
+      };
+
+      let cursor = start;
+      for (const [matchStart, matchEnd] of ranges) {
+        if (matchStart >= end) break;
+        push(cursor, Math.max(cursor, matchStart), false);
+        push(Math.max(cursor, matchStart), Math.min(matchEnd, end), true);
+        cursor = Math.min(matchEnd, end);
+      }
+      push(cursor, end, false);
+
+      if (start > 0) segments.unshift({ text: '…', highlighted: false });
+      if (end < text.length) segments.push({ text: '…', highlighted: false });
+      return { field, segments };
+    }
+    return null;
+  }
+
+  /**
+   * Positions in the original text of every term occurrence, sorted and merged
+   */
+  private findMatchRanges(text: string, terms: string[]): [number, number][] {
+    const { normalized, starts, ends } = this.normalizeWithOffsets(text);
+    const ranges: [number, number][] = [];
+
+    for (const term of terms) {
+      let index = normalized.indexOf(term);
+      while (index !== -1) {
+        ranges.push([starts[index], ends[index + term.length - 1]]);
+        index = normalized.indexOf(term, index + term.length);
+      }
+    }
+
+    ranges.sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of ranges) {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([range[0], range[1]]);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Normalize character by character, remembering which original span each normalized unit came from
+   */
+  private normalizeWithOffsets(text: string): { normalized: string; starts: number[]; ends: number[] } {
+    const chars = Array.from(text);
+    let normalized = '';
+    const starts: number[] = [];
+    const ends: number[] = [];
+
+    let position = 0;
+    for (let i = 0; i < chars.length; i++) {
+      let group = chars[i];
+      while (i + 1 < chars.length && COMBINING_MARK.test(chars[i + 1])) {
+        group += chars[++i];
+      }
+
+      const folded = this.normalize(group);
+      for (let j = 0; j < folded.length; j++) {
+        starts.push(position);
+        ends.push(position + group.length);
+      }
+      normalized += folded;
+      position += group.length;
+    }
+
+    return { normalized, starts, ends };
+  }
+}
+
+export const reportSearchService = new ReportSearchService();
@@ -0,0 +1,157 @@
+import { count, sql, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { reportEvents, reports } from '@shared/schema';
+import type { ReportStatisticsCounts, StatisticsGrouping, StatisticsQuery, TurnaroundSummary } from '@shared/schema';
+
+// Statistics are reported in Japan time whatever the server's zone is
+export const STATISTICS_TIMEZONE = 'Asia/Tokyo';
+const JST_OFFSET_SECONDS = 9 * 60 * 60; // Japan has no daylight saving time
+const DAY_SECONDS = 24 * 60 * 60;
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export type TimeGrouping = Extract<StatisticsGrouping, 'day' | 'week' | 'month'>;
+
+export interface StatisticsRange {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  start: number; // unix time of JST midnight on `from`
+  end: number; // unix time of JST midnight after `to`
+}
+
+export class StatisticsService {
+  public isTimeGrouping(grouping: StatisticsGrouping): grouping is TimeGrouping {
+    return grouping === 'day' || grouping === 'week' || grouping === 'month';
+  }
+
+  /**
+   * Today's date in JST as YYYY-MM-DD
+   */
+  public today(): string {
+    return this.formatDate(Math.floor(Date.now() / 1000));
+  }
+
+  /**
+   * Unix time of JST midnight on a YYYY-MM-DD date, optionally some days later
+   */
+  public startOfDay(date: string, addDays = 0): number {
+    const [year, month, day] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1, day + addDays) / 1000 - JST_OFFSET_SECONDS;
+  }
+
+  // First day of the JST month containing the date, optionally some months later
+  public startOfMonth(date: string, addMonths = 0): number {
+    const [year, month] = date.split('-').map(Number);
+    return Date.UTC(year, month - 1 + addMonths, 1) / 1000 - JST_OFFSET_SECONDS;
+  }
+
+  public resolveRange(query: Pick<StatisticsQuery, 'from' | 'to'>): StatisticsRange {
+    const to = query.to ?? this.today();
+    const from = query.from ?? this.formatDate(this.startOfDay(to, 1 - DEFAULT_RANGE_DAYS));
+    return { from, to, start: this.startOfDay(from), end: this.startOfDay(to, 1) };
+  }
+
+  /**
+   * SQL bucket key of a unix time column: YYYY-MM-DD for days and weeks (the Monday), YYYY-MM for months
+   */
+  public timeBucket(column: SQLWrapper, grouping: TimeGrouping): SQL<string> {
+    const local = sql`${column} + ${JST_OFFSET_SECONDS}, 'unixepoch'`;
+    switch (grouping) {
+      case 'day':
+        return sql<string>`strftime('%Y-%m-%d', ${local})`;
+      case 'week':
+        // 'weekday 0' moves to the coming Sunday (or stays on one); six days back is that week's Monday
+        return sql<string>`date(${local}, 'weekday 0', '-6 days')`;
+      case 'month':
+        return sql<string>`strftime('%Y-%m', ${local})`;
+    }
+  }
+
+  /**
+   * Every bucket key in the range, oldest first, so empty periods still appear in a series
+   */
+  public timeBuckets(range: StatisticsRange, grouping: TimeGrouping): string[] {
+    const keys: string[] = [];
+    if (grouping === 'month') {
+      for (let month = this.startOfMonth(range.from); month < range.end; month = this.startOfMonth(this.formatDate(month), 1)) {
+        keys.push(this.formatDate(month).slice(0, 7));
+      }
+      return keys;
+    }
+
+    let day = range.start;
+    if (grouping === 'week') {
+      const weekday = new Date((range.start + JST_OFFSET_SECONDS) * 1000).getUTCDay();
+      day -= ((weekday + 6) % 7) * DAY_SECONDS;
+    }
+    const step = grouping === 'week' ? 7 * DAY_SECONDS : DAY_SECONDS;
+    for (; day < range.end; day += step) {
+      keys.push(this.formatDate(day));
+    }
+    return keys;
+  }
+
+  /**
+   * Counts summed over the reports table by the statistics queries. Decisions stay counted once made:
+   * approvals by approval time, rejections by the audit trail, so archiving or resubmitting a report
+   * does not take them back. A report rejected and approved after resubmission counts as both.
+   */
+  public reportCounts() {
+    const everRejected = sql`exists (
+      select 1 from ${reportEvents} where ${reportEvents.reportId} = ${reports.id} and ${reportEvents.eventType} = 'rejected'
+    )`;
+    return {
+      volume: count(),
+      approved: sql<number>`coalesce(sum(${reports.approvedAt} is not null), 0)`,
+      rejected: sql<number>`coalesce(sum(${everRejected}), 0)`,
+      escalated: sql<number>`coalesce(sum(${reports.escalationRequired}), 0)`,
+    };
+  }
+
+  public withRates(counts: Pick<ReportStatisticsCounts, 'volume' | 'approved' | 'rejected' | 'escalated'>): ReportStatisticsCounts {
+    const decided = counts.approved + counts.rejected;
+    return {
+      ...counts,
+      approvalRate: decided > 0 ? this.ratio(counts.approved, decided) : null,
+      rejectionRate: decided > 0 ? this.ratio(counts.rejected, decided) : null,
+      escalationRate: counts.volume > 0 ? this.ratio(counts.escalated, counts.volume) : null,
+    };
+  }
+
+  /**
+   * Median and 90th percentile (nearest rank) of submission-to-decision times given in seconds
+   */
+  public turnaround(durations: number[], thresholdHours: number): TurnaroundSummary {
+    if (durations.length === 0) {
+      return { count: 0, medianHours: null, p90Hours: null, withinSlaRate: null };
+    }
+
+    const sorted = [...durations].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+    const within = sorted.filter(duration => duration <= thresholdHours * 60 * 60).length;
+    return {
+      count: sorted.length,
+      medianHours: this.hours(percentile(0.5)),
+      p90Hours: this.hours(percentile(0.9)),
+      withinSlaRate: this.ratio(within, sorted.length),
+    };
+  }
+
+  // Seconds as hours to one decimal place
+  private hours(seconds: number): number {
+    return Math.round(seconds / 360) / 10;
+  }
+
+  // Rounded to four decimal places, e.g. 0.3333
+  private ratio(part: number, whole: number): number {
+    return Math.round((part / whole) * 10000) / 10000;
+  }
+
+  /**
+   * JST calendar date of a unix time as YYYY-MM-DD
+   */
+  public formatDate(unixTime: number): string {
+    return new Date((unixTime + JST_OFFSET_SECONDS) * 1000).toISOString().slice(0, 10);
+  }
+}
+
+export const statisticsService = new StatisticsService();
@@ -0,0 +1,133 @@
+import type { Report, ReportApprovalStep, ReportStatus, User } from '@shared/schema';
+import { hasRole, type Role } from '../permissions';
+
+export type WorkflowAction = 'submit' | 'withdraw' | 'approve' | 'reject' | 'archive';
+
+interface TransitionRule {
+  from: ReportStatus[];
+  to: ReportStatus;
+  roles: Role[];
+}
+
+// Every status change a report can go through and the roles allowed to trigger it
+const TRANSITIONS: Record<WorkflowAction, TransitionRule> = {
+  submit: { from: ['draft', 'rejected', 'withdrawn'], to: 'pending_approval', roles: ['handler'] },
+  withdraw: { from: ['pending_approval'], to: 'withdrawn', roles: ['handler'] },
+  approve: { from: ['pending_approval'], to: 'approved', roles: ['approver'] },
+  reject: { from: ['pending_approval'], to: 'rejected', roles: ['approver'] },
+  archive: { from: ['approved', 'rejected', 'withdrawn'], to: 'archived', roles: ['admin'] },
+};
+
+const STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: '下書き',
+  pending_approval: '承認待ち',
+  approved: '承認済み',
+  rejected: '差し戻し',
+  withdrawn: '取り下げ',
+  archived: 'アーカイブ',
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  handler: 'ハンドラー',
+  approver: '承認者',
+  admin: '管理者',
+};
+
+// Report content may only change while the handler owns it
+const EDITABLE_STATUSES: ReportStatus[] = ['draft', 'rejected', 'withdrawn'];
+
+export interface WorkflowTransition {
+  action: WorkflowAction;
+  report: Report; // the report after the transition
+  from: ReportStatus;
+  to: ReportStatus;
+  actorId: string;
+  onBehalfOfId: string | null;
+}
+
+export type WorkflowHook = (transition: WorkflowTransition) => void | Promise<void>;
+
+/**
+ * Raised when a report change is not allowed.
+ * status is the HTTP status to answer with: 403 for a missing role, 409 for a conflicting report state.
+ */
+export class WorkflowError extends Error {
+  constructor(message: string, public readonly status: 403 | 409 = 409) {
+    super(message);
+    this.name = 'WorkflowError';
+  }
+}
+
+export class WorkflowService {
+  private hooks: Array<{ action: WorkflowAction | '*'; hook: WorkflowHook }> = [];
+
+  public canTransition(action: WorkflowAction, from: string): boolean {
+    return TRANSITIONS[action].from.includes(from as ReportStatus);
+  }
+
+  /**
+   * Check the actor's role and the report's current status for the action
+   */
+  public assertTransition(action: WorkflowAction, from: string, actor: User): void {
+    const rule = TRANSITIONS[action];
+
+    if (!rule.roles.some(role => hasRole(actor, role))) {
+      const roleLabels = rule.roles.map(role => ROLE_LABELS[role]).join('または');
+      throw new WorkflowError(`この操作には${roleLabels}の権限が必要です`, 403);
+    }
+
+    if (!this.canTransition(action, from)) {
+      const fromLabel = STATUS_LABELS[from as ReportStatus] ?? from;
+      const toLabel = STATUS_LABELS[rule.to];
+      throw new WorkflowError(`報告書のステータスを「${fromLabel}」から「${toLabel}」に変更することはできません`);
+    }
+  }
+
+  public targetStatus(action: WorkflowAction): ReportStatus {
+    return TRANSITIONS[action].to;
+  }
+
+  public isEditable(status: string): boolean {
+    return EDITABLE_STATUSES.includes(status as ReportStatus);
+  }
+
+  public assertEditable(status: string): void {
+    if (!this.isEditable(status)) {
+      throw new WorkflowError(`${STATUS_LABELS[status as ReportStatus] ?? status}の報告書は編集できません`);
+    }
+  }
+
+  /**
+   * A pending report can be withdrawn only while no approver has decided any step of the current round
+   */
+  public assertWithdrawable(steps: ReportApprovalStep[]): void {
+    if (steps.some(step => step.status !== 'pending')) {
+      throw new WorkflowError('承認者が処理を開始したため取り下げできません');
+    }
+  }
+
+  /**
+   * Register a hook that runs after a transition has been committed ('*' = every action)
+   */
+  public on(action: WorkflowAction | '*', hook: WorkflowHook): void {
+    this.hooks.push({ action, hook });
+  }
+
+  /**
+   * Run the hooks for a committed transition.
+   * Hook failures are logged and never undo the transition.
+   */
+  public async runHooks(transition: WorkflowTransition): Promise<void> {
+    for (const { action, hook } of this.hooks) {
+      if (action !== '*' && action !== transition.action) continue;
+
+      try {
+        await hook(transition);
+      } catch (error) {
+        console.error(`Workflow hook for ${transition.action} failed:`, error);
+      }
+    }
+  }
+}
+
+export const workflowService = new WorkflowService();
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import Database from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { reports } from "@shared/schema";
+import { statisticsService } from "./services/statisticsService";
+
+// Only the columns the counts read
+function createDatabase() {
+  const sqlite = new Database(":memory:");
+  sqlite.exec(`
+    CREATE TABLE reports (id TEXT PRIMARY KEY, status TEXT NOT NULL, escalation_required INTEGER NOT NULL, approved_at INTEGER);
+    CREATE TABLE report_events (id TEXT PRIMARY KEY, report_id TEXT NOT NULL, event_type TEXT NOT NULL);
+  `);
+  const addReport = (id: string, status: string, approvedAt: number | null, events: string[], escalated = false) => {
+    sqlite.prepare("INSERT INTO reports VALUES (?, ?, ?, ?)").run(id, status, escalated ? 1 : 0, approvedAt);
+    events.forEach((eventType, i) => {
+      sqlite.prepare("INSERT INTO report_events VALUES (?, ?, ?)").run(`${id}-${i}`, id, eventType);
+    });
+  };
+  return { db: drizzle(sqlite), addReport };
+}
+
+test("decisions stay counted after the report is archived or resubmitted", () => {
+  const { db, addReport } = createDatabase();
+  addReport("approved", "approved", 100, ["created", "submitted", "approved"]);
+  addReport("approved-archived", "archived", 100, ["created", "submitted", "approved", "archived"], true);
+  addReport("rejected", "rejected", null, ["created", "submitted", "rejected"]);
+  addReport("rejected-archived", "archived", null, ["created", "submitted", "rejected", "archived"]);
+  addReport("rejected-resubmitted", "pending_approval", null, ["created", "submitted", "rejected", "submitted"]);
+  addReport("draft", "draft", null, ["created"]);
+
+  const [counts] = db.select(statisticsService.reportCounts()).from(reports).all();
+
+  assert.deepEqual(counts, { volume: 6, approved: 2, rejected: 3, escalated: 1 });
+  assert.equal(statisticsService.withRates(counts).approvalRate, 0.4);
+});
+
+test("a report rejected and then approved counts as both", () => {
+  const { db, addReport } = createDatabase();
+  addReport("second-round", "approved", 200, ["created", "submitted", "rejected", "submitted", "approved"]);
+
+  const [counts] = db.select(statisticsService.reportCounts()).from(reports).all();
+
+  assert.deepEqual(counts, { volume: 1, approved: 1, rejected: 1, escalated: 0 });
+});
+
+test("rates are left empty when nothing was decided", () => {
+  const rates = statisticsService.withRates({ volume: 2, approved: 0, rejected: 0, escalated: 1 });
+
+  assert.equal(rates.approvalRate, null);
+  assert.equal(rates.rejectionRate, null);
+  assert.equal(rates.escalationRate, 0.5);
+});
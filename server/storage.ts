@@ -3,20 +3,132 @@ import {
   financialInstitutions,
   branches,
   reports,
+  reportEvents,
+  reportRevisions,
+  reportRevisionFields,
+  reportSearchFields,
+  reportComments,
+  reportAttachments,
+  reportTemplates,
+  inquiryCategories,
+  reportTags,
+  customers,
+  customerContacts,
+  approvalRules,
+  reportApprovalSteps,
+  approvalDelegations,
+  systemSettings,
+  savedSearches,
+  defaultSegregationPolicy,
+  segregationPolicySchema,
+  reportNumberSequences,
+  defaultReportNumberFormat,
+  reportNumberFormatSchema,
+  defaultApprovalSla,
+  approvalSlaSchema,
   type User,
+  type PublicUser,
   type UpsertUser,
   type InsertFinancialInstitution,
   type FinancialInstitution,
   type InsertBranch,
   type Branch,
+  type BankMasterImportDiff,
   type InsertReport,
   type Report,
   type ReportWithDetails,
-  type UpdateReportStatus,
+  type ReportQuery,
+  type ReportQueryResult,
+  type ReportPeriod,
+  type ReportStatistics,
+  type ReportStatisticsBucket,
+  type StatisticsQuery,
+  type StatisticsGrouping,
+  type SavedSearch,
+  type SavedSearchWithCount,
+  type InsertSavedSearch,
+  type ReportStatus,
+  type ReportEventType,
+  type ReportEventWithActor,
+  type ReportSnapshot,
+  type ReportRevisionWithAuthor,
+  type ReportRevisionComparison,
+  type ApprovalRule,
+  type InsertApprovalRule,
+  type ReportApprovalStep,
+  type ApprovalDelegation,
+  type ApprovalDelegationWithUsers,
+  type InsertApprovalDelegation,
+  type SegregationPolicy,
+  type ReportNumberFormat,
+  type ApprovalSla,
+  type ApprovalTurnaround,
+  type TurnaroundGroup,
+  type ReportComment,
+  type ReportCommentWithAuthor,
+  type InsertReportComment,
+  type ReportAttachment,
+  type ReportAttachmentWithUploader,
+  type InsertReportAttachment,
+  type ReportTemplate,
+  type InsertReportTemplate,
+  type InquiryCategory,
+  type InsertInquiryCategory,
+  type Customer,
+  type CustomerContact,
+  type CustomerWithContacts,
+  type InsertCustomer,
+  type InsertCustomerContact,
 } from "@shared/schema";
 import { db } from "./db";
+import { passwordService } from "./services/passwordService";
+import { approvalService } from "./services/approvalService";
+import { workflowService, WorkflowError, type WorkflowAction } from "./services/workflowService";
+import { reportNumberService } from "./services/reportNumberService";
+import { reportSearchService } from "./services/reportSearchService";
+import { statisticsService, STATISTICS_TIMEZONE, type StatisticsRange } from "./services/statisticsService";
 import { randomUUID } from "crypto";
-import { eq, desc, and, or, like, sql, count } from "drizzle-orm";
+import { eq, ne, asc, desc, and, or, like, sql, count, inArray, gte, lt, lte, getTableColumns, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const SEGREGATION_POLICY_KEY = "segregation_policy";
+const REPORT_NUMBER_FORMAT_KEY = "report_number_format";
+const APPROVAL_SLA_KEY = "approval_sla";
+
+// User columns safe to send to clients: everything but the password hash
+const { password: _password, ...publicUserColumns } = getTableColumns(users);
+
+// Report ids per tag query; SQLite allows at most 32766 bound parameters
+const TAG_LOOKUP_BATCH = 500;
+
+// Audit event recorded for each workflow action
+const actionEventTypes: Record<WorkflowAction, ReportEventType> = {
+  submit: "submitted",
+  withdraw: "withdrawn",
+  approve: "approved",
+  reject: "rejected",
+  archive: "archived",
+};
+
+export interface ReportTransitionOptions {
+  comment?: string;
+  rejectionReason?: string;
+}
+
+// Narrows report lists by classification; a category also matches its subcategories
+export interface ReportClassificationFilter {
+  categoryId?: string;
+  tag?: string;
+}
+
+// Which reports a report query may return; the route derives it from the caller's roles
+export interface ReportVisibility {
+  userId: string;
+  allHandlers: boolean; // otherwise only the user's own reports
+  othersDrafts: boolean; // drafts of other handlers
+}
 
 export interface IStorage {
   // User operations (mandatory for Replit Auth)
@@ -24,207 +136,1498 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   
   // Financial institution operations
-  getFinancialInstitutions(): Promise<FinancialInstitution[]>;
+  getFinancialInstitutions(includeInactive?: boolean): Promise<FinancialInstitution[]>;
   createFinancialInstitution(institution: InsertFinancialInstitution): Promise<FinancialInstitution>;
-  getBranches(institutionId: string): Promise<Branch[]>;
+  updateFinancialInstitution(id: string, institution: Partial<InsertFinancialInstitution>): Promise<FinancialInstitution | undefined>;
+  getBranches(institutionId: string, includeInactive?: boolean): Promise<Branch[]>;
+  getAllBranches(): Promise<Branch[]>;
+  getBranch(id: string): Promise<Branch | undefined>;
   createBranch(branch: InsertBranch): Promise<Branch>;
+  updateBranch(id: string, branch: Partial<Omit<InsertBranch, "institutionId">>): Promise<Branch | undefined>;
+  applyBankMasterImport(diff: BankMasterImportDiff): Promise<void>;
   getInstitutionByCode(bankCode: string): Promise<FinancialInstitution | undefined>;
   getBranchByCode(institutionId: string, branchCode: string): Promise<Branch | undefined>;
+
+  // Customer operations
+  searchCustomers(query: string): Promise<Customer[]>;
+  getCustomer(id: string): Promise<CustomerWithContacts | undefined>;
+  getCustomerByUserNumber(userNumber: string): Promise<CustomerWithContacts | undefined>;
+  createCustomer(customer: InsertCustomer, createdBy: string): Promise<CustomerWithContacts>;
+  updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<CustomerWithContacts | undefined>;
+  addCustomerContact(customerId: string, contact: InsertCustomerContact): Promise<CustomerContact>;
+  getReportsByUserNumber(userNumber: string): Promise<ReportWithDetails[]>;
   
   // Report operations
   createReport(report: InsertReport): Promise<Report>;
-  updateReport(id: string, report: Partial<InsertReport>): Promise<Report>;
-  updateReportStatus(id: string, status: UpdateReportStatus): Promise<Report>;
+  updateReport(id: string, report: Partial<InsertReport>, actorId: string): Promise<Report>;
+  transitionReport(id: string, action: WorkflowAction, actor: User, options?: ReportTransitionOptions): Promise<Report>;
+  getReportHistory(reportId: string): Promise<ReportEventWithActor[]>;
+  getReportEvents(reportIds: string[]): Promise<ReportEventWithActor[]>;
+
+  // Report comment operations
+  getReportComments(reportId: string): Promise<ReportCommentWithAuthor[]>;
+  getReportComment(id: string): Promise<ReportComment | undefined>;
+  createReportComment(reportId: string, authorId: string, comment: InsertReportComment): Promise<ReportComment>;
+  setReportCommentResolved(id: string, resolved: boolean, userId: string): Promise<ReportComment | undefined>;
+
+  // Report attachment operations
+  getReportAttachments(reportId: string): Promise<ReportAttachmentWithUploader[]>;
+  getReportAttachment(id: string): Promise<ReportAttachment | undefined>;
+  createReportAttachment(attachment: InsertReportAttachment): Promise<ReportAttachment>;
+  deleteReportAttachment(id: string): Promise<void>;
+
+  // Inquiry category operations
+  getInquiryCategories(): Promise<InquiryCategory[]>;
+  getInquiryCategory(id: string): Promise<InquiryCategory | undefined>;
+  createInquiryCategory(category: InsertInquiryCategory): Promise<InquiryCategory>;
+  updateInquiryCategory(id: string, category: Partial<InsertInquiryCategory>): Promise<InquiryCategory | undefined>;
+  deleteInquiryCategory(id: string): Promise<boolean>;
+  getAllReportTags(): Promise<string[]>;
+
+  // Report template operations
+  getReportTemplates(): Promise<ReportTemplate[]>;
+  createReportTemplate(template: InsertReportTemplate, createdBy: string): Promise<ReportTemplate>;
+  updateReportTemplate(id: string, template: Partial<InsertReportTemplate>): Promise<ReportTemplate | undefined>;
+  deleteReportTemplate(id: string): Promise<void>;
+  recordReportTemplateUsage(id: string): Promise<ReportTemplate | undefined>;
+
+  // Approval chain operations
+  getApprovalRules(): Promise<ApprovalRule[]>;
+  createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule>;
+  updateApprovalRule(id: string, rule: Partial<InsertApprovalRule>): Promise<ApprovalRule | undefined>;
+  deleteApprovalRule(id: string): Promise<void>;
+  getCurrentApprovalSteps(reportId: string): Promise<ReportApprovalStep[]>;
+
+  // Approval delegation operations
+  getApprovalDelegations(userId?: string): Promise<ApprovalDelegationWithUsers[]>;
+  getApprovalDelegation(id: string): Promise<ApprovalDelegation | undefined>;
+  createApprovalDelegation(delegatorId: string, delegation: InsertApprovalDelegation): Promise<ApprovalDelegation>;
+  deleteApprovalDelegation(id: string): Promise<void>;
+  getActiveDelegators(delegateId: string): Promise<User[]>;
+
+  // Segregation-of-duties operations
+  getSegregationPolicy(): Promise<SegregationPolicy>;
+  updateSegregationPolicy(policy: SegregationPolicy): Promise<SegregationPolicy>;
+  getReportEditorIds(reportIds: string[]): Promise<Record<string, string[]>>;
+
+  // Approval SLA operations
+  getApprovalSla(): Promise<ApprovalSla>;
+  updateApprovalSla(sla: ApprovalSla): Promise<ApprovalSla>;
+  getApprovalTurnaround(query: StatisticsQuery): Promise<ApprovalTurnaround>;
+
+  // Report numbering operations
+  getReportNumberFormat(): Promise<ReportNumberFormat>;
+  updateReportNumberFormat(format: ReportNumberFormat): Promise<ReportNumberFormat>;
+  previewReportNumber(bankCode?: string): Promise<string>;
+
+  getReportRevisions(reportId: string): Promise<ReportRevisionWithAuthor[]>;
+  compareReportRevisions(reportId: string, fromRevision?: number, toRevision?: number): Promise<ReportRevisionComparison | undefined>;
   getReport(id: string): Promise<ReportWithDetails | undefined>;
-  getReportsByUser(userId: string, status?: string): Promise<ReportWithDetails[]>;
-  getReportsForApproval(approverId?: string): Promise<ReportWithDetails[]>;
+  getReportsByUser(userId: string, status?: string, filter?: ReportClassificationFilter): Promise<ReportWithDetails[]>;
+  getReportsForApproval(approverId?: string, filter?: ReportClassificationFilter): Promise<ReportWithDetails[]>;
   getAllReports(limit?: number, offset?: number): Promise<ReportWithDetails[]>;
-  searchReports(query: string, userId?: string): Promise<ReportWithDetails[]>;
+  searchReports(query: string, userId?: string, filter?: ReportClassificationFilter): Promise<ReportWithDetails[]>;
+  queryReports(query: ReportQuery, visibility: ReportVisibility): Promise<ReportQueryResult>;
+  countReports(query: ReportQuery, visibility: ReportVisibility): Promise<number>;
+
+  // Saved search operations
+  getSavedSearches(userId: string): Promise<Omit<SavedSearchWithCount, "count">[]>;
+  getSavedSearch(id: string): Promise<SavedSearch | undefined>;
+  createSavedSearch(userId: string, search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: string, search: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(id: string): Promise<void>;
   
   // Statistics
-  getReportStatistics(): Promise<{
-    todayInquiries: number;
-    pendingApprovals: number;
-    monthlyCompleted: number;
-    escalations: number;
-  }>;
+  getReportStatistics(query: StatisticsQuery, visibility?: ReportVisibility): Promise<ReportStatistics>;
   
   // Users for dropdowns
-  getUsersByRole(role: string): Promise<User[]>;
+  getUsersByRole(role: string): Promise<PublicUser[]>;
 }
 
-export class DatabaseStorage implements IStorage {
-  // User operations (mandatory for Replit Auth)
-  async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+export class DatabaseStorage implements IStorage {
+  // User operations (mandatory for Replit Auth)
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async upsertUser(upsertData: UpsertUser): Promise<User> {
+    const userData = await this.withHashedPassword(upsertData);
+    const existingUser = await this.getUser(userData.id!);
+    
+    if (existingUser) {
+      const [user] = await db
+        .update(users)
+        .set({
+          ...userData,
+          updatedAt: Math.floor(Date.now() / 1000),
+        })
+        .where(eq(users.id, userData.id!))
+        .returning();
+      return user;
+    } else {
+      const currentTimestamp = Math.floor(Date.now() / 1000);
+      const [user] = await db
+        .insert(users)
+        .values({
+          ...userData,
+          createdAt: currentTimestamp,
+          updatedAt: currentTimestamp,
+        })
+        .returning();
+      return user;
+    }
+  }
+
+  // Financial institution operations
+  // Deactivated institutions are left out unless asked for (master maintenance)
+  async getFinancialInstitutions(includeInactive = false): Promise<FinancialInstitution[]> {
+    return await db
+      .select()
+      .from(financialInstitutions)
+      .where(includeInactive ? undefined : eq(financialInstitutions.isActive, true))
+      .orderBy(financialInstitutions.bankName);
+  }
+
+  async createFinancialInstitution(institution: InsertFinancialInstitution): Promise<FinancialInstitution> {
+    const [created] = await db
+      .insert(financialInstitutions)
+      .values({
+        id: randomUUID(),
+        bankCode: institution.bankCode,
+        bankName: institution.bankName,
+        isActive: institution.isActive ?? true,
+        createdAt: Math.floor(Date.now() / 1000),
+      })
+      .returning();
+    return created;
+  }
+
+  async updateFinancialInstitution(id: string, institution: Partial<InsertFinancialInstitution>): Promise<FinancialInstitution | undefined> {
+    const [updated] = await db
+      .update(financialInstitutions)
+      .set({ ...institution, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(eq(financialInstitutions.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getBranches(institutionId: string, includeInactive = false): Promise<Branch[]> {
+    return await db
+      .select()
+      .from(branches)
+      .where(and(
+        eq(branches.institutionId, institutionId),
+        includeInactive ? undefined : eq(branches.isActive, true)
+      ))
+      .orderBy(branches.branchCode);
+  }
+
+  async getAllBranches(): Promise<Branch[]> {
+    return await db.select().from(branches);
+  }
+
+  async getBranch(id: string): Promise<Branch | undefined> {
+    const [branch] = await db.select().from(branches).where(eq(branches.id, id));
+    return branch;
+  }
+
+  async createBranch(branch: InsertBranch): Promise<Branch> {
+    const [created] = await db
+      .insert(branches)
+      .values({
+        id: randomUUID(),
+        institutionId: branch.institutionId,
+        branchCode: branch.branchCode,
+        branchName: branch.branchName,
+        isActive: branch.isActive ?? true,
+        createdAt: Math.floor(Date.now() / 1000),
+      })
+      .returning();
+    return created;
+  }
+
+  async updateBranch(id: string, branch: Partial<Omit<InsertBranch, "institutionId">>): Promise<Branch | undefined> {
+    const [updated] = await db
+      .update(branches)
+      .set({ ...branch, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(eq(branches.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Applies a previewed import in one transaction: additions are inserted, changes renamed
+  // and reactivated, removals deactivated. Institutions go first so new branches can refer to them.
+  async applyBankMasterImport(diff: BankMasterImportDiff): Promise<void> {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+
+    db.transaction((tx) => {
+      for (const entry of diff.institutions.added) {
+        tx.insert(financialInstitutions).values({
+          id: randomUUID(),
+          bankCode: entry.bankCode,
+          bankName: entry.name,
+          createdAt: currentTimestamp,
+        }).run();
+      }
+      for (const entry of diff.institutions.changed) {
+        tx.update(financialInstitutions)
+          .set({ bankName: entry.name, isActive: true, updatedAt: currentTimestamp })
+          .where(eq(financialInstitutions.id, entry.id!))
+          .run();
+      }
+      for (const entry of diff.institutions.removed) {
+        tx.update(financialInstitutions)
+          .set({ isActive: false, updatedAt: currentTimestamp })
+          .where(eq(financialInstitutions.id, entry.id!))
+          .run();
+      }
+
+      const institutionIds = new Map(
+        tx.select({ id: financialInstitutions.id, bankCode: financialInstitutions.bankCode })
+          .from(financialInstitutions)
+          .all()
+          .map((institution) => [institution.bankCode, institution.id])
+      );
+
+      for (const entry of diff.branches.added) {
+        tx.insert(branches).values({
+          id: randomUUID(),
+          institutionId: institutionIds.get(entry.bankCode)!,
+          branchCode: entry.branchCode!,
+          branchName: entry.name,
+          createdAt: currentTimestamp,
+        }).run();
+      }
+      for (const entry of diff.branches.changed) {
+        tx.update(branches)
+          .set({ branchName: entry.name, isActive: true, updatedAt: currentTimestamp })
+          .where(eq(branches.id, entry.id!))
+          .run();
+      }
+      for (const entry of diff.branches.removed) {
+        tx.update(branches)
+          .set({ isActive: false, updatedAt: currentTimestamp })
+          .where(eq(branches.id, entry.id!))
+          .run();
+      }
+    });
+  }
+
+  async getInstitutionByCode(bankCode: string): Promise<FinancialInstitution | undefined> {
+    const [institution] = await db.select().from(financialInstitutions).where(eq(financialInstitutions.bankCode, bankCode));
+    return institution;
+  }
+
+  async getBranchByCode(institutionId: string, branchCode: string): Promise<Branch | undefined> {
+    const [branch] = await db.select().from(branches).where(
+      and(
+        eq(branches.institutionId, institutionId),
+        eq(branches.branchCode, branchCode)
+      )
+    );
+    return branch;
+  }
+
+  // Customer operations
+  // Autocomplete: user numbers starting with the query, or company names containing it
+  async searchCustomers(query: string): Promise<Customer[]> {
+    return db
+      .select()
+      .from(customers)
+      .where(or(like(customers.userNumber, `${query}%`), like(customers.companyName, `%${query}%`)))
+      .orderBy(customers.userNumber)
+      .limit(10);
+  }
+
+  async getCustomer(id: string): Promise<CustomerWithContacts | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer ? this.withContacts(customer) : undefined;
+  }
+
+  async getCustomerByUserNumber(userNumber: string): Promise<CustomerWithContacts | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.userNumber, userNumber));
+    return customer ? this.withContacts(customer) : undefined;
+  }
+
+  private async withContacts(customer: Customer): Promise<CustomerWithContacts> {
+    const contacts = await db
+      .select()
+      .from(customerContacts)
+      .where(eq(customerContacts.customerId, customer.id))
+      .orderBy(customerContacts.createdAt, customerContacts.name);
+    return { ...customer, contacts };
+  }
+
+  async createCustomer(customer: InsertCustomer, createdBy: string): Promise<CustomerWithContacts> {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    const { contacts = [], ...values } = customer;
+
+    return db.transaction((tx) => {
+      const created = tx
+        .insert(customers)
+        .values({
+          ...values,
+          id: randomUUID(),
+          createdBy,
+          createdAt: currentTimestamp,
+          updatedAt: currentTimestamp,
+        })
+        .returning()
+        .get();
+
+      return { ...created, contacts: this.replaceCustomerContacts(tx, created.id, contacts) };
+    });
+  }
+
+  // When contacts are given they replace the existing list
+  async updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<CustomerWithContacts | undefined> {
+    const { contacts, ...values } = customer;
+
+    const updated = db.transaction((tx) => {
+      const row = tx
+        .update(customers)
+        .set({ ...values, updatedAt: Math.floor(Date.now() / 1000) })
+        .where(eq(customers.id, id))
+        .returning()
+        .get();
+
+      if (row && contacts) {
+        this.replaceCustomerContacts(tx, id, contacts);
+      }
+      return row;
+    });
+
+    return updated ? this.withContacts(updated) : undefined;
+  }
+
+  private replaceCustomerContacts(tx: Transaction, customerId: string, contacts: InsertCustomerContact[]): CustomerContact[] {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    tx.delete(customerContacts).where(eq(customerContacts.customerId, customerId)).run();
+    if (contacts.length === 0) return [];
+
+    return tx
+      .insert(customerContacts)
+      .values(contacts.map(contact => ({
+        ...contact,
+        id: randomUUID(),
+        customerId,
+        createdAt: currentTimestamp,
+      })))
+      .returning()
+      .all();
+  }
+
+  async addCustomerContact(customerId: string, contact: InsertCustomerContact): Promise<CustomerContact> {
+    const [created] = await db
+      .insert(customerContacts)
+      .values({
+        ...contact,
+        id: randomUUID(),
+        customerId,
+        createdAt: Math.floor(Date.now() / 1000),
+      })
+      .returning();
+    return created;
+  }
+
+  // Every report filed under a user number, newest first, regardless of handler
+  async getReportsByUserNumber(userNumber: string): Promise<ReportWithDetails[]> {
+    const result = await db
+      .select({
+        report: reports,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
+        approver: {
+          id: sql`approver.id`,
+          firstName: sql`approver.first_name`,
+          lastName: sql`approver.last_name`,
+          roles: sql`approver.roles`,
+          createdAt: sql`approver.created_at`,
+          updatedAt: sql`approver.updated_at`,
+        },
+      })
+      .from(reports)
+      .innerJoin(users, eq(reports.handlerId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
+      .leftJoin(sql`users as approver`, sql`${reports.approverId} = approver.id`)
+      .where(eq(reports.userNumber, userNumber))
+      .orderBy(desc(reports.createdAt));
+
+    const classified = await this.withClassification(result.map(row => row.report));
+    return result.map((row, i) => ({
+      ...classified[i],
+      ...this.bankNamesOf(row),
+      handler: row.handler,
+      approver: row.approver as User,
+    }));
+  }
+
+  // Report operations
+  async createReport(report: InsertReport): Promise<Report> {
+    // Generate ID manually for SQLite
+    const reportId = randomUUID();
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+
+    const { tags, ...values } = report;
+
+    return db.transaction((tx) => {
+      // Issued inside the insert transaction so concurrent creates never share a number
+      const reportNumber = this.issueReportNumber(tx, report.bankCode, new Date(currentTimestamp * 1000));
+
+      const created = tx
+        .insert(reports)
+        .values({
+          ...values,
+          ...this.lookupBankNames(tx, report.bankCode, report.branchCode),
+          id: reportId,
+          reportNumber,
+          createdAt: currentTimestamp,
+          updatedAt: currentTimestamp,
+        })
+        .returning()
+        .get();
+
+      this.recordEvent(tx, {
+        reportId: created.id,
+        actorId: created.handlerId,
+        eventType: "created",
+        toStatus: created.status,
+      });
+      this.recordRevision(tx, created, created.handlerId);
+      reportSearchService.indexReport(tx, created);
+      if (tags) {
+        this.replaceReportTags(tx, created.id, tags);
+      }
+      return created;
+    });
+  }
+
+  async updateReport(id: string, report: Partial<InsertReport>, actorId: string): Promise<Report> {
+    const { tags, ...values } = report;
+
+    return db.transaction((tx) => {
+      const existing = tx.select().from(reports).where(eq(reports.id, id)).get();
+      if (existing) {
+        workflowService.assertEditable(existing.status);
+      }
+
+      // Names follow the codes while the report can still be edited
+      const bankNames = values.bankCode !== undefined || values.branchCode !== undefined
+        ? this.lookupBankNames(tx, values.bankCode ?? existing?.bankCode, values.branchCode ?? existing?.branchCode)
+        : {};
+
+      const updated = tx
+        .update(reports)
+        .set({ ...values, ...bankNames, updatedAt: Math.floor(Date.now() / 1000) })
+        .where(eq(reports.id, id))
+        .returning()
+        .get();
+
+      const changedFields: string[] = (Object.keys(values) as (keyof Report)[])
+        .filter(field => !existing || existing[field] !== updated[field]);
+
+      if (tags && this.replaceReportTags(tx, id, tags)) {
+        changedFields.push("tags");
+      }
+
+      if (changedFields.length > 0) {
+        this.recordEvent(tx, {
+          reportId: id,
+          actorId,
+          eventType: "updated",
+          fromStatus: existing?.status,
+          toStatus: updated.status,
+          changedFields,
+        });
+      }
+
+      if (changedFields.some(field => (reportRevisionFields as readonly string[]).includes(field))) {
+        this.recordRevision(tx, updated, actorId);
+      }
+      if (changedFields.some(field => (reportSearchFields as readonly string[]).includes(field))) {
+        reportSearchService.indexReport(tx, updated);
+      }
+      return updated;
+    });
+  }
+
+  // Master names saved on the report, so it keeps the names it was filed under; null for unknown codes
+  private lookupBankNames(tx: Transaction, bankCode?: string, branchCode?: string): { bankName: string | null; branchName: string | null } {
+    const institution = bankCode
+      ? tx.select().from(financialInstitutions).where(eq(financialInstitutions.bankCode, bankCode)).get()
+      : undefined;
+    const branch = institution && branchCode
+      ? tx.select().from(branches).where(and(eq(branches.institutionId, institution.id), eq(branches.branchCode, branchCode))).get()
+      : undefined;
+
+    return {
+      bankName: institution?.bankName ?? null,
+      branchName: branch?.branchName ?? null,
+    };
+  }
+
+  // Names saved on the report win; older reports fall back to the joined master, unknown codes stay null
+  private bankNamesOf(row: { report: Report; bankMasterName: string | null; branchMasterName: string | null }) {
+    return {
+      bankName: row.report.bankName ?? row.bankMasterName,
+      branchName: row.report.branchName ?? row.branchMasterName,
+    };
+  }
+
+  // Replace a report's tags; returns whether the set of tags changed
+  private replaceReportTags(tx: Transaction, reportId: string, tags: string[]): boolean {
+    const normalized = Array.from(new Set(tags.map(tag => tag.trim()).filter(tag => tag.length > 0)));
+    const current = tx.select({ tag: reportTags.tag }).from(reportTags).where(eq(reportTags.reportId, reportId)).all()
+      .map(row => row.tag);
+
+    if (current.length === normalized.length && normalized.every(tag => current.includes(tag))) {
+      return false;
+    }
+
+    tx.delete(reportTags).where(eq(reportTags.reportId, reportId)).run();
+    if (normalized.length > 0) {
+      tx.insert(reportTags).values(normalized.map(tag => ({ reportId, tag }))).run();
+    }
+    return true;
+  }
+
+  // Apply a workflow action to a report; the only place a report's status changes.
+  // Approvals and rejections are checked against the current step's level, delegations and segregation of duties.
+  async transitionReport(
+    id: string,
+    action: WorkflowAction,
+    actor: User,
+    options: ReportTransitionOptions = {},
+  ): Promise<Report> {
+    const now = Math.floor(Date.now() / 1000);
+    const deciding = action === 'approve' || action === 'reject';
+    const delegators = deciding ? await this.getActiveDelegators(actor.id) : [];
+    const policy = deciding ? await this.getSegregationPolicy() : defaultSegregationPolicy;
+    // Editors cannot change while the report is pending, so these need not be read in the transaction
+    const editorIds = deciding ? (await this.getReportEditorIds([id]))[id] ?? [] : [];
+    let onBehalfOfId: string | null = null;
+
+    const { updated, from } = db.transaction((tx) => {
+      const existing = tx.select().from(reports).where(eq(reports.id, id)).get();
+      if (!existing) {
+        throw new Error(`Report ${id} not found`);
+      }
+
+      // Checked inside the transaction so a concurrent change cannot slip in between
+      workflowService.assertTransition(action, existing.status, actor);
+
+      const updateData: Partial<Report> = {
+        status: workflowService.targetStatus(action),
+        updatedAt: now,
+      };
+      let eventType = actionEventTypes[action];
+
+      if (action === 'submit') {
+        this.openApprovalRound(tx, existing);
+        updateData.submittedAt = now;
+        // A new round has no decision yet; the audit events keep the previous one
+        updateData.decidedAt = null;
+        updateData.approverId = null;
+        updateData.rejectionReason = null;
+      } else if (action === 'withdraw') {
+        const steps = this.getCurrentRoundSteps(tx, id);
+        workflowService.assertWithdrawable(steps);
+
+        for (const step of steps) {
+          tx.update(reportApprovalSteps)
+            .set({ status: "withdrawn", decidedAt: now })
+            .where(eq(reportApprovalSteps.id, step.id))
+            .run();
+        }
+      } else if (action === 'approve' || action === 'reject') {
+        const steps = this.getCurrentRoundSteps(tx, id);
+
+        // The actor decides personally or as a substitute; reports submitted before approval chains existed have no steps
+        if (steps.length > 0) {
+          const actingFor = approvalService.resolveActingFor(actor, delegators, steps);
+          if (actingFor === undefined) {
+            throw new WorkflowError('この承認段階を処理する権限がありません', 403);
+          }
+          onBehalfOfId = actingFor?.id ?? null;
+        }
+
+        // Segregation of duties applies to both the approver and the approver they substitute for
+        const violation = approvalService.findSegregationViolation(policy, existing, editorIds, [actor.id, onBehalfOfId]);
+        if (violation) {
+          throw new WorkflowError(violation, 403);
+        }
+
+        const step = approvalService.currentStep(steps);
+        const stepStatus = action === 'approve' ? 'approved' : 'rejected';
+
+        if (step) {
+          tx.update(reportApprovalSteps)
+            .set({
+              status: stepStatus,
+              approverId: actor.id,
+              onBehalfOfId,
+              comment: options.comment ?? options.rejectionReason ?? null,
+              decidedAt: now,
+            })
+            .where(eq(reportApprovalSteps.id, step.id))
+            .run();
+        }
+
+        const remaining = steps.filter(other => other.status === 'pending' && other.id !== step?.id);
+        if (action === 'approve' && remaining.length > 0) {
+          // Intermediate approval: the report waits for the next level
+          updateData.status = 'pending_approval';
+          eventType = 'step_approved';
+        } else {
+          updateData.approverId = actor.id;
+          updateData.decidedAt = now;
+          if (action === 'approve') {
+            updateData.approvedAt = now;
+          } else {
+            updateData.rejectionReason = options.rejectionReason ?? null;
+            for (const other of remaining) {
+              tx.update(reportApprovalSteps)
+                .set({ status: 'skipped' })
+                .where(eq(reportApprovalSteps.id, other.id))
+                .run();
+            }
+          }
+        }
+      }
+
+      const updated = tx
+        .update(reports)
+        .set(updateData)
+        .where(eq(reports.id, id))
+        .returning()
+        .get();
+
+      this.recordEvent(tx, {
+        reportId: id,
+        actorId: actor.id,
+        onBehalfOfId,
+        eventType,
+        fromStatus: existing.status,
+        toStatus: updated.status,
+        comment: options.comment ?? options.rejectionReason,
+      });
+      return { updated, from: existing.status as ReportStatus };
+    });
+
+    await workflowService.runHooks({
+      action,
+      report: updated,
+      from,
+      to: updated.status as ReportStatus,
+      actorId: actor.id,
+      onBehalfOfId,
+    });
+    return updated;
+  }
+
+  // Inquiry category operations
+  async getInquiryCategories(): Promise<InquiryCategory[]> {
+    return db.select().from(inquiryCategories).orderBy(inquiryCategories.sortOrder, inquiryCategories.name);
+  }
+
+  async getInquiryCategory(id: string): Promise<InquiryCategory | undefined> {
+    const [category] = await db.select().from(inquiryCategories).where(eq(inquiryCategories.id, id));
+    return category;
+  }
+
+  async createInquiryCategory(category: InsertInquiryCategory): Promise<InquiryCategory> {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    const [created] = await db
+      .insert(inquiryCategories)
+      .values({
+        ...category,
+        id: randomUUID(),
+        createdAt: currentTimestamp,
+        updatedAt: currentTimestamp,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateInquiryCategory(id: string, category: Partial<InsertInquiryCategory>): Promise<InquiryCategory | undefined> {
+    const [updated] = await db
+      .update(inquiryCategories)
+      .set({ ...category, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(eq(inquiryCategories.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Categories with subcategories or reports cannot be deleted (deactivate them instead)
+  async deleteInquiryCategory(id: string): Promise<boolean> {
+    return db.transaction((tx) => {
+      const child = tx.select({ id: inquiryCategories.id }).from(inquiryCategories)
+        .where(eq(inquiryCategories.parentId, id)).limit(1).get();
+      const report = tx.select({ id: reports.id }).from(reports)
+        .where(eq(reports.categoryId, id)).limit(1).get();
+      if (child || report) return false;
+
+      tx.delete(inquiryCategories).where(eq(inquiryCategories.id, id)).run();
+      return true;
+    });
+  }
+
+  // Tags already in use, for suggestions in the report form
+  async getAllReportTags(): Promise<string[]> {
+    const rows = await db
+      .select({ tag: reportTags.tag, count: count() })
+      .from(reportTags)
+      .groupBy(reportTags.tag)
+      .orderBy(desc(count()), reportTags.tag);
+    return rows.map(row => row.tag);
+  }
+
+  // Full "parent > child" names keyed by category id
+  private async getCategoryPaths(): Promise<Record<string, string>> {
+    const categories = await this.getInquiryCategories();
+    const byId = new Map(categories.map(category => [category.id, category]));
+    const paths: Record<string, string> = {};
+
+    for (const category of categories) {
+      const names = [category.name];
+      const seen = new Set([category.id]);
+      let parent = category.parentId ? byId.get(category.parentId) : undefined;
+      while (parent && !seen.has(parent.id)) {
+        names.unshift(parent.name);
+        seen.add(parent.id);
+        parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+      }
+      paths[category.id] = names.join(" > ");
+    }
+    return paths;
+  }
+
+  // The category and every category below it
+  private async getCategoryWithDescendants(categoryId: string): Promise<string[]> {
+    const categories = await this.getInquiryCategories();
+    const ids = [categoryId];
+    for (let i = 0; i < ids.length; i++) {
+      for (const category of categories) {
+        if (category.parentId === ids[i] && !ids.includes(category.id)) {
+          ids.push(category.id);
+        }
+      }
+    }
+    return ids;
+  }
+
+  private async classificationCondition(filter?: ReportClassificationFilter): Promise<SQL | undefined> {
+    const conditions: SQL[] = [];
+    if (filter?.categoryId) {
+      conditions.push(inArray(reports.categoryId, await this.getCategoryWithDescendants(filter.categoryId)));
+    }
+    if (filter?.tag) {
+      conditions.push(inArray(
+        reports.id,
+        db.select({ reportId: reportTags.reportId }).from(reportTags).where(eq(reportTags.tag, filter.tag)),
+      ));
+    }
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  // Add category names and tags to report list rows
+  private async withClassification<T extends Report>(rows: T[]): Promise<(T & { categoryName: string | null; tags: string[] })[]> {
+    if (rows.length === 0) return [];
+
+    const paths = await this.getCategoryPaths();
+    const tagsByReport: Record<string, string[]> = {};
+    for (let start = 0; start < rows.length; start += TAG_LOOKUP_BATCH) {
+      const tagRows = await db
+        .select()
+        .from(reportTags)
+        .where(inArray(reportTags.reportId, rows.slice(start, start + TAG_LOOKUP_BATCH).map(row => row.id)))
+        .orderBy(reportTags.tag);
+
+      for (const { reportId, tag } of tagRows) {
+        (tagsByReport[reportId] ??= []).push(tag);
+      }
+    }
+
+    return rows.map(row => ({
+      ...row,
+      categoryName: row.categoryId ? paths[row.categoryId] ?? null : null,
+      tags: tagsByReport[row.id] ?? [],
+    }));
+  }
+
+  // Report template operations
+  async getReportTemplates(): Promise<ReportTemplate[]> {
+    return db.select().from(reportTemplates).orderBy(desc(reportTemplates.usageCount), reportTemplates.name);
+  }
+
+  async createReportTemplate(template: InsertReportTemplate, createdBy: string): Promise<ReportTemplate> {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    const [created] = await db
+      .insert(reportTemplates)
+      .values({
+        ...template,
+        id: randomUUID(),
+        createdBy,
+        createdAt: currentTimestamp,
+        updatedAt: currentTimestamp,
+      })
+      .returning();
+    return created;
+  }
+
+  async updateReportTemplate(id: string, template: Partial<InsertReportTemplate>): Promise<ReportTemplate | undefined> {
+    const [updated] = await db
+      .update(reportTemplates)
+      .set({ ...template, updatedAt: Math.floor(Date.now() / 1000) })
+      .where(eq(reportTemplates.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteReportTemplate(id: string): Promise<void> {
+    await db.delete(reportTemplates).where(eq(reportTemplates.id, id));
+  }
+
+  // Count one use of an active template and return it for prefilling
+  async recordReportTemplateUsage(id: string): Promise<ReportTemplate | undefined> {
+    const [updated] = await db
+      .update(reportTemplates)
+      .set({ usageCount: sql`${reportTemplates.usageCount} + 1` })
+      .where(and(eq(reportTemplates.id, id), eq(reportTemplates.isActive, true)))
+      .returning();
+    return updated;
+  }
+
+  // Approval chain operations
+  async getApprovalRules(): Promise<ApprovalRule[]> {
+    const rules = await db.select().from(approvalRules).orderBy(desc(approvalRules.priority), approvalRules.name);
+    return rules.map(rule => this.parseApprovalRule(rule));
+  }
+
+  async createApprovalRule(rule: InsertApprovalRule): Promise<ApprovalRule> {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    const [created] = await db
+      .insert(approvalRules)
+      .values({
+        ...rule,
+        id: randomUUID(),
+        levels: JSON.stringify(rule.levels),
+        createdAt: currentTimestamp,
+        updatedAt: currentTimestamp,
+      })
+      .returning();
+    return this.parseApprovalRule(created);
+  }
+
+  async updateApprovalRule(id: string, rule: Partial<InsertApprovalRule>): Promise<ApprovalRule | undefined> {
+    const [updated] = await db
+      .update(approvalRules)
+      .set({
+        ...rule,
+        levels: rule.levels ? JSON.stringify(rule.levels) : undefined,
+        updatedAt: Math.floor(Date.now() / 1000),
+      })
+      .where(eq(approvalRules.id, id))
+      .returning();
+    return updated ? this.parseApprovalRule(updated) : undefined;
+  }
+
+  async deleteApprovalRule(id: string): Promise<void> {
+    await db.delete(approvalRules).where(eq(approvalRules.id, id));
+  }
+
+  async getCurrentApprovalSteps(reportId: string): Promise<ReportApprovalStep[]> {
+    return this.getCurrentRoundSteps(db, reportId);
+  }
+
+  private getCurrentRoundSteps(executor: Transaction | typeof db, reportId: string): ReportApprovalStep[] {
+    const steps = executor
+      .select()
+      .from(reportApprovalSteps)
+      .where(eq(reportApprovalSteps.reportId, reportId))
+      .orderBy(reportApprovalSteps.stepOrder)
+      .all();
+
+    const round = Math.max(0, ...steps.map(step => step.round));
+    return steps.filter(step => step.round === round);
+  }
+
+  // Create the pending steps for a new submission round of the report
+  private openApprovalRound(tx: Transaction, report: Report): void {
+    const rules = tx.select().from(approvalRules).all().map(rule => this.parseApprovalRule(rule));
+    const levels = approvalService.resolveLevels(rules, report);
+
+    const [{ latest }] = tx
+      .select({ latest: sql<number>`coalesce(max(${reportApprovalSteps.round}), 0)` })
+      .from(reportApprovalSteps)
+      .where(eq(reportApprovalSteps.reportId, report.id))
+      .all();
+
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    levels.forEach((requiredLevel, index) => {
+      tx.insert(reportApprovalSteps)
+        .values({
+          id: randomUUID(),
+          reportId: report.id,
+          round: latest + 1,
+          stepOrder: index + 1,
+          requiredLevel,
+          status: "pending",
+          createdAt: currentTimestamp,
+        })
+        .run();
+    });
+  }
+
+  private parseApprovalRule(rule: typeof approvalRules.$inferSelect): ApprovalRule {
+    return { ...rule, levels: JSON.parse(rule.levels) as number[] };
+  }
+
+  // Approval delegation operations
+  async getApprovalDelegations(userId?: string): Promise<ApprovalDelegationWithUsers[]> {
+    const delegator = alias(users, "delegator");
+    const delegate = alias(users, "delegate");
+
+    const result = await db
+      .select({
+        delegation: approvalDelegations,
+        delegator: {
+          id: delegator.id,
+          firstName: delegator.firstName,
+          lastName: delegator.lastName,
+        },
+        delegate: {
+          id: delegate.id,
+          firstName: delegate.firstName,
+          lastName: delegate.lastName,
+        },
+      })
+      .from(approvalDelegations)
+      .leftJoin(delegator, eq(approvalDelegations.delegatorId, delegator.id))
+      .leftJoin(delegate, eq(approvalDelegations.delegateId, delegate.id))
+      .where(userId
+        ? or(eq(approvalDelegations.delegatorId, userId), eq(approvalDelegations.delegateId, userId))
+        : undefined)
+      .orderBy(desc(approvalDelegations.startDate));
+
+    return result.map(row => ({
+      ...row.delegation,
+      delegator: row.delegator,
+      delegate: row.delegate,
+    }));
+  }
+
+  async getApprovalDelegation(id: string): Promise<ApprovalDelegation | undefined> {
+    const [delegation] = await db.select().from(approvalDelegations).where(eq(approvalDelegations.id, id));
+    return delegation;
+  }
+
+  async createApprovalDelegation(delegatorId: string, delegation: InsertApprovalDelegation): Promise<ApprovalDelegation> {
+    const [created] = await db
+      .insert(approvalDelegations)
+      .values({
+        ...delegation,
+        id: randomUUID(),
+        delegatorId,
+        createdAt: Math.floor(Date.now() / 1000),
+      })
+      .returning();
+    return created;
+  }
+
+  async deleteApprovalDelegation(id: string): Promise<void> {
+    await db.delete(approvalDelegations).where(eq(approvalDelegations.id, id));
+  }
+
+  // Approvers who have delegated their approvals to the user for today; delegation dates are JST calendar days
+  async getActiveDelegators(delegateId: string): Promise<User[]> {
+    const today = statisticsService.today();
+    const result = await db
+      .select({ delegator: users })
+      .from(approvalDelegations)
+      .innerJoin(users, eq(approvalDelegations.delegatorId, users.id))
+      .where(and(
+        eq(approvalDelegations.delegateId, delegateId),
+        lte(approvalDelegations.startDate, today),
+        gte(approvalDelegations.endDate, today),
+      ));
+
+    return result.map(row => row.delegator);
+  }
+
+  // Segregation-of-duties operations
+  async getSegregationPolicy(): Promise<SegregationPolicy> {
+    const [setting] = await db.select().from(systemSettings).where(eq(systemSettings.key, SEGREGATION_POLICY_KEY));
+    if (!setting) return defaultSegregationPolicy;
+
+    // Fall back to the defaults for keys missing from older stored values
+    return segregationPolicySchema.parse({ ...defaultSegregationPolicy, ...JSON.parse(setting.value) });
+  }
+
+  async updateSegregationPolicy(policy: SegregationPolicy): Promise<SegregationPolicy> {
+    const value = JSON.stringify(policy);
+    const updatedAt = Math.floor(Date.now() / 1000);
+
+    await db
+      .insert(systemSettings)
+      .values({ key: SEGREGATION_POLICY_KEY, value, updatedAt })
+      .onConflictDoUpdate({ target: systemSettings.key, set: { value, updatedAt } });
+    return policy;
+  }
+
+  // Approval SLA operations
+  async getApprovalSla(): Promise<ApprovalSla> {
+    const [setting] = await db.select().from(systemSettings).where(eq(systemSettings.key, APPROVAL_SLA_KEY));
+    if (!setting) return defaultApprovalSla;
+    return approvalSlaSchema.parse({ ...defaultApprovalSla, ...JSON.parse(setting.value) });
+  }
+
+  async updateApprovalSla(sla: ApprovalSla): Promise<ApprovalSla> {
+    const value = JSON.stringify(sla);
+    const updatedAt = Math.floor(Date.now() / 1000);
+
+    await db
+      .insert(systemSettings)
+      .values({ key: APPROVAL_SLA_KEY, value, updatedAt })
+      .onConflictDoUpdate({ target: systemSettings.key, set: { value, updatedAt } });
+    return sla;
+  }
+
+  // Submission-to-decision times of reports whose final decision falls in the range
+  async getApprovalTurnaround(query: StatisticsQuery): Promise<ApprovalTurnaround> {
+    const range = statisticsService.resolveRange(query);
+    const trendGrouping = statisticsService.isTimeGrouping(query.groupBy) ? query.groupBy : "day";
+    const sla = await this.getApprovalSla();
+
+    const rows = await db
+      .select({
+        duration: sql<number>`${reports.decidedAt} - ${reports.submittedAt}`,
+        bucket: statisticsService.timeBucket(reports.decidedAt, trendGrouping),
+        bankCode: reports.bankCode,
+        bankName: financialInstitutions.bankName,
+        approver: users,
+      })
+      .from(reports)
+      .leftJoin(users, eq(reports.approverId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .where(and(
+        gte(reports.decidedAt, range.start),
+        lt(reports.decidedAt, range.end),
+        sql`${reports.submittedAt} is not null`,
+      ));
+
+    const groupTurnaround = (keyOf: (row: typeof rows[number]) => { key: string; label: string }): TurnaroundGroup[] => {
+      const groups = new Map<string, { label: string; durations: number[] }>();
+      for (const row of rows) {
+        const { key, label } = keyOf(row);
+        const group = groups.get(key) ?? { label, durations: [] };
+        group.durations.push(row.duration);
+        groups.set(key, group);
+      }
+      return Array.from(groups, ([key, group]) => ({
+        key,
+        label: group.label,
+        ...statisticsService.turnaround(group.durations, sla.thresholdHours),
+      })).sort((a, b) => (b.medianHours ?? 0) - (a.medianHours ?? 0));
+    };
+
+    const [overdueResult] = await db
+      .select({ count: count() })
+      .from(reports)
+      .where(this.slaOverdueCondition(sla));
+
+    return {
+      range: { from: range.from, to: range.to, timezone: STATISTICS_TIMEZONE },
+      thresholdHours: sla.thresholdHours,
+      overall: statisticsService.turnaround(rows.map(row => row.duration), sla.thresholdHours),
+      byApprover: groupTurnaround(row => ({
+        key: row.approver?.id ?? "",
+        label: row.approver ? `${row.approver.firstName ?? ""} ${row.approver.lastName ?? ""}`.trim() || row.approver.username : "不明",
+      })),
+      byBank: groupTurnaround(row => ({
+        key: row.bankCode,
+        label: `${row.bankCode}${row.bankName ? ` ${row.bankName}` : ""}`,
+      })),
+      trend: statisticsService.timeBuckets(range, trendGrouping).map(bucket => ({
+        key: bucket,
+        label: bucket,
+        ...statisticsService.turnaround(
+          rows.filter(row => row.bucket === bucket).map(row => row.duration),
+          sla.thresholdHours,
+        ),
+      })),
+      overduePending: overdueResult?.count || 0,
+    };
+  }
+
+  // Reports submitted before this unix time have waited longer than the SLA allows
+  private slaDeadline(sla: ApprovalSla): number {
+    return Math.floor(Date.now() / 1000) - sla.thresholdHours * 60 * 60;
+  }
+
+  // Pending reports past the SLA; reports submitted before submission times were recorded fall back to creation
+  private slaOverdueCondition(sla: ApprovalSla) {
+    return and(
+      eq(reports.status, "pending_approval"),
+      lt(sql`coalesce(${reports.submittedAt}, ${reports.createdAt})`, this.slaDeadline(sla)),
+    );
+  }
+
+  // Report numbering operations
+  async getReportNumberFormat(): Promise<ReportNumberFormat> {
+    return this.readReportNumberFormat(db);
+  }
+
+  async updateReportNumberFormat(format: ReportNumberFormat): Promise<ReportNumberFormat> {
+    const value = JSON.stringify(format);
+    const updatedAt = Math.floor(Date.now() / 1000);
+
+    await db
+      .insert(systemSettings)
+      .values({ key: REPORT_NUMBER_FORMAT_KEY, value, updatedAt })
+      .onConflictDoUpdate({ target: systemSettings.key, set: { value, updatedAt } });
+    return format;
+  }
+
+  // Number the next report would get, without consuming it
+  async previewReportNumber(bankCode?: string): Promise<string> {
+    const format = this.readReportNumberFormat(db);
+    const scope = reportNumberService.scope(format, new Date(), bankCode);
+    return reportNumberService.format(scope, this.lastIssuedSequence(db, scope) + 1, format);
+  }
+
+  private readReportNumberFormat(tx: Transaction | typeof db): ReportNumberFormat {
+    const setting = tx.select().from(systemSettings).where(eq(systemSettings.key, REPORT_NUMBER_FORMAT_KEY)).get();
+    if (!setting) return defaultReportNumberFormat;
+
+    return reportNumberFormatSchema.parse({ ...defaultReportNumberFormat, ...JSON.parse(setting.value) });
+  }
+
+  // Current counter of a scope; a scope without a counter continues after numbers already in use
+  private lastIssuedSequence(tx: Transaction | typeof db, scope: string): number {
+    const sequence = tx.select().from(reportNumberSequences).where(eq(reportNumberSequences.scope, scope)).get();
+    if (sequence) return sequence.lastValue;
+
+    const issued = tx
+      .select({ reportNumber: reports.reportNumber })
+      .from(reports)
+      .where(like(reports.reportNumber, scope ? `${scope}-%` : '%'))
+      .all();
+    return reportNumberService.maxSequence(scope, issued.map(row => row.reportNumber));
+  }
+
+  private issueReportNumber(tx: Transaction, bankCode: string | undefined, date: Date): string {
+    const format = this.readReportNumberFormat(tx);
+    const scope = reportNumberService.scope(format, date, bankCode);
+    const updatedAt = Math.floor(date.getTime() / 1000);
+
+    const { lastValue } = tx
+      .insert(reportNumberSequences)
+      .values({ scope, lastValue: this.lastIssuedSequence(tx, scope) + 1, updatedAt })
+      .onConflictDoUpdate({
+        target: reportNumberSequences.scope,
+        set: { lastValue: sql`${reportNumberSequences.lastValue} + 1`, updatedAt },
+      })
+      .returning()
+      .get();
+
+    return reportNumberService.format(scope, lastValue, format);
+  }
+
+  // Users who created or edited each report, taken from the audit trail
+  async getReportEditorIds(reportIds: string[]): Promise<Record<string, string[]>> {
+    if (reportIds.length === 0) return {};
+
+    const rows = await db
+      .selectDistinct({ reportId: reportEvents.reportId, actorId: reportEvents.actorId })
+      .from(reportEvents)
+      .where(and(
+        inArray(reportEvents.reportId, reportIds),
+        inArray(reportEvents.eventType, ["created", "updated"]),
+      ));
+
+    const editors: Record<string, string[]> = {};
+    for (const row of rows) {
+      if (row.actorId) {
+        (editors[row.reportId] ??= []).push(row.actorId);
+      }
+    }
+    return editors;
+  }
+
+  async getReportHistory(reportId: string): Promise<ReportEventWithActor[]> {
+    return this.getReportEvents([reportId]);
+  }
+
+  // Events of several reports in one chronological list
+  async getReportEvents(reportIds: string[]): Promise<ReportEventWithActor[]> {
+    if (reportIds.length === 0) return [];
+
+    const onBehalfOf = alias(users, "on_behalf_of");
+
+    const result = await db
+      .select({
+        event: reportEvents,
+        actor: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+        onBehalfOf: {
+          id: onBehalfOf.id,
+          firstName: onBehalfOf.firstName,
+          lastName: onBehalfOf.lastName,
+        },
+      })
+      .from(reportEvents)
+      .leftJoin(users, eq(reportEvents.actorId, users.id))
+      .leftJoin(onBehalfOf, eq(reportEvents.onBehalfOfId, onBehalfOf.id))
+      .where(inArray(reportEvents.reportId, reportIds))
+      .orderBy(reportEvents.createdAt, sql`report_events.rowid`);
+
+    return result.map(row => ({
+      ...row.event,
+      actor: row.actor,
+      onBehalfOf: row.onBehalfOf,
+    }));
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user;
-  }
+  // Report comment operations
+  async getReportComments(reportId: string): Promise<ReportCommentWithAuthor[]> {
+    const resolver = alias(users, "resolver");
 
-  async upsertUser(userData: UpsertUser): Promise<User> {
-    const existingUser = await this.getUser(userData.id!);
-    
-    if (existingUser) {
-      const [user] = await db
-        .update(users)
-        .set({
-          ...userData,
-          updatedAt: Math.floor(Date.now() / 1000),
-        })
-        .where(eq(users.id, userData.id!))
-        .returning();
-      return user;
-    } else {
-      const currentTimestamp = Math.floor(Date.now() / 1000);
-      const [user] = await db
-        .insert(users)
-        .values({
-          ...userData,
-          createdAt: currentTimestamp,
-          updatedAt: currentTimestamp,
-        })
-        .returning();
-      return user;
-    }
+    const result = await db
+      .select({
+        comment: reportComments,
+        author: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+        resolver: {
+          id: resolver.id,
+          firstName: resolver.firstName,
+          lastName: resolver.lastName,
+        },
+      })
+      .from(reportComments)
+      .leftJoin(users, eq(reportComments.authorId, users.id))
+      .leftJoin(resolver, eq(reportComments.resolvedBy, resolver.id))
+      .where(eq(reportComments.reportId, reportId))
+      .orderBy(reportComments.createdAt, sql`report_comments.rowid`);
+
+    return result.map(row => ({
+      ...row.comment,
+      author: row.author,
+      resolver: row.resolver,
+    }));
   }
 
-  // Financial institution operations
-  async getFinancialInstitutions(): Promise<FinancialInstitution[]> {
-    return await db.select().from(financialInstitutions).orderBy(financialInstitutions.bankName);
+  async getReportComment(id: string): Promise<ReportComment | undefined> {
+    const [comment] = await db.select().from(reportComments).where(eq(reportComments.id, id));
+    return comment;
   }
 
-  async createFinancialInstitution(institution: InsertFinancialInstitution): Promise<FinancialInstitution> {
+  async createReportComment(reportId: string, authorId: string, comment: InsertReportComment): Promise<ReportComment> {
     const [created] = await db
-      .insert(financialInstitutions)
+      .insert(reportComments)
       .values({
         id: randomUUID(),
-        bankCode: institution.bankCode,
-        bankName: institution.bankName,
+        reportId,
+        authorId,
+        parentId: comment.parentId ?? null,
+        fieldName: comment.fieldName ?? null,
+        body: comment.body,
         createdAt: Math.floor(Date.now() / 1000),
       })
       .returning();
     return created;
   }
 
-  async getBranches(institutionId: string): Promise<Branch[]> {
-    return await db.select().from(branches).where(eq(branches.institutionId, institutionId)).orderBy(branches.branchName);
+  // Resolving a comment resolves its whole thread, so replies are updated too
+  async setReportCommentResolved(id: string, resolved: boolean, userId: string): Promise<ReportComment | undefined> {
+    const values = resolved
+      ? { resolvedAt: Math.floor(Date.now() / 1000), resolvedBy: userId }
+      : { resolvedAt: null, resolvedBy: null };
+
+    await db
+      .update(reportComments)
+      .set(values)
+      .where(or(eq(reportComments.id, id), eq(reportComments.parentId, id)));
+    return this.getReportComment(id);
   }
 
-  async createBranch(branch: InsertBranch): Promise<Branch> {
+  // Report attachment operations
+  async getReportAttachments(reportId: string): Promise<ReportAttachmentWithUploader[]> {
+    const result = await db
+      .select({
+        attachment: reportAttachments,
+        uploader: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(reportAttachments)
+      .leftJoin(users, eq(reportAttachments.uploadedBy, users.id))
+      .where(eq(reportAttachments.reportId, reportId))
+      .orderBy(reportAttachments.createdAt, sql`report_attachments.rowid`);
+
+    return result.map(row => ({
+      ...row.attachment,
+      uploader: row.uploader,
+    }));
+  }
+
+  async getReportAttachment(id: string): Promise<ReportAttachment | undefined> {
+    const [attachment] = await db.select().from(reportAttachments).where(eq(reportAttachments.id, id));
+    return attachment;
+  }
+
+  async createReportAttachment(attachment: InsertReportAttachment): Promise<ReportAttachment> {
     const [created] = await db
-      .insert(branches)
+      .insert(reportAttachments)
       .values({
+        ...attachment,
         id: randomUUID(),
-        institutionId: branch.institutionId,
-        branchCode: branch.branchCode,
-        branchName: branch.branchName,
         createdAt: Math.floor(Date.now() / 1000),
       })
       .returning();
     return created;
   }
 
-  async getInstitutionByCode(bankCode: string): Promise<FinancialInstitution | undefined> {
-    const [institution] = await db.select().from(financialInstitutions).where(eq(financialInstitutions.bankCode, bankCode));
-    return institution;
+  async deleteReportAttachment(id: string): Promise<void> {
+    await db.delete(reportAttachments).where(eq(reportAttachments.id, id));
   }
 
-  async getBranchByCode(institutionId: string, branchCode: string): Promise<Branch | undefined> {
-    const [branch] = await db.select().from(branches).where(
-      and(
-        eq(branches.institutionId, institutionId),
-        eq(branches.branchCode, branchCode)
-      )
-    );
-    return branch;
+  async getReportRevisions(reportId: string): Promise<ReportRevisionWithAuthor[]> {
+    const result = await db
+      .select({
+        revision: reportRevisions,
+        author: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(reportRevisions)
+      .leftJoin(users, eq(reportRevisions.createdBy, users.id))
+      .where(eq(reportRevisions.reportId, reportId))
+      .orderBy(reportRevisions.revisionNumber);
+
+    return result.map(row => ({
+      ...row.revision,
+      snapshot: JSON.parse(row.revision.snapshot) as ReportSnapshot,
+      author: row.author,
+    }));
   }
 
-  // Report operations
-  async createReport(report: InsertReport): Promise<Report> {
-    // Generate report number
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    
-    // Get count of reports this month to generate sequential number
-    const monthStart = new Date(year, now.getMonth(), 1);
-    const monthEnd = new Date(year, now.getMonth() + 1, 0);
-    const monthStartTimestamp = Math.floor(monthStart.getTime() / 1000);
-    const monthEndTimestamp = Math.floor(monthEnd.getTime() / 1000);
-    
-    const [{ value: monthlyCount }] = await db
-      .select({ value: count() })
-      .from(reports)
-      .where(
-        and(
-          sql`${reports.createdAt} >= ${monthStartTimestamp}`,
-          sql`${reports.createdAt} <= ${monthEndTimestamp}`
-        )
-      );
+  // Compare two revisions. Defaults: "to" is the latest revision and "from" is the
+  // revision the approver last rejected (or the one just before "to").
+  async compareReportRevisions(
+    reportId: string,
+    fromRevision?: number,
+    toRevision?: number,
+  ): Promise<ReportRevisionComparison | undefined> {
+    const revisions = await this.getReportRevisions(reportId);
+    if (revisions.length === 0) return undefined;
 
-    const reportNumber = `RPT-${year}-${month}-${String((monthlyCount || 0) + 1).padStart(3, '0')}`;
-    
-    // Generate ID manually for SQLite
-    const reportId = randomUUID();
-    const currentTimestamp = Math.floor(Date.now() / 1000);
+    const to = toRevision !== undefined
+      ? revisions.find(revision => revision.revisionNumber === toRevision)
+      : revisions[revisions.length - 1];
+    if (!to) return undefined;
 
-    const [created] = await db
-      .insert(reports)
-      .values({
-        ...report,
-        id: reportId,
-        reportNumber,
-        createdAt: currentTimestamp,
-        updatedAt: currentTimestamp,
-      })
-      .returning();
-    return created;
-  }
+    let from;
+    if (fromRevision !== undefined) {
+      from = revisions.find(revision => revision.revisionNumber === fromRevision);
+    } else {
+      const earlier = revisions.filter(revision => revision.revisionNumber < to.revisionNumber);
+      const [lastRejection] = await db
+        .select({ createdAt: reportEvents.createdAt })
+        .from(reportEvents)
+        .where(and(eq(reportEvents.reportId, reportId), eq(reportEvents.eventType, "rejected")))
+        .orderBy(desc(reportEvents.createdAt))
+        .limit(1);
 
-  async updateReport(id: string, report: Partial<InsertReport>): Promise<Report> {
-    const [updated] = await db
-      .update(reports)
-      .set({ ...report, updatedAt: Math.floor(Date.now() / 1000) })
-      .where(eq(reports.id, id))
-      .returning();
-    return updated;
-  }
+      const rejected = lastRejection
+        ? earlier.filter(revision => revision.createdAt <= lastRejection.createdAt).pop()
+        : undefined;
+      from = rejected ?? earlier.pop() ?? to;
+    }
+    if (!from) return undefined;
 
-  async updateReportStatus(id: string, statusUpdate: UpdateReportStatus): Promise<Report> {
-    const updateData: any = {
-      status: statusUpdate.status,
-      updatedAt: Math.floor(Date.now() / 1000),
-    };
+    const changes = reportRevisionFields
+      .filter(field => from.snapshot[field] !== to.snapshot[field])
+      .map(field => ({ field, from: from.snapshot[field], to: to.snapshot[field] }));
 
-    if (statusUpdate.status === 'approved') {
-      updateData.approvedAt = statusUpdate.approvedAt || Math.floor(Date.now() / 1000);
-    }
+    return { from, to, changes };
+  }
 
-    if (statusUpdate.rejectionReason) {
-      updateData.rejectionReason = statusUpdate.rejectionReason;
-    }
+  // Store a content snapshot; must run inside the transaction that saved the report
+  private recordRevision(tx: Transaction, report: Report, actorId: string | null): void {
+    const [{ latest }] = tx
+      .select({ latest: sql<number>`coalesce(max(${reportRevisions.revisionNumber}), 0)` })
+      .from(reportRevisions)
+      .where(eq(reportRevisions.reportId, report.id))
+      .all();
 
-    if (statusUpdate.approverId) {
-      updateData.approverId = statusUpdate.approverId;
-    }
+    const snapshot = Object.fromEntries(reportRevisionFields.map(field => [field, report[field]]));
 
-    const [updated] = await db
-      .update(reports)
-      .set(updateData)
-      .where(eq(reports.id, id))
-      .returning();
-    return updated;
+    tx.insert(reportRevisions)
+      .values({
+        id: randomUUID(),
+        reportId: report.id,
+        revisionNumber: latest + 1,
+        snapshot: JSON.stringify(snapshot),
+        status: report.status,
+        createdBy: actorId,
+        createdAt: Math.floor(Date.now() / 1000),
+      })
+      .run();
+  }
+
+  // Append an audit event; must run inside the transaction that made the change
+  private recordEvent(tx: Transaction, event: {
+    reportId: string;
+    actorId: string | null;
+    onBehalfOfId?: string | null;
+    eventType: ReportEventType;
+    fromStatus?: string | null;
+    toStatus?: string | null;
+    changedFields?: string[];
+    comment?: string | null;
+  }): void {
+    tx.insert(reportEvents)
+      .values({
+        id: randomUUID(),
+        reportId: event.reportId,
+        actorId: event.actorId,
+        onBehalfOfId: event.onBehalfOfId ?? null,
+        eventType: event.eventType,
+        fromStatus: event.fromStatus ?? null,
+        toStatus: event.toStatus ?? null,
+        changedFields: event.changedFields ? JSON.stringify(event.changedFields) : null,
+        comment: event.comment ?? null,
+        createdAt: Math.floor(Date.now() / 1000),
+      })
+      .run();
   }
 
   async getReport(id: string): Promise<ReportWithDetails | undefined> {
     const result = await db
       .select({
         report: reports,
-        handler: users,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
         approver: {
           id: sql`approver.id`,
 
@@ -238,6 +1641,8 @@ export class DatabaseStorage implements IStorage {
       })
       .from(reports)
       .innerJoin(users, eq(reports.handlerId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
   .leftJoin(sql`users as approver`, sql`${reports.approverId} = approver.id`)
       .where(eq(reports.id, id))
       .limit(1);
@@ -245,17 +1650,20 @@ export class DatabaseStorage implements IStorage {
     if (!result.length) return undefined;
 
     const row = result[0];
+    const [classified] = await this.withClassification([row.report]);
     return {
-      ...row.report,
+      ...classified,
+      ...this.bankNamesOf(row),
       handler: row.handler,
       approver: row.approver as User,
+      approvalSteps: await this.getCurrentApprovalSteps(id),
     };
   }
 
-  async getReportsByUser(userId: string, status?: string): Promise<ReportWithDetails[]> {
+  async getReportsByUser(userId: string, status?: string, filter?: ReportClassificationFilter): Promise<ReportWithDetails[]> {
     console.log('getReportsByUser called with userId:', userId, 'status:', status);
     
-    let whereCondition = eq(reports.handlerId, userId);
+    let whereCondition = and(eq(reports.handlerId, userId), await this.classificationCondition(filter));
     
     // Add status filter if provided
     if (status && status !== 'all') {
@@ -265,7 +1673,9 @@ export class DatabaseStorage implements IStorage {
     const result = await db
       .select({
         report: reports,
-        handler: users,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
         approver: {
           id: sql`approver.id`,
           firstName: sql`approver.first_name`,
@@ -277,48 +1687,110 @@ export class DatabaseStorage implements IStorage {
       })
       .from(reports)
       .innerJoin(users, eq(reports.handlerId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
       .leftJoin(sql`users as approver`, sql`${reports.approverId} = approver.id`)
       .where(whereCondition)
       .orderBy(desc(reports.createdAt));
 
     console.log('getReportsByUser result count:', result.length);
 
-    return result.map(row => ({
-      ...row.report,
+    const classified = await this.withClassification(result.map(row => row.report));
+    return result.map((row, i) => ({
+      ...classified[i],
+      ...this.bankNamesOf(row),
       handler: row.handler,
       approver: row.approver as User,
     }));
   }
 
-  async getReportsForApproval(approverId?: string): Promise<ReportWithDetails[]> {
+  async getReportsForApproval(approverId?: string, filter?: ReportClassificationFilter): Promise<ReportWithDetails[]> {
     console.log('getReportsForApproval called with approverId:', approverId);
     
     // Simplified query - just get pending reports with handler info
     const result = await db
       .select({
         report: reports,
-        handler: users,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
       })
       .from(reports)
       .innerJoin(users, eq(reports.handlerId, users.id))
-      .where(eq(reports.status, "pending_approval"))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
+      .where(and(eq(reports.status, "pending_approval"), await this.classificationCondition(filter)))
       .orderBy(desc(reports.createdAt));
 
     console.log('getReportsForApproval result count:', result.length);
-    console.log('getReportsForApproval result:', result);
 
-    return result.map(row => ({
-      ...row.report,
-      handler: row.handler,
-      approver: null, // For now, just set approver to null since it's pending
-    }));
+    const classified = await this.withClassification(result.map(row => row.report));
+
+    const stepsByReport = await this.getCurrentApprovalStepsByReport(result.map(row => row.report.id));
+    const approver = approverId ? await this.getUser(approverId) : undefined;
+    const delegators = approverId ? await this.getActiveDelegators(approverId) : [];
+    const policy = await this.getSegregationPolicy();
+    const editorsByReport = approver ? await this.getReportEditorIds(result.map(row => row.report.id)) : {};
+    const overdueBefore = this.slaDeadline(await this.getApprovalSla());
+
+    return result
+      .map((row, i) => ({
+        ...classified[i],
+        ...this.bankNamesOf(row),
+        handler: row.handler,
+        approver: null, // For now, just set approver to null since it's pending
+        approvalSteps: stepsByReport[row.report.id] ?? [],
+        slaOverdue: (row.report.submittedAt ?? row.report.createdAt ?? 0) < overdueBefore,
+      }))
+      .flatMap(report => {
+        if (!approver) return [report];
+
+        // Each approver only sees reports whose current step is waiting on them or on someone they substitute for;
+        // reports submitted before approval chains existed have no steps and stay visible
+        const actingFor = report.approvalSteps.length === 0
+          ? null
+          : approvalService.resolveActingFor(approver, delegators, report.approvalSteps);
+        if (actingFor === undefined) return [];
+
+        // Reports blocked by segregation of duties stay listed so the queue can show why
+        const approvalBlockedReason = approvalService.findSegregationViolation(
+          policy,
+          report,
+          editorsByReport[report.id] ?? [],
+          [approver.id, actingFor?.id],
+        ) ?? null;
+        return [{ ...report, approvalBlockedReason }];
+      });
+  }
+
+  private async getCurrentApprovalStepsByReport(reportIds: string[]): Promise<Record<string, ReportApprovalStep[]>> {
+    if (reportIds.length === 0) return {};
+
+    const steps = await db
+      .select()
+      .from(reportApprovalSteps)
+      .where(inArray(reportApprovalSteps.reportId, reportIds))
+      .orderBy(reportApprovalSteps.stepOrder);
+
+    const grouped: Record<string, ReportApprovalStep[]> = {};
+    for (const step of steps) {
+      (grouped[step.reportId] ??= []).push(step);
+    }
+
+    for (const [reportId, reportSteps] of Object.entries(grouped)) {
+      const round = Math.max(...reportSteps.map(step => step.round));
+      grouped[reportId] = reportSteps.filter(step => step.round === round);
+    }
+    return grouped;
   }
 
   async getAllReports(limit = 50, offset = 0): Promise<ReportWithDetails[]> {
     const result = await db
       .select({
         report: reports,
-        handler: users,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
         approver: {
           id: sql`approver.id`,
 
@@ -332,38 +1804,45 @@ export class DatabaseStorage implements IStorage {
       })
       .from(reports)
       .innerJoin(users, eq(reports.handlerId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
       .innerJoin(sql`users as approver`, sql`${reports.approverId} = approver.id`)
       .orderBy(desc(reports.createdAt))
       .limit(limit)
       .offset(offset);
 
-    return result.map(row => ({
-      ...row.report,
+    const classified = await this.withClassification(result.map(row => row.report));
+    return result.map((row, i) => ({
+      ...classified[i],
+      ...this.bankNamesOf(row),
       handler: row.handler,
       approver: row.approver as User,
     }));
   }
 
-  async searchReports(query: string, userId?: string): Promise<ReportWithDetails[]> {
+  async searchReports(query: string, userId?: string, filter?: ReportClassificationFilter): Promise<ReportWithDetails[]> {
     console.log('searchReports called with query:', query, 'userId:', userId);
     
-    let whereCondition = or(
-      like(reports.reportNumber, `%${query}%`),
-      like(reports.companyName, `%${query}%`),
-      like(reports.contactPersonName, `%${query}%`),
-      like(reports.inquiryContent, `%${query}%`),
-      like(reports.responseContent, `%${query}%`)
-    );
+    const terms = reportSearchService.parseQuery(query);
+    const matches = reportSearchService.matchQuery(terms);
+    if (!matches) {
+      return [];
+    }
+
+    let whereCondition: SQL | undefined;
 
     // If userId is provided, limit search to that user's reports
     if (userId) {
       whereCondition = and(whereCondition, eq(reports.handlerId, userId));
     }
+    whereCondition = and(whereCondition, await this.classificationCondition(filter));
 
     const result = await db
       .select({
         report: reports,
-        handler: users,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
         approver: {
           id: sql`approver.id`,
           firstName: sql`approver.first_name`,
@@ -375,63 +1854,381 @@ export class DatabaseStorage implements IStorage {
       })
       .from(reports)
       .innerJoin(users, eq(reports.handlerId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
       .leftJoin(sql`users as approver`, sql`${reports.approverId} = approver.id`)
+      .innerJoin(sql`(${matches}) AS search_match`, sql`search_match.report_id = ${reports.id}`)
       .where(whereCondition)
-      .orderBy(desc(reports.createdAt));
+      // Keep the index's relevance order
+      .orderBy(sql`search_match.rank`);
 
     console.log('searchReports result count:', result.length);
 
-    return result.map(row => ({
-      ...row.report,
+    const classified = await this.withClassification(result.map(row => row.report));
+    return result.map((row, i) => ({
+      ...classified[i],
+      ...this.bankNamesOf(row),
       handler: row.handler,
       approver: row.approver as User,
+      searchSnippet: reportSearchService.buildSnippet(row.report, terms),
     }));
   }
 
-  async getReportStatistics(): Promise<{
-    todayInquiries: number;
-    pendingApprovals: number;
-    monthlyCompleted: number;
-    escalations: number;
-  }> {
-    const today = new Date();
-    const startOfDay = Math.floor(new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime() / 1000);
-    const endOfDay = Math.floor(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1).getTime() / 1000);
-    
-    const startOfMonth = Math.floor(new Date(today.getFullYear(), today.getMonth(), 1).getTime() / 1000);
+  async queryReports(query: ReportQuery, visibility: ReportVisibility): Promise<ReportQueryResult> {
+    const empty: ReportQueryResult = { items: [], total: 0, limit: query.limit, offset: query.offset };
+    const { whereCondition, terms, matches } = await this.reportQueryScope(query, visibility);
+
+    const [{ total }] = await db.select({ total: count() }).from(reports).where(whereCondition);
+    if (total === 0) return empty;
+
+    let pageIds: string[];
+    const sort = query.sort ?? (terms.length > 0 ? "relevance" : "createdAt");
+    if (sort === "relevance" && matches) {
+      // Page through the matches in the index's rank order, best first unless ascending
+      const rows = await db
+        .select({ id: reports.id })
+        .from(reports)
+        .innerJoin(sql`(${matches}) AS search_match`, sql`search_match.report_id = ${reports.id}`)
+        .where(whereCondition)
+        .orderBy(query.order === "asc" ? sql`search_match.rank DESC` : sql`search_match.rank`, reports.id)
+        .limit(query.limit)
+        .offset(query.offset);
+      pageIds = rows.map(row => row.id);
+    } else {
+      const column = reports[sort === "relevance" ? "createdAt" : sort];
+      const direction = query.order === "asc" ? asc : desc;
+      const rows = await db
+        .select({ id: reports.id })
+        .from(reports)
+        .where(whereCondition)
+        .orderBy(direction(column), direction(reports.id))
+        .limit(query.limit)
+        .offset(query.offset);
+      pageIds = rows.map(row => row.id);
+    }
+
+    const items = await this.getReportDetailsByIds(pageIds);
+    if (terms.length > 0) {
+      for (const item of items) {
+        item.searchSnippet = reportSearchService.buildSnippet(item, terms);
+      }
+    }
+    return { items, total, limit: query.limit, offset: query.offset };
+  }
+
+  async countReports(query: ReportQuery, visibility: ReportVisibility): Promise<number> {
+    const { whereCondition } = await this.reportQueryScope(query, visibility);
+
+    const [{ total }] = await db.select({ total: count() }).from(reports).where(whereCondition);
+    return total;
+  }
+
+  // Conditions of a report query, and the text search matches when there is a search
+  private async reportQueryScope(query: ReportQuery, visibility: ReportVisibility) {
+    const conditions: (SQL | undefined)[] = [this.visibilityCondition(visibility)];
+
+    if (query.status?.length) conditions.push(inArray(reports.status, query.status));
+    if (query.bankCode) conditions.push(eq(reports.bankCode, query.bankCode));
+    if (query.branchCode) conditions.push(eq(reports.branchCode, query.branchCode));
+    if (query.handlerId) conditions.push(eq(reports.handlerId, query.handlerId));
+    if (query.approverId) conditions.push(eq(reports.approverId, query.approverId));
+    if (query.escalationRequired !== undefined) conditions.push(eq(reports.escalationRequired, query.escalationRequired));
+    if (query.createdFrom) conditions.push(gte(reports.createdAt, statisticsService.startOfDay(query.createdFrom)));
+    if (query.createdTo) conditions.push(lt(reports.createdAt, statisticsService.startOfDay(query.createdTo, 1)));
+    if (query.createdPeriod) {
+      const { from, to } = this.periodRange(query.createdPeriod);
+      conditions.push(gte(reports.createdAt, from), lt(reports.createdAt, to));
+    }
+    if (query.approvedFrom) conditions.push(gte(reports.approvedAt, statisticsService.startOfDay(query.approvedFrom)));
+    if (query.approvedTo) conditions.push(lt(reports.approvedAt, statisticsService.startOfDay(query.approvedTo, 1)));
+    if (query.decidedFrom) conditions.push(gte(reports.decidedAt, statisticsService.startOfDay(query.decidedFrom)));
+    if (query.decidedTo) conditions.push(lt(reports.decidedAt, statisticsService.startOfDay(query.decidedTo, 1)));
+    conditions.push(await this.classificationCondition({ categoryId: query.categoryId, tag: query.tag }));
+
+    const terms = reportSearchService.parseQuery(query.search ?? "");
+    // Filtered inside SQLite: a list of matching ids could exceed the bound parameter limit
+    const matches = reportSearchService.matchQuery(terms);
+    if (matches) {
+      conditions.push(sql`${reports.id} IN (SELECT report_id FROM (${matches}))`);
+    }
+
+    return { whereCondition: and(...conditions), terms, matches };
+  }
+
+  private visibilityCondition(visibility: ReportVisibility): SQL | undefined {
+    if (!visibility.allHandlers) return eq(reports.handlerId, visibility.userId);
+    if (!visibility.othersDrafts) return or(ne(reports.status, "draft"), eq(reports.handlerId, visibility.userId));
+    return undefined;
+  }
+
+  // Report list rows for the given ids, in the same order
+  private async getReportDetailsByIds(ids: string[]): Promise<ReportWithDetails[]> {
+    if (ids.length === 0) return [];
+
+    const result = await db
+      .select({
+        report: reports,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
+        approver: {
+          id: sql`approver.id`,
+          firstName: sql`approver.first_name`,
+          lastName: sql`approver.last_name`,
+          roles: sql`approver.roles`,
+          createdAt: sql`approver.created_at`,
+          updatedAt: sql`approver.updated_at`,
+        },
+      })
+      .from(reports)
+      .innerJoin(users, eq(reports.handlerId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
+      .leftJoin(sql`users as approver`, sql`${reports.approverId} = approver.id`)
+      .where(inArray(reports.id, ids));
+
+    const position = new Map(ids.map((id, index) => [id, index]));
+    result.sort((a, b) => position.get(a.report.id)! - position.get(b.report.id)!);
+
+    const classified = await this.withClassification(result.map(row => row.report));
+    return result.map((row, i) => ({
+      ...classified[i],
+      ...this.bankNamesOf(row),
+      handler: row.handler,
+      approver: row.approver as User,
+    }));
+  }
+
+  // Unix time range [from, to) of a period relative to today in JST
+  private periodRange(period: ReportPeriod): { from: number; to: number } {
+    const today = statisticsService.today();
+
+    switch (period) {
+      case "today":
+        return { from: statisticsService.startOfDay(today), to: statisticsService.startOfDay(today, 1) };
+      case "this_week": {
+        const toMonday = -((new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7);
+        return { from: statisticsService.startOfDay(today, toMonday), to: statisticsService.startOfDay(today, toMonday + 7) };
+      }
+      case "this_month":
+        return { from: statisticsService.startOfMonth(today), to: statisticsService.startOfMonth(today, 1) };
+      case "last_month":
+        return { from: statisticsService.startOfMonth(today, -1), to: statisticsService.startOfMonth(today) };
+    }
+  }
+
+  // Saved search operations
+  async getSavedSearches(userId: string): Promise<Omit<SavedSearchWithCount, "count">[]> {
+    const result = await db
+      .select({
+        search: savedSearches,
+        owner: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+        },
+      })
+      .from(savedSearches)
+      .leftJoin(users, eq(savedSearches.userId, users.id))
+      .where(or(eq(savedSearches.userId, userId), eq(savedSearches.isShared, true)))
+      // The user's own searches first, then the team's
+      .orderBy(desc(sql`${savedSearches.userId} = ${userId}`), savedSearches.name);
+
+    return result.map(row => ({ ...this.parseSavedSearch(row.search), owner: row.owner }));
+  }
+
+  async getSavedSearch(id: string): Promise<SavedSearch | undefined> {
+    const [search] = await db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search ? this.parseSavedSearch(search) : undefined;
+  }
+
+  async createSavedSearch(userId: string, search: InsertSavedSearch): Promise<SavedSearch> {
+    const currentTimestamp = Math.floor(Date.now() / 1000);
+    const [created] = await db
+      .insert(savedSearches)
+      .values({
+        ...search,
+        id: randomUUID(),
+        userId,
+        query: JSON.stringify(search.query),
+        createdAt: currentTimestamp,
+        updatedAt: currentTimestamp,
+      })
+      .returning();
+    return this.parseSavedSearch(created);
+  }
+
+  async updateSavedSearch(id: string, search: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const [updated] = await db
+      .update(savedSearches)
+      .set({
+        ...search,
+        query: search.query ? JSON.stringify(search.query) : undefined,
+        updatedAt: Math.floor(Date.now() / 1000),
+      })
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return updated ? this.parseSavedSearch(updated) : undefined;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await db.delete(savedSearches).where(eq(savedSearches.id, id));
+  }
+
+  private parseSavedSearch(search: typeof savedSearches.$inferSelect): SavedSearch {
+    return { ...search, query: JSON.parse(search.query) as Record<string, string> };
+  }
+
+  async getReportStatistics(query: StatisticsQuery, visibility?: ReportVisibility): Promise<ReportStatistics> {
+    const today = statisticsService.today();
+    const range = statisticsService.resolveRange(query);
+    // The range figures cover the reports the history page would list for the same user, so drill-downs agree
+    const createdInRange = and(
+      gte(reports.createdAt, range.start),
+      lt(reports.createdAt, range.end),
+      visibility && this.visibilityCondition(visibility),
+    );
+    const startOfMonth = statisticsService.startOfMonth(today);
+    const sla = await this.getApprovalSla();
 
     const [
       todayResult,
       pendingResult,
+      overdueResult,
       monthlyResult,
-      escalationResult
+      escalationResult,
+      totalsResult,
+      categoryResult,
+      tagResult,
     ] = await Promise.all([
       db.select({ count: count() }).from(reports).where(
-        and(
-          sql`${reports.createdAt} >= ${startOfDay}`,
-          sql`${reports.createdAt} < ${endOfDay}`
-        )
+        and(gte(reports.createdAt, statisticsService.startOfDay(today)), lt(reports.createdAt, statisticsService.startOfDay(today, 1)))
       ),
       db.select({ count: count() }).from(reports).where(eq(reports.status, "pending_approval")),
+      db.select({ count: count() }).from(reports).where(this.slaOverdueCondition(sla)),
+      db.select({ count: count() }).from(reports).where(gte(reports.approvedAt, startOfMonth)),
       db.select({ count: count() }).from(reports).where(
-        and(
-          eq(reports.status, "approved"),
-          sql`${reports.createdAt} >= ${startOfMonth}`
-        )
+        and(eq(reports.escalationRequired, true), gte(reports.createdAt, startOfMonth))
       ),
-  db.select({ count: count() }).from(reports).where(eq(reports.escalationRequired, true))
+      db.select(statisticsService.reportCounts()).from(reports).where(createdInRange),
+      db.select({ categoryId: reports.categoryId, count: count() }).from(reports).where(createdInRange).groupBy(reports.categoryId),
+      db.select({ tag: reportTags.tag, count: count() }).from(reportTags)
+        .innerJoin(reports, eq(reportTags.reportId, reports.id))
+        .where(createdInRange)
+        .groupBy(reportTags.tag).orderBy(desc(count()), reportTags.tag).limit(10),
     ]);
 
+    const paths = await this.getCategoryPaths();
+
     return {
       todayInquiries: todayResult[0]?.count || 0,
       pendingApprovals: pendingResult[0]?.count || 0,
+      overdueApprovals: overdueResult[0]?.count || 0,
       monthlyCompleted: monthlyResult[0]?.count || 0,
       escalations: escalationResult[0]?.count || 0,
+      range: { from: range.from, to: range.to, timezone: STATISTICS_TIMEZONE },
+      groupBy: query.groupBy,
+      buckets: await this.getStatisticsBuckets(query.groupBy, range, createdInRange, paths),
+      totals: statisticsService.withRates(totalsResult[0]),
+      byCategory: categoryResult
+        .map(row => ({
+          categoryId: row.categoryId,
+          categoryName: row.categoryId ? paths[row.categoryId] ?? "未分類" : "未分類",
+          count: row.count,
+        }))
+        .sort((a, b) => b.count - a.count),
+      topTags: tagResult,
     };
   }
 
+  // Reports created in the range, grouped by time bucket or by an attribute, largest groups first for the latter
+  private async getStatisticsBuckets(
+    grouping: StatisticsGrouping,
+    range: StatisticsRange,
+    createdInRange: SQL | undefined,
+    categoryPaths: Record<string, string>,
+  ): Promise<ReportStatisticsBucket[]> {
+
+    if (statisticsService.isTimeGrouping(grouping)) {
+      const key = statisticsService.timeBucket(reports.createdAt, grouping);
+      const rows = await db
+        .select({ key, ...statisticsService.reportCounts() })
+        .from(reports)
+        .where(createdInRange)
+        .groupBy(key);
+
+      const byKey = new Map(rows.map(({ key, ...counts }) => [key, counts]));
+      return statisticsService.timeBuckets(range, grouping).map(bucket => ({
+        key: bucket,
+        label: bucket,
+        ...statisticsService.withRates(byKey.get(bucket) ?? { volume: 0, approved: 0, rejected: 0, escalated: 0 }),
+      }));
+    }
+
+    let rows: { key: string | null; label: string | null; volume: number; approved: number; rejected: number; escalated: number }[];
+    switch (grouping) {
+      case "bank":
+        rows = await db
+          .select({ key: reports.bankCode, label: sql<string | null>`max(${financialInstitutions.bankName})`, ...statisticsService.reportCounts() })
+          .from(reports)
+          .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+          .where(createdInRange)
+          .groupBy(reports.bankCode);
+        rows = rows.map(row => ({ ...row, label: `${row.key}${row.label ? ` ${row.label}` : ""}` }));
+        break;
+      case "branch": {
+        const key = sql<string>`${reports.bankCode} || '-' || ${reports.branchCode}`;
+        rows = await db
+          .select({
+            key,
+            label: sql<string | null>`max(${financialInstitutions.bankName} || ' ' || ${branches.branchName})`,
+            ...statisticsService.reportCounts(),
+          })
+          .from(reports)
+          .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+          .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
+          .where(createdInRange)
+          .groupBy(key);
+        rows = rows.map(row => ({ ...row, label: row.label ?? row.key }));
+        break;
+      }
+      case "handler":
+        rows = await db
+          .select({
+            key: reports.handlerId,
+            label: sql<string | null>`max(trim(coalesce(${users.firstName}, '') || ' ' || coalesce(${users.lastName}, '')))`,
+            ...statisticsService.reportCounts(),
+          })
+          .from(reports)
+          .leftJoin(users, eq(reports.handlerId, users.id))
+          .where(createdInRange)
+          .groupBy(reports.handlerId);
+        rows = rows.map(row => ({ ...row, label: row.label || row.key }));
+        break;
+      case "category":
+        rows = await db
+          .select({ key: reports.categoryId, label: sql<string | null>`null`, ...statisticsService.reportCounts() })
+          .from(reports)
+          .where(createdInRange)
+          .groupBy(reports.categoryId);
+        rows = rows.map(row => ({ ...row, label: row.key ? categoryPaths[row.key] ?? "未分類" : "未分類" }));
+        break;
+      case "status":
+        rows = await db
+          .select({ key: reports.status, label: reports.status, ...statisticsService.reportCounts() })
+          .from(reports)
+          .where(createdInRange)
+          .groupBy(reports.status);
+        break;
+    }
+
+    return rows
+      .map(({ key, label, ...counts }) => ({ key: key ?? "", label: label ?? key ?? "", ...statisticsService.withRates(counts) }))
+      .sort((a, b) => b.volume - a.volume || a.key.localeCompare(b.key));
+  }
+
   // Helper function to check if user has a specific role
-  private hasRole(user: User, requiredRole: string): boolean {
+  private hasRole(user: Pick<User, "roles">, requiredRole: string): boolean {
     try {
       const roles = JSON.parse(user.roles);
       return roles.includes(requiredRole);
@@ -441,8 +2238,8 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getUsersByRole(requiredRole: string | string[]): Promise<User[]> {
-    const allUsers = await db.select().from(users);
+  async getUsersByRole(requiredRole: string | string[]): Promise<PublicUser[]> {
+    const allUsers = await db.select(publicUserColumns).from(users);
     
     if (Array.isArray(requiredRole)) {
       return allUsers.filter(user => {
@@ -458,14 +2255,14 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(desc(users.createdAt));
+  async getAllUsers(): Promise<PublicUser[]> {
+    return await db.select(publicUserColumns).from(users).orderBy(desc(users.createdAt));
   }
 
   async createUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
-      .values(userData)
+      .values(await this.withHashedPassword(userData))
       .returning();
     return user;
   }
@@ -473,12 +2270,30 @@ export class DatabaseStorage implements IStorage {
   async updateUser(id: string, userData: Partial<UpsertUser>): Promise<User> {
     const [user] = await db
       .update(users)
-      .set(userData)
+      .set({
+        ...await this.withHashedPassword(userData),
+        updatedAt: Math.floor(Date.now() / 1000),
+      })
       .where(eq(users.id, id))
       .returning();
     return user;
   }
 
+  // Hash plaintext passwords before they reach the users table.
+  // An empty password means "unchanged" and is dropped from the update.
+  private async withHashedPassword<T extends Partial<UpsertUser>>(userData: T): Promise<T> {
+    if (userData.password === undefined) {
+      return userData;
+    }
+
+    const { password, ...rest } = userData;
+    if (!password) {
+      return rest as T;
+    }
+
+    return { ...userData, password: await passwordService.hash(password) };
+  }
+
   async deleteUser(id: string): Promise<void> {
     await db.delete(users).where(eq(users.id, id));
   }
@@ -502,7 +2317,9 @@ export class DatabaseStorage implements IStorage {
     const result = await db
       .select({
         report: reports,
-        handler: users,
+        bankMasterName: financialInstitutions.bankName,
+        branchMasterName: branches.branchName,
+        handler: publicUserColumns,
         approver: {
           id: sql`approver.id`,
           firstName: sql`approver.first_name`,
@@ -514,6 +2331,8 @@ export class DatabaseStorage implements IStorage {
       })
       .from(reports)
       .innerJoin(users, eq(reports.handlerId, users.id))
+      .leftJoin(financialInstitutions, eq(reports.bankCode, financialInstitutions.bankCode))
+      .leftJoin(branches, and(eq(branches.institutionId, financialInstitutions.id), eq(branches.branchCode, reports.branchCode)))
       .leftJoin(
         alias(users, 'approver'),
         eq(reports.approverId, sql`approver.id`)
@@ -529,12 +2348,16 @@ export class DatabaseStorage implements IStorage {
 
     console.log('Found approved reports today:', result.length);
 
+    const classified = await this.withClassification(result.map(row => row.report));
+
     // Group reports by bank code
     const groupedReports: { [bankCode: string]: ReportWithDetails[] } = {};
     
-    for (const row of result) {
+    for (let i = 0; i < result.length; i++) {
+      const row = result[i];
       const reportWithDetails: ReportWithDetails = {
-        ...row.report,
+        ...classified[i],
+        ...this.bankNamesOf(row),
         handler: row.handler,
         approver: row.approver as User,
       };
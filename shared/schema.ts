@@ -1,6 +1,7 @@
 import { sql } from 'drizzle-orm';
 import {
   index,
+  uniqueIndex,
   sqliteTable,
   text,
   integer,
@@ -30,27 +31,73 @@ export const users = sqliteTable("users", {
   firstName: text("first_name"),
   lastName: text("last_name"),
   roles: text("roles").notNull().default("handler"), // JSON array: ["handler"], ["approver"], ["handler","approver"], ["admin"]
+  approvalLevel: integer("approval_level").notNull().default(1), // 1 = team lead, 2 = manager
   createdAt: integer("created_at"),
   updatedAt: integer("updated_at"),
 });
 
-// Financial institution master data
+// Financial institution master data; rows are deactivated rather than deleted since reports keep the codes
 export const financialInstitutions = sqliteTable("financial_institutions", {
   id: text("id").primaryKey(),
   bankCode: text("bank_code").notNull().unique(),
   bankName: text("bank_name").notNull(),
+  isActive: integer("is_active", { mode: 'boolean' }).notNull().default(true),
   createdAt: integer("created_at"),
+  updatedAt: integer("updated_at"),
 });
 
 // Branches of financial institutions
-export const branches = sqliteTable("branches", {
+export const branches = sqliteTable(
+  "branches",
+  {
+    id: text("id").primaryKey(),
+    institutionId: text("institution_id").notNull().references(() => financialInstitutions.id),
+    branchCode: text("branch_code").notNull(),
+    branchName: text("branch_name").notNull(),
+    isActive: integer("is_active", { mode: 'boolean' }).notNull().default(true),
+    createdAt: integer("created_at"),
+    updatedAt: integer("updated_at"),
+  },
+  (table) => ({
+    institutionBranchIdx: uniqueIndex("IDX_branches_institution_code").on(table.institutionId, table.branchCode),
+  }),
+);
+
+// Customers (利用者) keyed by the user number printed on reports
+export const customers = sqliteTable("customers", {
   id: text("id").primaryKey(),
-  institutionId: text("institution_id").notNull().references(() => financialInstitutions.id),
+  userNumber: text("user_number").notNull().unique(),
+  companyName: text("company_name").notNull(),
+  bankCode: text("bank_code").notNull(),
   branchCode: text("branch_code").notNull(),
-  branchName: text("branch_name").notNull(),
+  createdBy: text("created_by").references(() => users.id),
+  createdAt: integer("created_at"),
+  updatedAt: integer("updated_at"),
+});
+
+// People at a customer who contact the help desk
+export const customerContacts = sqliteTable("customer_contacts", {
+  id: text("id").primaryKey(),
+  customerId: text("customer_id").notNull().references(() => customers.id),
+  name: text("name").notNull(),
+  phone: text("phone"),
+  email: text("email"),
+  createdAt: integer("created_at"),
+});
+
+// Admin-maintained inquiry classification; parentId builds the hierarchy
+export const inquiryCategories = sqliteTable("inquiry_categories", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  parentId: text("parent_id"), // null for a top-level category
+  sortOrder: integer("sort_order").notNull().default(0),
+  isActive: integer("is_active", { mode: 'boolean' }).notNull().default(true),
   createdAt: integer("created_at"),
+  updatedAt: integer("updated_at"),
 });
 
+export const reportStatuses = ["draft", "pending_approval", "approved", "rejected", "withdrawn", "archived"] as const;
+
 // Inquiry response reports
 export const reports = sqliteTable("reports", {
   id: text("id").primaryKey(),
@@ -58,6 +105,8 @@ export const reports = sqliteTable("reports", {
   userNumber: text("user_number").notNull(),
   bankCode: text("bank_code").notNull(),
   branchCode: text("branch_code").notNull(),
+  bankName: text("bank_name"), // master names when the report was written; later renames do not change them
+  branchName: text("branch_name"),
   companyName: text("company_name").notNull(),
   contactPersonName: text("contact_person_name").notNull(),
   handlerId: text("handler_id").notNull().references(() => users.id),
@@ -66,19 +115,216 @@ export const reports = sqliteTable("reports", {
   responseContent: text("response_content").notNull(),
   escalationRequired: integer("escalation_required", { mode: 'boolean' }).notNull().default(false),
   escalationReason: text("escalation_reason"),
-  status: text("status").notNull().default("draft"), // draft, pending_approval, approved, rejected
+  categoryId: text("category_id").references(() => inquiryCategories.id),
+  status: text("status").notNull().default("draft"), // one of reportStatuses
   rejectionReason: text("rejection_reason"),
+  submittedAt: integer("submitted_at"), // latest submission for approval
+  decidedAt: integer("decided_at"), // final approval or rejection of that submission
   approvedAt: integer("approved_at"),
   createdAt: integer("created_at"),
   updatedAt: integer("updated_at"),
 });
 
+// Free-form tags on reports; unlike categories they need no admin setup
+export const reportTags = sqliteTable(
+  "report_tags",
+  {
+    reportId: text("report_id").notNull().references(() => reports.id),
+    tag: text("tag").notNull(),
+  },
+  (table) => ({
+    reportTagIdx: uniqueIndex("IDX_report_tags_report_tag").on(table.reportId, table.tag),
+    tagIdx: index("IDX_report_tags_tag").on(table.tag),
+  }),
+);
+
+// Audit trail of report state changes and edits
+export const reportEvents = sqliteTable(
+  "report_events",
+  {
+    id: text("id").primaryKey(),
+    reportId: text("report_id").notNull().references(() => reports.id),
+    actorId: text("actor_id").references(() => users.id),
+    onBehalfOfId: text("on_behalf_of_id").references(() => users.id), // set when a delegate acted for an absent approver
+    eventType: text("event_type").notNull(), // created, updated, submitted, withdrawn, step_approved, approved, rejected, archived
+    fromStatus: text("from_status"),
+    toStatus: text("to_status"),
+    changedFields: text("changed_fields"), // JSON array of field names
+    comment: text("comment"),
+    createdAt: integer("created_at").notNull(),
+  },
+  (table) => ({
+    reportIdx: index("IDX_report_events_report").on(table.reportId, table.createdAt),
+  }),
+);
+
+// Immutable content snapshots taken on every report save
+export const reportRevisions = sqliteTable(
+  "report_revisions",
+  {
+    id: text("id").primaryKey(),
+    reportId: text("report_id").notNull().references(() => reports.id),
+    revisionNumber: integer("revision_number").notNull(),
+    snapshot: text("snapshot").notNull(), // JSON object of reportRevisionFields
+    status: text("status").notNull(), // report status at the time of the save
+    createdBy: text("created_by").references(() => users.id),
+    createdAt: integer("created_at").notNull(),
+  },
+  (table) => ({
+    reportRevisionIdx: uniqueIndex("IDX_report_revisions_report_number").on(table.reportId, table.revisionNumber),
+  }),
+);
+
+// Discussion thread between handler and approvers; kept across resubmissions
+export const reportComments = sqliteTable(
+  "report_comments",
+  {
+    id: text("id").primaryKey(),
+    reportId: text("report_id").notNull().references(() => reports.id),
+    parentId: text("parent_id"), // reply target; null for a top-level comment
+    authorId: text("author_id").notNull().references(() => users.id),
+    fieldName: text("field_name"), // report field the comment refers to, e.g. responseContent
+    body: text("body").notNull(),
+    resolvedAt: integer("resolved_at"),
+    resolvedBy: text("resolved_by").references(() => users.id),
+    createdAt: integer("created_at").notNull(),
+  },
+  (table) => ({
+    reportIdx: index("IDX_report_comments_report").on(table.reportId, table.createdAt),
+  }),
+);
+
+// Files attached to a report; the content lives on disk under server/attachment-storage
+export const reportAttachments = sqliteTable(
+  "report_attachments",
+  {
+    id: text("id").primaryKey(),
+    reportId: text("report_id").notNull().references(() => reports.id),
+    fileName: text("file_name").notNull(), // original name shown to users
+    storedName: text("stored_name").notNull(), // name on disk
+    mimeType: text("mime_type").notNull(),
+    size: integer("size").notNull(), // bytes
+    checksum: text("checksum").notNull(), // SHA-256 hex of the content
+    uploadedBy: text("uploaded_by").notNull().references(() => users.id),
+    createdAt: integer("created_at").notNull(),
+  },
+  (table) => ({
+    reportIdx: index("IDX_report_attachments_report").on(table.reportId, table.createdAt),
+  }),
+);
+
+// Admin-managed texts for recurring inquiries; {placeholders} are filled from the report form
+export const reportTemplates = sqliteTable("report_templates", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description"),
+  inquiryContent: text("inquiry_content").notNull(),
+  responseContent: text("response_content").notNull(),
+  isActive: integer("is_active", { mode: 'boolean' }).notNull().default(true),
+  usageCount: integer("usage_count").notNull().default(0),
+  createdBy: text("created_by").references(() => users.id),
+  createdAt: integer("created_at"),
+  updatedAt: integer("updated_at"),
+});
+
+// Configurable approval chains; the highest-priority matching rule wins
+export const approvalRules = sqliteTable("approval_rules", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  escalationRequired: integer("escalation_required", { mode: 'boolean' }), // null = any
+  bankCode: text("bank_code"), // null = any
+  levels: text("levels").notNull(), // JSON array of approval levels in order, e.g. [1,2]
+  priority: integer("priority").notNull().default(0),
+  createdAt: integer("created_at"),
+  updatedAt: integer("updated_at"),
+});
+
+// One row per approval step; a new round is opened on every submission
+export const reportApprovalSteps = sqliteTable(
+  "report_approval_steps",
+  {
+    id: text("id").primaryKey(),
+    reportId: text("report_id").notNull().references(() => reports.id),
+    round: integer("round").notNull(),
+    stepOrder: integer("step_order").notNull(),
+    requiredLevel: integer("required_level").notNull(),
+    status: text("status").notNull().default("pending"), // pending, approved, rejected, skipped, withdrawn
+    approverId: text("approver_id").references(() => users.id),
+    onBehalfOfId: text("on_behalf_of_id").references(() => users.id),
+    comment: text("comment"),
+    decidedAt: integer("decided_at"),
+    createdAt: integer("created_at").notNull(),
+  },
+  (table) => ({
+    reportRoundIdx: index("IDX_report_approval_steps_report").on(table.reportId, table.round, table.stepOrder),
+  }),
+);
+
+// Out-of-office substitutes: the delegate may decide approvals for the delegator within the date range
+export const approvalDelegations = sqliteTable(
+  "approval_delegations",
+  {
+    id: text("id").primaryKey(),
+    delegatorId: text("delegator_id").notNull().references(() => users.id),
+    delegateId: text("delegate_id").notNull().references(() => users.id),
+    startDate: text("start_date").notNull(), // YYYY-MM-DD, inclusive
+    endDate: text("end_date").notNull(), // YYYY-MM-DD, inclusive
+    reason: text("reason"),
+    createdAt: integer("created_at"),
+  },
+  (table) => ({
+    delegateIdx: index("IDX_approval_delegations_delegate").on(table.delegateId, table.startDate),
+  }),
+);
+
+// Key/value system settings; values are JSON documents
+export const systemSettings = sqliteTable("system_settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  updatedAt: integer("updated_at"),
+});
+
+// Named report list filters; shared ones are listed for every user
+export const savedSearches = sqliteTable(
+  "saved_searches",
+  {
+    id: text("id").primaryKey(),
+    userId: text("user_id").notNull().references(() => users.id), // owner
+    name: text("name").notNull(),
+    query: text("query").notNull(), // JSON object of GET /api/reports/query parameters
+    isShared: integer("is_shared", { mode: 'boolean' }).notNull().default(false),
+    createdAt: integer("created_at"),
+    updatedAt: integer("updated_at"),
+  },
+  (table) => ({
+    userIdx: index("IDX_saved_searches_user").on(table.userId),
+  }),
+);
+
+// Last issued report number per numbering scope (the formatted number without its sequence part)
+export const reportNumberSequences = sqliteTable("report_number_sequences", {
+  scope: text("scope").primaryKey(),
+  lastValue: integer("last_value").notNull(),
+  updatedAt: integer("updated_at"),
+});
+
 // Relations
 export const userRelations = relations(users, ({ many }) => ({
   handledReports: many(reports, { relationName: "handler" }),
   approvedReports: many(reports, { relationName: "approver" }),
 }));
 
+export const customerRelations = relations(customers, ({ many }) => ({
+  contacts: many(customerContacts),
+}));
+
+export const customerContactRelations = relations(customerContacts, ({ one }) => ({
+  customer: one(customers, {
+    fields: [customerContacts.customerId],
+    references: [customers.id],
+  }),
+}));
+
 export const financialInstitutionRelations = relations(financialInstitutions, ({ many }) => ({
   branches: many(branches),
 }));
@@ -90,7 +336,17 @@ export const branchRelations = relations(branches, ({ one }) => ({
   }),
 }));
 
-export const reportRelations = relations(reports, ({ one }) => ({
+export const reportRelations = relations(reports, ({ one, many }) => ({
+  events: many(reportEvents),
+  revisions: many(reportRevisions),
+  comments: many(reportComments),
+  attachments: many(reportAttachments),
+  tags: many(reportTags),
+  category: one(inquiryCategories, {
+    fields: [reports.categoryId],
+    references: [inquiryCategories.id],
+  }),
+  approvalSteps: many(reportApprovalSteps),
   handler: one(users, {
     fields: [reports.handlerId],
     references: [users.id],
@@ -103,6 +359,87 @@ export const reportRelations = relations(reports, ({ one }) => ({
   }),
 }));
 
+export const reportEventRelations = relations(reportEvents, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportEvents.reportId],
+    references: [reports.id],
+  }),
+  actor: one(users, {
+    fields: [reportEvents.actorId],
+    references: [users.id],
+  }),
+  onBehalfOf: one(users, {
+    fields: [reportEvents.onBehalfOfId],
+    references: [users.id],
+  }),
+}));
+
+export const reportRevisionRelations = relations(reportRevisions, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportRevisions.reportId],
+    references: [reports.id],
+  }),
+  author: one(users, {
+    fields: [reportRevisions.createdBy],
+    references: [users.id],
+  }),
+}));
+
+export const reportCommentRelations = relations(reportComments, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportComments.reportId],
+    references: [reports.id],
+  }),
+  author: one(users, {
+    fields: [reportComments.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const reportAttachmentRelations = relations(reportAttachments, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportAttachments.reportId],
+    references: [reports.id],
+  }),
+  uploader: one(users, {
+    fields: [reportAttachments.uploadedBy],
+    references: [users.id],
+  }),
+}));
+
+export const reportTagRelations = relations(reportTags, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportTags.reportId],
+    references: [reports.id],
+  }),
+}));
+
+export const reportApprovalStepRelations = relations(reportApprovalSteps, ({ one }) => ({
+  report: one(reports, {
+    fields: [reportApprovalSteps.reportId],
+    references: [reports.id],
+  }),
+  approver: one(users, {
+    fields: [reportApprovalSteps.approverId],
+    references: [users.id],
+  }),
+  onBehalfOf: one(users, {
+    fields: [reportApprovalSteps.onBehalfOfId],
+    references: [users.id],
+  }),
+}));
+
+export const approvalDelegationRelations = relations(approvalDelegations, ({ one }) => ({
+  delegator: one(users, {
+    fields: [approvalDelegations.delegatorId],
+    references: [users.id],
+  }),
+  delegate: one(users, {
+    fields: [approvalDelegations.delegateId],
+    references: [users.id],
+  }),
+}));
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   id: true,
@@ -111,23 +448,145 @@ export const insertUserSchema = createInsertSchema(users).pick({
   firstName: true,
   lastName: true,
   roles: true,
+  approvalLevel: true,
 });
 
+// Zengin (全銀協) codes: 4-digit bank codes and 3-digit branch codes
+export const bankCodeSchema = z.string().regex(/^\d{4}$/, "金融機関コードは4桁の数字で入力してください");
+export const branchCodeSchema = z.string().regex(/^\d{3}$/, "支店コードは3桁の数字で入力してください");
+
 export const insertFinancialInstitutionSchema = createInsertSchema(financialInstitutions).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+}).extend({
+  bankCode: bankCodeSchema,
+  bankName: z.string().trim().min(1, "金融機関名は必須です"),
+  isActive: z.boolean().optional(),
 });
 
 export const insertBranchSchema = createInsertSchema(branches).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+}).extend({
+  branchCode: branchCodeSchema,
+  branchName: z.string().trim().min(1, "支店名は必須です"),
+  isActive: z.boolean().optional(),
+});
+
+// Raw CSV text posted to the bank master import endpoints
+export const bankMasterImportSchema = z.string().trim().min(1, "CSVの内容が空です");
+
+export const insertCustomerContactSchema = createInsertSchema(customerContacts).omit({
+  id: true,
+  customerId: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1, "連絡者氏名は必須です"),
+  phone: z.string().trim().nullable().optional(),
+  email: z.string().trim().email("メールアドレスの形式が正しくありません").or(z.literal("")).nullable().optional(),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  userNumber: z.string().trim().min(1, "利用者番号は必須です"),
+  companyName: z.string().trim().min(1, "企業名は必須です"),
+  bankCode: z.string().trim().min(1, "金融機関コードは必須です"),
+  branchCode: z.string().trim().min(1, "支店コードは必須です"),
+  contacts: z.array(insertCustomerContactSchema).optional(),
+});
+
+export const insertApprovalRuleSchema = createInsertSchema(approvalRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "ルール名は必須です"),
+  bankCode: z.string().min(1).nullable().optional(),
+  escalationRequired: z.boolean().nullable().optional(),
+  levels: z.array(z.number().int().min(1)).min(1, "承認レベルを1つ以上指定してください"),
+  priority: z.number().int().optional(),
+});
+
+// Report fields that may appear as {placeholder} in template texts
+export const reportTemplatePlaceholders = [
+  "companyName",
+  "contactPersonName",
+  "userNumber",
+  "bankCode",
+  "branchCode",
+] as const;
+
+const templateText = (requiredMessage: string) => z.string().min(1, requiredMessage).refine(
+  (text) => Array.from(text.matchAll(/\{(\w+)\}/g))
+    .every(([, name]) => (reportTemplatePlaceholders as readonly string[]).includes(name)),
+  { message: `使用できるプレースホルダーは ${reportTemplatePlaceholders.map(name => `{${name}}`).join(", ")} です` },
+);
+
+export const insertReportTemplateSchema = createInsertSchema(reportTemplates).omit({
+  id: true,
+  usageCount: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().min(1, "テンプレート名は必須です"),
+  description: z.string().nullable().optional(),
+  inquiryContent: templateText("問い合わせ内容は必須です"),
+  responseContent: templateText("対応内容は必須です"),
+  isActive: z.boolean().optional(),
+});
+
+export const insertInquiryCategorySchema = createInsertSchema(inquiryCategories).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "分類名は必須です"),
+  parentId: z.string().nullable().optional(),
+  sortOrder: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+});
+
+const DAY_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+// A calendar date that exists, e.g. not 2026-02-30
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "日付はYYYY-MM-DD形式で入力してください")
+  .refine((value) => {
+    const time = Date.parse(`${value}T00:00:00Z`);
+    return !Number.isNaN(time) && new Date(time).toISOString().slice(0, 10) === value;
+  }, "存在しない日付です");
+
+// The delegator is always the logged-in approver, so it is not part of the request body
+export const insertApprovalDelegationSchema = createInsertSchema(approvalDelegations).omit({
+  id: true,
+  delegatorId: true,
+  createdAt: true,
+}).extend({
+  delegateId: z.string().min(1, "代理承認者を選択してください"),
+  startDate: isoDate,
+  endDate: isoDate,
+  reason: z.string().nullable().optional(),
+}).refine((data) => data.startDate <= data.endDate, {
+  message: "終了日は開始日以降の日付を指定してください",
+  path: ["endDate"],
 });
 
 export const insertReportSchema = createInsertSchema(reports).omit({
   id: true,
   reportNumber: true,
+  bankName: true,
+  branchName: true,
   approverId: true,
   status: true,
+  submittedAt: true,
+  decidedAt: true,
   approvedAt: true,
   createdAt: true,
   updatedAt: true,
@@ -139,6 +598,8 @@ export const insertReportSchema = createInsertSchema(reports).omit({
   contactPersonName: z.string().min(1, "連絡者氏名は必須です"),
   inquiryContent: z.string().min(1, "問い合わせ内容は必須です"),
   responseContent: z.string().min(1, "対応内容は必須です"),
+  categoryId: z.string().nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(30, "タグは30文字以内で入力してください")).max(10, "タグは10個までです").optional(),
 });
 
 // Schema for submitting reports for approval (stricter validation)
@@ -156,30 +617,355 @@ export const submitReportForApprovalSchema = insertReportSchema.refine(
   {
     message: "すべての必須項目を入力してください",
   }
-);
+).refine((data) => !!data.categoryId, {
+  message: "問い合わせ分類は必須です",
+  path: ["categoryId"],
+}).refine((data) => (data.tags?.length ?? 0) > 0, {
+  message: "タグを1つ以上入力してください",
+  path: ["tags"],
+});
 
+// Approver decision on the current approval step
 export const updateReportStatusSchema = z.object({
-  status: z.enum(["pending_approval", "approved", "rejected"]),
+  status: z.enum(["approved", "rejected"]),
   rejectionReason: z.string().optional(),
+  comment: z.string().optional(),
+});
+
+// Segregation-of-duties policy applied when deciding approvals
+export const segregationPolicySchema = z.object({
+  preventSelfApproval: z.boolean(), // the report's handler may not approve it
+  preventEditorApproval: z.boolean(), // anyone who created or edited the report may not approve it
+});
+
+export const defaultSegregationPolicy: z.infer<typeof segregationPolicySchema> = {
+  preventSelfApproval: true,
+  preventEditorApproval: false,
+};
+
+// Approval turnaround target; pending reports submitted longer ago than this are overdue
+export const approvalSlaSchema = z.object({
+  thresholdHours: z.number().int().min(1, "1時間以上で指定してください").max(720, "720時間以内で指定してください"),
+});
+
+export const defaultApprovalSla: z.infer<typeof approvalSlaSchema> = {
+  thresholdHours: 24,
+};
+
+// Report number format: {prefix}-{bankCode}-{period}-{sequence}, empty parts are left out
+export const reportNumberFormatSchema = z.object({
+  prefix: z.string().regex(/^[A-Za-z0-9]*$/, "接頭辞は英数字で入力してください").max(10),
+  includeBankCode: z.boolean(),
+  period: z.enum(["month", "year", "fiscal_year", "none"]), // sequence restarts at 1 for each period
+  fiscalYearStartMonth: z.number().int().min(1).max(12),
+  padding: z.number().int().min(1).max(8),
+});
+
+export const defaultReportNumberFormat: z.infer<typeof reportNumberFormatSchema> = {
+  prefix: "RPT",
+  includeBankCode: false,
+  period: "month",
+  fiscalYearStartMonth: 4,
+  padding: 3,
+};
+
+// Report list query (GET /api/reports/query). Values arrive as query string text;
+// dates are YYYY-MM-DD in JST, like the statistics, and both ends are inclusive.
+export const reportSortKeys = ["createdAt", "updatedAt", "approvedAt", "reportNumber", "companyName", "relevance"] as const;
+
+// Creation date ranges relative to today, so saved searches stay current; weeks start on Monday
+export const reportPeriods = ["today", "this_week", "this_month", "last_month"] as const;
+
+export const reportQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  status: z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",") : value),
+    z.array(z.enum(reportStatuses)),
+  ).optional(), // any of; repeated or comma-separated
+  bankCode: z.string().optional(),
+  branchCode: z.string().optional(),
+  handlerId: z.string().optional(),
   approverId: z.string().optional(),
-  approvedAt: z.number().optional(),
+  escalationRequired: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  categoryId: z.string().optional(), // includes subcategories
+  tag: z.string().optional(),
+  createdFrom: isoDate.optional(),
+  createdTo: isoDate.optional(),
+  createdPeriod: z.enum(reportPeriods).optional(), // combined with createdFrom/createdTo if both are given
+  approvedFrom: isoDate.optional(),
+  approvedTo: isoDate.optional(),
+  decidedFrom: isoDate.optional(), // final approval or rejection, as in the approval turnaround
+  decidedTo: isoDate.optional(),
+  sort: z.enum(reportSortKeys).optional(), // defaults to relevance when searching, createdAt otherwise
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Report statistics (GET /api/statistics). Dates are calendar days in JST and both ends are inclusive;
+// the time groupings bucket reports by creation date, weeks starting on Monday.
+export const statisticsGroupings = ["day", "week", "month", "bank", "branch", "handler", "category", "status"] as const;
+
+// Longest range in days: months may span about ten years, the other groupings (whose trends
+// are bucketed by day) about two
+const statisticsMaxRangeDays = { month: 3653, other: 731 } as const;
+
+// Today in JST, the default end of a statistics range
+const jstToday = () => new Date(Date.now() + 9 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export const statisticsQuerySchema = z.object({
+  from: isoDate.optional(), // defaults to 29 days before `to`
+  to: isoDate.optional(), // defaults to today
+  groupBy: z.enum(statisticsGroupings).default("day"),
+}).refine((query) => !query.from || query.from <= (query.to ?? jstToday()), {
+  message: "終了日は開始日以降の日付を指定してください",
+  path: ["to"],
+}).refine((query) => {
+  if (!query.from) return true;
+  const days = (Date.parse(query.to ?? jstToday()) - Date.parse(query.from)) / DAY_MILLISECONDS + 1;
+  const maxDays = query.groupBy === "month" ? statisticsMaxRangeDays.month : statisticsMaxRangeDays.other;
+  return Number.isNaN(days) || days <= maxDays;
+}, {
+  message: "集計期間が長すぎます（月別は10年、それ以外は2年以内で指定してください）",
+  path: ["from"],
+});
+
+// Filters of a saved search, stored as the query parameters; paging is left to the list
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "名前を入力してください").max(50, "名前は50文字以内で入力してください"),
+  query: z.record(z.string())
+    .transform(({ limit, offset, ...filters }) => filters)
+    .refine((query) => reportQuerySchema.safeParse(query).success, "検索条件が正しくありません"),
+  isShared: z.boolean().optional(),
 });
 
 // Types
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// A user as sent to clients, without the password hash
+export type PublicUser = Omit<User, "password">;
 export type InsertFinancialInstitution = z.infer<typeof insertFinancialInstitutionSchema>;
 export type FinancialInstitution = typeof financialInstitutions.$inferSelect;
 export type InsertBranch = z.infer<typeof insertBranchSchema>;
 export type Branch = typeof branches.$inferSelect;
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+export type InsertCustomerContact = z.infer<typeof insertCustomerContactSchema>;
+export type CustomerContact = typeof customerContacts.$inferSelect;
+export type InsertInquiryCategory = z.infer<typeof insertInquiryCategorySchema>;
+export type InquiryCategory = typeof inquiryCategories.$inferSelect;
+export type InsertReportTemplate = z.infer<typeof insertReportTemplateSchema>;
+export type ReportTemplate = typeof reportTemplates.$inferSelect;
+export type InsertApprovalRule = z.infer<typeof insertApprovalRuleSchema>;
+export type ApprovalRule = Omit<typeof approvalRules.$inferSelect, "levels"> & { levels: number[] };
+export type ReportApprovalStep = typeof reportApprovalSteps.$inferSelect;
+export type InsertApprovalDelegation = z.infer<typeof insertApprovalDelegationSchema>;
+export type ApprovalDelegation = typeof approvalDelegations.$inferSelect;
+
+export type ApprovalDelegationWithUsers = ApprovalDelegation & {
+  delegator: Pick<User, "id" | "firstName" | "lastName"> | null;
+  delegate: Pick<User, "id" | "firstName" | "lastName"> | null;
+};
 export type InsertReport = z.infer<typeof insertReportSchema>;
 export type Report = typeof reports.$inferSelect;
 export type SubmitReportForApproval = z.infer<typeof submitReportForApprovalSchema>;
 export type UpdateReportStatus = z.infer<typeof updateReportStatusSchema>;
+export type SegregationPolicy = z.infer<typeof segregationPolicySchema>;
+export type ApprovalSla = z.infer<typeof approvalSlaSchema>;
+export type ReportNumberFormat = z.infer<typeof reportNumberFormatSchema>;
+export type ReportQuery = z.infer<typeof reportQuerySchema>;
+export type ReportSortKey = typeof reportSortKeys[number];
+export type ReportPeriod = typeof reportPeriods[number];
+export type StatisticsQuery = z.infer<typeof statisticsQuerySchema>;
+export type StatisticsGrouping = typeof statisticsGroupings[number];
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = Omit<typeof savedSearches.$inferSelect, "query"> & { query: Record<string, string> };
+
+export type ReportEvent = typeof reportEvents.$inferSelect;
+export type ReportStatus = typeof reportStatuses[number];
+export type ReportEventType = "created" | "updated" | "submitted" | "withdrawn" | "step_approved" | "approved" | "rejected" | "archived";
+
+export type ReportEventWithActor = ReportEvent & {
+  actor: Pick<User, "id" | "firstName" | "lastName"> | null;
+  onBehalfOf: Pick<User, "id" | "firstName" | "lastName"> | null;
+};
+
+// Report fields captured in each revision snapshot
+export const reportRevisionFields = [
+  "userNumber",
+  "bankCode",
+  "branchCode",
+  "companyName",
+  "contactPersonName",
+  "inquiryContent",
+  "responseContent",
+  "escalationRequired",
+  "escalationReason",
+] as const;
+
+export type ReportRevisionField = typeof reportRevisionFields[number];
+
+// Text fields covered by the full-text index, in the order snippets are picked from
+export const reportSearchFields = [
+  "reportNumber",
+  "userNumber",
+  "companyName",
+  "contactPersonName",
+  "inquiryContent",
+  "responseContent",
+  "escalationReason",
+] as const;
+
+export type ReportSearchField = typeof reportSearchFields[number];
+export type ReportSnapshot = Pick<Report, ReportRevisionField>;
+export type ReportRevision = typeof reportRevisions.$inferSelect;
+
+export type ReportRevisionWithAuthor = Omit<ReportRevision, "snapshot"> & {
+  snapshot: ReportSnapshot;
+  author: Pick<User, "id" | "firstName" | "lastName"> | null;
+};
+
+export type ReportRevisionComparison = {
+  from: ReportRevisionWithAuthor;
+  to: ReportRevisionWithAuthor;
+  changes: { field: ReportRevisionField; from: unknown; to: unknown }[];
+};
+
+// Replies carry parentId; the anchor field is inherited from the parent by the server
+export const insertReportCommentSchema = z.object({
+  body: z.string().trim().min(1, "コメントを入力してください"),
+  fieldName: z.enum(reportRevisionFields).nullable().optional(),
+  parentId: z.string().nullable().optional(),
+});
+
+export const resolveReportCommentSchema = z.object({
+  resolved: z.boolean(),
+});
+
+export type InsertReportComment = z.infer<typeof insertReportCommentSchema>;
+export type ReportComment = typeof reportComments.$inferSelect;
+
+export type ReportCommentWithAuthor = ReportComment & {
+  author: Pick<User, "id" | "firstName" | "lastName"> | null;
+  resolver: Pick<User, "id" | "firstName" | "lastName"> | null;
+};
+
+export type ReportAttachment = typeof reportAttachments.$inferSelect;
+export type InsertReportAttachment = Omit<ReportAttachment, "id" | "createdAt">;
+
+export type ReportAttachmentWithUploader = ReportAttachment & {
+  uploader: Pick<User, "id" | "firstName" | "lastName"> | null;
+};
+
+export type CustomerWithContacts = Customer & {
+  contacts: CustomerContact[];
+};
+
+// One institution or branch in a master import preview
+export type BankMasterImportEntry = {
+  id?: string; // existing row, set for changes and removals
+  bankCode: string;
+  branchCode?: string; // absent for institutions
+  name: string;
+  previousName?: string; // set for changes
+  reactivated?: boolean; // an inactive row that appears in the file again
+};
+
+export type BankMasterImportDiff = {
+  institutions: { added: BankMasterImportEntry[]; changed: BankMasterImportEntry[]; removed: BankMasterImportEntry[] };
+  branches: { added: BankMasterImportEntry[]; changed: BankMasterImportEntry[]; removed: BankMasterImportEntry[] };
+  errors: { line: number; message: string }[];
+};
+
+// Excerpt of the field that matched a search, split so matches can be highlighted
+export type ReportSearchSnippet = {
+  field: ReportSearchField;
+  segments: { text: string; highlighted: boolean }[];
+};
 
 export type ReportWithDetails = Report & {
-  handler: User;
-  approver: User;
-  bankName?: string;
-  branchName?: string;
+  handler: PublicUser;
+  approver: PublicUser;
+  approvalSteps?: ReportApprovalStep[]; // steps of the current submission round
+  approvalBlockedReason?: string | null; // set in the approval queue when segregation of duties blocks the viewer
+  slaOverdue?: boolean; // set in the approval queue when the report has waited longer than the SLA threshold
+  categoryName?: string | null; // full path, e.g. "発生記録 > 記録請求エラー"
+  tags?: string[];
+  searchSnippet?: ReportSearchSnippet | null; // set on search results
+};
+
+// Saved search as listed to a user, with the number of reports it currently matches for them
+export type SavedSearchWithCount = SavedSearch & {
+  owner: Pick<User, "id" | "firstName" | "lastName"> | null;
+  count: number;
+};
+
+// Report counts of one statistics bucket. Approval and rejection rates are shares of the decided
+// reports (approved + currently rejected); the escalation rate is a share of all reports.
+export type ReportStatisticsCounts = {
+  volume: number;
+  approved: number;
+  rejected: number;
+  escalated: number;
+  approvalRate: number | null; // null when nothing was decided
+  rejectionRate: number | null;
+  escalationRate: number | null; // null when there were no reports
+};
+
+export type ReportStatisticsBucket = ReportStatisticsCounts & {
+  key: string; // YYYY-MM-DD (day, week start), YYYY-MM, or the id/code/status grouped on
+  label: string;
+};
+
+export type ReportStatistics = {
+  // Dashboard figures, always relative to today in JST
+  todayInquiries: number;
+  pendingApprovals: number;
+  overdueApprovals: number; // pending longer than the SLA threshold
+  monthlyCompleted: number; // approved this month
+  escalations: number; // escalated reports created this month
+  // Figures over the requested range, limited to the reports the user can list in the history
+  range: { from: string; to: string; timezone: string };
+  groupBy: StatisticsGrouping;
+  buckets: ReportStatisticsBucket[]; // time groupings include empty buckets, oldest first
+  totals: ReportStatisticsCounts;
+  byCategory: { categoryId: string | null; categoryName: string; count: number }[];
+  topTags: { tag: string; count: number }[];
+};
+
+// Time from submission to final decision, in hours
+export type TurnaroundSummary = {
+  count: number; // decided reports
+  medianHours: number | null; // null when nothing was decided
+  p90Hours: number | null;
+  withinSlaRate: number | null; // share decided within the SLA threshold
+};
+
+export type TurnaroundGroup = TurnaroundSummary & {
+  key: string; // approver id or bank code
+  label: string;
+};
+
+// Approval turnaround of reports decided in the requested range
+export type ApprovalTurnaround = {
+  range: { from: string; to: string; timezone: string };
+  thresholdHours: number;
+  overall: TurnaroundSummary;
+  byApprover: TurnaroundGroup[]; // the approver who made the final decision, slowest median first
+  byBank: TurnaroundGroup[];
+  trend: TurnaroundGroup[]; // by decision date for day, week or month groupings (day otherwise), oldest first
+  overduePending: number; // currently pending longer than the threshold
+};
+
+// One page of a report query
+export type ReportQueryResult = {
+  items: ReportWithDetails[];
+  total: number; // matching reports across all pages
+  limit: number;
+  offset: number;
 };